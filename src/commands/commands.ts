@@ -0,0 +1,187 @@
+/*
+ * Draftworx Context - Ribbon commands and keyboard shortcuts
+ * Runs the registered automations and the context copy without the task
+ * pane, using the settings profile that applies to the workbook, and
+ * reports each result as a notification
+ */
+
+import {
+  applyBudget,
+  AutomationResult,
+  BudgetResult,
+  captureSelectionContext,
+  describeAutomationResult,
+  getAutomation,
+  getDefaultOptions,
+  getProfileInUse,
+  getUserSettingsStorage,
+  getWorkbookKey,
+  loadRedactionMap,
+  redactPayload,
+  resolveProfile,
+  ResolvedProfile,
+  ResultNotice,
+  runExclusive,
+  saveRedactionMap,
+  serializeContext,
+  validateOptions
+} from '../lib';
+import { COMMAND_RESULT_EVENT } from './events';
+
+/** How long a notification stays up when the pane is hidden */
+const NOTIFICATION_MS = 4000;
+
+/** The context copy, described like a registered automation */
+const COPY_CONTEXT = {
+  label: '📋 Copy Context',
+  describeResult: ({ payload, tokens }: BudgetResult) =>
+    `Copied ${payload.sheet}!${payload.selection} (~${tokens.toLocaleString()} tokens`
+    + `${payload.omissions?.length ? ', trimmed to fit the budget' : ''})`,
+};
+
+let paneVisible = document.visibilityState === 'visible';
+let notification: Office.Dialog | null = null;
+
+Office.onReady((info) => {
+  if (info.host !== Office.HostType.Excel) {
+    return;
+  }
+
+  // Action ids match the manifest's FunctionName values and shortcuts.json
+  Office.actions.associate('copyContext', command(COPY_CONTEXT.label, copyContext));
+  Office.actions.associate('copySelectionToNewSheet', command(
+    getAutomation('copySelectionToNewSheet')?.label ?? 'Copy to new sheet',
+    () => runAutomation('copySelectionToNewSheet')
+  ));
+  Office.actions.associate('showTaskpane', () => Office.addin.showAsTaskpane());
+
+  Office.addin.onVisibilityModeChanged((message) => {
+    paneVisible = message.visibilityMode === Office.VisibilityMode.taskpane;
+  });
+});
+
+/**
+ * Wrap a command so it runs one at a time (with the pane's automations too),
+ * always reports its result, and tells Office when it has finished (ribbon
+ * buttons pass an event, shortcuts don't)
+ */
+function command(
+  label: string,
+  run: () => Promise<ResultNotice>
+): (event?: Office.AddinCommands.Event) => Promise<void> {
+  return async (event) => {
+    try {
+      notify(await runExclusive(label, run));
+    } catch (error) {
+      notify({ type: 'error', message: error instanceof Error ? error.message : 'Command failed' });
+    } finally {
+      event?.completed();
+    }
+  };
+}
+
+/**
+ * Run a registered automation with its defaults and the profile's saved options
+ */
+async function runAutomation(id: string): Promise<ResultNotice> {
+  const automation = getAutomation(id);
+  if (!automation) {
+    return { type: 'error', message: `Unknown automation: ${id}` };
+  }
+
+  const profile = await loadProfile();
+  const options = { ...getDefaultOptions(automation), ...profile.automationOptions[id] };
+  const errors = validateOptions(automation.options, options);
+  if (errors.length > 0) {
+    return { type: 'error', message: `${automation.label}: ${errors.join('; ')}` };
+  }
+
+  return describeAutomationResult(automation, await automation.run(options));
+}
+
+/**
+ * Copy the selection's context with the profile's format, budget and redaction rules
+ */
+async function copyContext(): Promise<ResultNotice> {
+  const profile = await loadProfile();
+  const captured = await captureSelectionContext(profile);
+  if (!captured.success || !captured.data) {
+    return describeAutomationResult(COPY_CONTEXT, { success: false, error: captured.error });
+  }
+
+  // Continue the workbook's mapping, so placeholders match the pane's
+  let payload = captured.data;
+  if (profile.redactionRules.length > 0) {
+    const { redacted, map } = redactPayload(payload, profile.redactionRules, loadRedactionMap(localStorage, getWorkbookKey()));
+    saveRedactionMap(localStorage, getWorkbookKey(), map);
+    payload = redacted;
+  }
+  const budget = applyBudget(payload, {
+    maxTokens: profile.maxTokens > 0 ? profile.maxTokens : Infinity,
+    format: profile.format
+  });
+  await writeClipboard(serializeContext(budget.payload, profile.format));
+
+  const result: AutomationResult<BudgetResult> = { success: true, data: budget };
+  return describeAutomationResult(COPY_CONTEXT, result);
+}
+
+async function loadProfile(): Promise<ResolvedProfile> {
+  return resolveProfile(await getProfileInUse(Office.context.document.settings, getUserSettingsStorage()));
+}
+
+/**
+ * Write text to the clipboard. Some hosts refuse while the pane is hidden,
+ * so the failure says where to copy from instead.
+ */
+async function writeClipboard(text: string): Promise<void> {
+  try {
+    await navigator.clipboard.writeText(text);
+    return;
+  } catch {
+    // Fall back to a hidden textarea below
+  }
+
+  const textarea = document.createElement('textarea');
+  textarea.value = text;
+  document.body.appendChild(textarea);
+  textarea.select();
+  const copied = document.execCommand('copy');
+  document.body.removeChild(textarea);
+  if (!copied) {
+    throw new Error('Excel blocked the clipboard — open the Draftworx pane and use Copy');
+  }
+}
+
+/**
+ * Show a result: in the pane's status line when the pane is open, otherwise
+ * in a small dialog that closes itself
+ */
+function notify(notice: ResultNotice): void {
+  window.dispatchEvent(new CustomEvent(COMMAND_RESULT_EVENT, { detail: notice }));
+  if (paneVisible) {
+    return;
+  }
+
+  notification?.close();
+  notification = null;
+  const url = new URL('notification.html', location.href);
+  url.searchParams.set('type', notice.type);
+  url.searchParams.set('message', notice.message);
+  url.searchParams.set('ms', String(NOTIFICATION_MS));
+
+  Office.context.ui.displayDialogAsync(url.href, { height: 15, width: 30, displayInIframe: true }, (result) => {
+    if (result.status !== Office.AsyncResultStatus.Succeeded) {
+      console.error('Could not show the notification:', result.error.message, notice.message);
+      return;
+    }
+    const dialog = result.value;
+    notification = dialog;
+    dialog.addEventHandler(Office.EventType.DialogMessageReceived, () => {
+      dialog.close();
+      if (notification === dialog) {
+        notification = null;
+      }
+    });
+  });
+}
@@ -0,0 +1,11 @@
+/*
+ * Draftworx Context - Command events
+ * Ribbon commands share the task pane's page (shared runtime); they raise
+ * this window event with each ResultNotice so an open pane can show it.
+ */
+
+import { ResultNotice } from '../lib';
+
+export const COMMAND_RESULT_EVENT = 'draftworx:commandresult';
+
+export type CommandResultEvent = CustomEvent<ResultNotice>;
@@ -0,0 +1,100 @@
+/*
+ * Draftworx Context - Custom worksheet functions
+ * =DWX.CONTEXT and =DWX.FORMULATEXT_R1C1, so a context string can be built
+ * inside the workbook and referenced by other tools. They run in the shared
+ * runtime, so they can read the range through Excel.run like the task pane,
+ * and =DWX.CONTEXT follows the workbook's settings profile (tables, names,
+ * display and redaction rules) like the ribbon commands.
+ * Metadata for Excel is in functions.json — keep the two in step.
+ */
+
+import {
+  getFormulasR1C1,
+  getProfileInUse,
+  getRangeContext,
+  getUserSettingsStorage,
+  getWorkbookKey,
+  loadRedactionMap,
+  parseOutputFormat,
+  resolveProfile,
+  saveRedactionMap
+} from '../lib';
+
+/**
+ * Serialized context for a range, the same text the task pane copies, with
+ * the workbook profile's redaction rules applied.
+ * @customfunction CONTEXT
+ * @requiresParameterAddresses
+ * @param range Cells to describe
+ * @param [format] json, compact, markdown, csv or tsv (default: json)
+ * @param [maxTokens] Token budget; the context is trimmed to fit (default: no limit)
+ * @param [includeFormulas] Include formula text (default: TRUE)
+ * @returns Context text
+ */
+export async function context(
+  range: unknown[][],
+  format: string | null | undefined,
+  maxTokens: number | null | undefined,
+  includeFormulas: boolean | null | undefined,
+  invocation: CustomFunctions.Invocation
+): Promise<string> {
+  const address = getRangeAddress(invocation);
+  return run(async () => {
+    const profile = resolveProfile(await getProfileInUse(Office.context.document.settings, getUserSettingsStorage()));
+    // Continue the workbook's placeholder mapping, shared with the pane and the ribbon copy
+    const workbookKey = getWorkbookKey();
+    return Excel.run(excel => getRangeContext(excel, address, {
+      formulaRegions: profile.formulaRegions,
+      display: profile.display,
+      detectTables: profile.detectTables,
+      resolveNames: profile.resolveNames,
+      redactionRules: profile.redactionRules,
+      redactionMap: loadRedactionMap(localStorage, workbookKey),
+      onRedactionMap: map => saveRedactionMap(localStorage, workbookKey, map),
+      format: parseOutputFormat(format),
+      maxTokens: maxTokens ?? 0,
+      includeFormulas: includeFormulas ?? true
+    }));
+  });
+}
+
+/**
+ * Each cell's formula in R1C1 notation (blank where there is no formula),
+ * so filled-down formulas can be compared.
+ * @customfunction FORMULATEXT_R1C1
+ * @requiresParameterAddresses
+ * @param range Cells to read
+ * @returns R1C1 formulas, spilled to the range's shape
+ */
+export async function formulaTextR1C1(range: unknown[][], invocation: CustomFunctions.Invocation): Promise<string[][]> {
+  const address = getRangeAddress(invocation);
+  return run(() => Excel.run(excel => getFormulasR1C1(excel, address)));
+}
+
+/**
+ * The address of the first argument — a cell reference, not a typed value
+ */
+function getRangeAddress(invocation: CustomFunctions.Invocation): string {
+  const address = invocation.parameterAddresses?.[0];
+  if (!address) {
+    throw new CustomFunctions.Error(CustomFunctions.ErrorCode.invalidValue, 'Pass a range, e.g. A1:D20');
+  }
+  return address;
+}
+
+/**
+ * Show a failure as #VALUE! with the reason, instead of a bare error
+ */
+async function run<T>(work: () => Promise<T>): Promise<T> {
+  try {
+    return await work();
+  } catch (error) {
+    throw new CustomFunctions.Error(
+      CustomFunctions.ErrorCode.invalidValue,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
+
+CustomFunctions.associate('CONTEXT', context);
+CustomFunctions.associate('FORMULATEXT_R1C1', formulaTextR1C1);
@@ -0,0 +1,276 @@
+/**
+ * Draftworx Automation Library - Address Utilities
+ *
+ * Pure helpers for working with A1-style addresses.
+ * None of these touch Excel, so they can be used anywhere.
+ */
+
+import { RangeBounds } from './types';
+
+/** Last row in an Excel worksheet */
+export const MAX_ROWS = 1048576;
+
+/** Last column in an Excel worksheet (XFD) */
+export const MAX_COLUMNS = 16384;
+
+/**
+ * Convert column letter to number (A=1, B=2, ..., Z=26, AA=27, etc.)
+ */
+export function columnToNumber(col: string): number {
+  let num = 0;
+  const upper = col.toUpperCase();
+  for (let i = 0; i < upper.length; i++) {
+    num = num * 26 + (upper.charCodeAt(i) - 64);
+  }
+  return num;
+}
+
+/**
+ * Convert column number to letter
+ */
+export function getColumnLetter(num: number): string {
+  let letter = '';
+  while (num > 0) {
+    const mod = (num - 1) % 26;
+    letter = String.fromCharCode(65 + mod) + letter;
+    num = Math.floor((num - 1) / 26);
+  }
+  return letter;
+}
+
+/**
+ * Split an address into its sheet name and cell part.
+ * Handles quoted sheet names (e.g., "'My Sheet'!A1").
+ *
+ * @example
+ * splitSheetAddress("'Q1 Data'!A1:B2") // { sheet: 'Q1 Data', address: 'A1:B2' }
+ * splitSheetAddress('A1')              // { sheet: undefined, address: 'A1' }
+ */
+export function splitSheetAddress(fullAddress: string): { sheet?: string; address: string } {
+  const bang = fullAddress.lastIndexOf('!');
+  if (bang === -1) {
+    return { address: fullAddress };
+  }
+
+  let sheet = fullAddress.slice(0, bang);
+  if (sheet.startsWith("'") && sheet.endsWith("'")) {
+    sheet = sheet.slice(1, -1).replace(/''/g, "'");
+  }
+
+  return { sheet, address: fullAddress.slice(bang + 1) };
+}
+
+/**
+ * Split a multi-area address on its top-level commas.
+ * Commas inside quoted sheet names are left alone.
+ *
+ * @example
+ * splitAreas('Sheet1!A1:A5, Sheet1!C1:C5') // ['Sheet1!A1:A5', 'Sheet1!C1:C5']
+ */
+export function splitAreas(address: string): string[] {
+  const areas: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (const ch of address) {
+    if (ch === "'") {
+      quoted = !quoted;
+    }
+    if (ch === ',' && !quoted) {
+      areas.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim()) {
+    areas.push(current.trim());
+  }
+
+  return areas;
+}
+
+/**
+ * Remove the sheet prefix from an address (e.g., "Sheet1!A1:C3" → "A1:C3")
+ */
+export function stripSheetName(fullAddress: string): string {
+  return splitSheetAddress(fullAddress).address;
+}
+
+/**
+ * Build a sheet-qualified address, quoting the sheet name when Excel would.
+ */
+export function qualifyAddress(sheet: string, address: string): string {
+  const needsQuotes = !/^[A-Za-z_][A-Za-z0-9_.]*$/.test(sheet);
+  const sheetPart = needsQuotes ? `'${sheet.replace(/'/g, "''")}'` : sheet;
+  return `${sheetPart}!${address}`;
+}
+
+/**
+ * Whether a string is an A1-style address (cells, ranges, whole rows/columns,
+ * optionally several areas) rather than something like a defined name.
+ */
+export function isA1Address(address: string): boolean {
+  const area = /^\$?[A-Za-z]{1,3}\$?\d+(:\$?[A-Za-z]{1,3}\$?\d+)?$|^\$?[A-Za-z]{1,3}:\$?[A-Za-z]{1,3}$|^\$?\d+:\$?\d+$/;
+  return splitAreas(address).every(part => area.test(stripSheetName(part)));
+}
+
+/**
+ * Parse a single cell reference (e.g., "B3" or "$B$3") into 1-based row/column.
+ */
+export function parseCellRef(ref: string): { row: number; column: number } {
+  const match = ref.replace(/\$/g, '').match(/^([A-Za-z]+)(\d+)$/);
+  if (!match) {
+    throw new Error(`Invalid cell reference: ${ref}`);
+  }
+  return { row: parseInt(match[2], 10), column: columnToNumber(match[1]) };
+}
+
+/**
+ * Format a 1-based row/column as an A1 cell reference.
+ */
+export function toCellRef(row: number, column: number): string {
+  return `${getColumnLetter(column)}${row}`;
+}
+
+/**
+ * Parse a single-area address (e.g., "A1:C3", "B2", "A:C", "2:5") into bounds.
+ * Whole-column and whole-row references extend to Excel's sheet limits.
+ */
+export function parseRangeAddress(address: string): RangeBounds {
+  const clean = stripSheetName(address).replace(/\$/g, '');
+  const [start, end = start] = clean.split(':');
+
+  // Whole columns ("A:C")
+  if (/^[A-Za-z]+$/.test(start) && /^[A-Za-z]+$/.test(end)) {
+    return {
+      startRow: 1,
+      startColumn: columnToNumber(start),
+      endRow: MAX_ROWS,
+      endColumn: columnToNumber(end),
+    };
+  }
+
+  // Whole rows ("2:5")
+  if (/^\d+$/.test(start) && /^\d+$/.test(end)) {
+    return {
+      startRow: parseInt(start, 10),
+      startColumn: 1,
+      endRow: parseInt(end, 10),
+      endColumn: MAX_COLUMNS,
+    };
+  }
+
+  const first = parseCellRef(start);
+  const last = parseCellRef(end);
+  return {
+    startRow: Math.min(first.row, last.row),
+    startColumn: Math.min(first.column, last.column),
+    endRow: Math.max(first.row, last.row),
+    endColumn: Math.max(first.column, last.column),
+  };
+}
+
+/**
+ * Format bounds back into an A1 address ("B2" for a single cell).
+ */
+export function toRangeAddress(bounds: RangeBounds): string {
+  const start = toCellRef(bounds.startRow, bounds.startColumn);
+  const end = toCellRef(bounds.endRow, bounds.endColumn);
+  return start === end ? start : `${start}:${end}`;
+}
+
+/**
+ * Number of cells covered by the bounds.
+ */
+export function boundsCellCount(bounds: RangeBounds): number {
+  return (bounds.endRow - bounds.startRow + 1) * (bounds.endColumn - bounds.startColumn + 1);
+}
+
+/**
+ * Whether the bounds contain the given 1-based cell position.
+ */
+export function boundsContain(bounds: RangeBounds, row: number, column: number): boolean {
+  return row >= bounds.startRow && row <= bounds.endRow
+    && column >= bounds.startColumn && column <= bounds.endColumn;
+}
+
+/**
+ * Overlap of two bounds, or null if they don't intersect.
+ */
+export function intersectBounds(a: RangeBounds, b: RangeBounds): RangeBounds | null {
+  const bounds = {
+    startRow: Math.max(a.startRow, b.startRow),
+    startColumn: Math.max(a.startColumn, b.startColumn),
+    endRow: Math.min(a.endRow, b.endRow),
+    endColumn: Math.min(a.endColumn, b.endColumn),
+  };
+  return bounds.startRow <= bounds.endRow && bounds.startColumn <= bounds.endColumn ? bounds : null;
+}
+
+/**
+ * Move an address by a number of rows and columns.
+ *
+ * @example
+ * offsetAddress('A1:B2', 2, 1) // 'B3:C4'
+ */
+export function offsetAddress(address: string, rowOffset: number, columnOffset: number): string {
+  const bounds = parseRangeAddress(address);
+  return toRangeAddress({
+    startRow: bounds.startRow + rowOffset,
+    startColumn: bounds.startColumn + columnOffset,
+    endRow: bounds.endRow + rowOffset,
+    endColumn: bounds.endColumn + columnOffset,
+  });
+}
+
+/**
+ * Merge a list of cell refs into the fewest rectangular ranges (row runs
+ * first, then identical runs on consecutive rows).
+ *
+ * @example
+ * refsToRanges(['A1', 'B1', 'A2', 'B2', 'D5']) // ['A1:B2', 'D5']
+ */
+export function refsToRanges(refs: string[]): string[] {
+  const byRow = new Map<number, number[]>();
+  for (const ref of refs) {
+    const { row, column } = parseCellRef(ref);
+    const columns = byRow.get(row) ?? [];
+    columns.push(column);
+    byRow.set(row, columns);
+  }
+
+  const open = new Map<string, RangeBounds>();
+  const closed: RangeBounds[] = [];
+
+  for (const row of [...byRow.keys()].sort((a, b) => a - b)) {
+    const columns = [...new Set(byRow.get(row))].sort((a, b) => a - b);
+    const runs: [number, number][] = [];
+    for (const column of columns) {
+      const run = runs[runs.length - 1];
+      if (run && run[1] === column - 1) {
+        run[1] = column;
+      } else {
+        runs.push([column, column]);
+      }
+    }
+
+    for (const [start, end] of runs) {
+      const key = `${start}:${end}`;
+      const rect = open.get(key);
+      if (rect && rect.endRow === row - 1) {
+        rect.endRow = row;
+      } else {
+        if (rect) {
+          closed.push(rect);
+        }
+        open.set(key, { startRow: row, startColumn: start, endRow: row, endColumn: end });
+      }
+    }
+  }
+
+  closed.push(...open.values());
+  return closed
+    .sort((a, b) => a.startRow - b.startRow || a.startColumn - b.startColumn)
+    .map(toRangeAddress);
+}
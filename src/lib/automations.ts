@@ -5,9 +5,26 @@
  * Each automation is a self-contained, reusable unit.
  */
 
-import { AutomationResult, CapturedRange, CreateSheetOptions, PasteOptions } from './types';
-import { captureSelection, pasteRange } from './range';
+import {
+  AutomationResult,
+  CapturedRange,
+  ChunkOptions,
+  ChunkProgress,
+  ContextOptions,
+  ContextPayload,
+  CreateSheetOptions,
+  FormattingParts,
+  PasteMode,
+  PasteOptions,
+  RedactionRule
+} from './types';
+import { captureSelection, getPasteAddress, pasteRange } from './range';
 import { createSheet, generateUniqueSheetName } from './sheet';
+import { recordCreatedSheet, runJournaled, snapshotRange } from './journal';
+import { buildContextPayload } from './context';
+import { traceDependencies } from './trace';
+import { detectTable, findColumnHeaders } from './table';
+import { resolveNames } from './names';
 
 /**
  * Result of copySelectionToNewSheet automation
@@ -24,11 +41,15 @@ export interface CopyToNewSheetResult {
 /**
  * Options for copySelectionToNewSheet automation
  */
-export interface CopyToNewSheetOptions {
+export interface CopyToNewSheetOptions extends ChunkOptions {
   /** Base name for the new sheet (default: "Copy of [source sheet]") */
   sheetName?: string;
   /** Paste values only, stripping formulas */
   valuesOnly?: boolean;
+  /** How formulas are written (default: "shiftRelative", like Excel's copy/paste) */
+  pasteMode?: PasteMode;
+  /** Carry formatting and metadata — `true` for everything, or pick parts (default: false) */
+  formatting?: boolean | FormattingParts;
   /** Activate the new sheet after creation (default: true) */
   activateNewSheet?: boolean;
 }
@@ -37,9 +58,12 @@ export interface CopyToNewSheetOptions {
  * Copy the current selection to a new sheet.
  * 
  * Creates a new worksheet and pastes the selected range in the same
- * cell location on the new sheet.
+ * cell location on the new sheet. Non-contiguous selections keep each
+ * area at its own position.
  * 
  * This is a complete automation — call it directly, not inside Excel.run().
+ * It is journaled: undoLastAutomation() removes the new sheet, and a
+ * failure partway through removes it straight away.
  * 
  * @param options - Configuration options
  * @returns Promise<AutomationResult<CopyToNewSheetResult>>
@@ -58,86 +82,196 @@ export interface CopyToNewSheetOptions {
  *   valuesOnly: true,
  *   activateNewSheet: false
  * });
+ * 
+ * @example
+ * // Review copy that looks like the original
+ * const result = await copySelectionToNewSheet({ formatting: true });
+ *
+ * @example
+ * // 100,000-row ledger with a progress bar and a Stop button
+ * const result = await copySelectionToNewSheet({
+ *   onProgress: ({ phase, completedRows, totalRows }) => showProgress(phase, completedRows / totalRows),
+ *   signal: stopController.signal,
+ * });
+ * if (!result.success) {
+ *   console.log(result.error, result.progress); // "Cancelled after 40000 of 100000 rows (changes rolled back)"
+ * }
  */
 export async function copySelectionToNewSheet(
   options: CopyToNewSheetOptions = {}
 ): Promise<AutomationResult<CopyToNewSheetResult>> {
-  try {
-    return await Excel.run(async (context) => {
-      // Step 1: Capture the current selection
-      const captured = await captureSelection(context);
-      
-      if (captured.rowCount === 0 || captured.columnCount === 0) {
-        return {
-          success: false,
-          error: 'No cells selected'
-        };
-      }
-      
-      // Step 2: Generate a unique name for the new sheet
-      const baseName = options.sheetName || `Copy of ${captured.sourceSheet}`;
-      const uniqueName = await generateUniqueSheetName(context, baseName);
-      
-      // Step 3: Create the new sheet
-      const newSheet = await createSheet(context, { name: uniqueName });
-      
-      // Step 4: Paste the captured range to the same location
-      await pasteRange(
-        context,
-        captured,
-        newSheet,
-        captured.address,  // Same location
-        options.valuesOnly ?? false
-      );
-      
-      // Step 5: Optionally activate the new sheet
-      if (options.activateNewSheet !== false) {
-        newSheet.activate();
-        await context.sync();
-      }
-      
+  // Remember how far a chunked run got, so a cancelled or failed run can report it
+  let progress: ChunkProgress | undefined;
+  const chunks: ChunkOptions = {
+    chunkRows: options.chunkRows,
+    signal: options.signal,
+    onProgress: (update) => {
+      progress = update;
+      options.onProgress?.(update);
+    },
+  };
+
+  const result = await runJournaled('copySelectionToNewSheet', async (context, entry) => {
+    // Step 1: Capture the current selection (with formatting when asked)
+    const captured = await captureSelection(context, { ...chunks, formatting: options.formatting });
+    
+    if (captured.rowCount === 0 || captured.columnCount === 0) {
       return {
-        success: true,
-        data: {
-          captured,
-          newSheetName: uniqueName,
-          pastedAddress: captured.address
-        }
+        success: false,
+        error: 'No cells selected'
       };
-    });
-  } catch (error) {
+    }
+    
+    // Step 2: Generate a unique name for the new sheet
+    const baseName = options.sheetName || `Copy of ${captured.sourceSheet}`;
+    const uniqueName = await generateUniqueSheetName(context, baseName);
+    
+    // Step 3: Create the new sheet (journaled first, so a failure removes it)
+    recordCreatedSheet(entry, uniqueName);
+    const newSheet = await createSheet(context, { name: uniqueName });
+    
+    // Step 4: Paste the captured range to the same location
+    await pasteRange(
+      context,
+      captured,
+      newSheet,
+      captured.address,  // Same location
+      { ...chunks, valuesOnly: options.valuesOnly, mode: options.pasteMode, formatting: options.formatting }
+    );
+    
+    // Step 5: Optionally activate the new sheet
+    if (options.activateNewSheet !== false) {
+      newSheet.activate();
+      await context.sync();
+    }
+    
     return {
-      success: false,
-      error: error instanceof Error ? error.message : String(error)
+      success: true,
+      data: {
+        captured,
+        newSheetName: uniqueName,
+        pastedAddress: captured.address
+      }
     };
-  }
+  });
+
+  return result.success || !progress ? result : { ...result, progress };
 }
 
 /**
  * Duplicate the current selection within the same sheet.
+ * Relative references shift to the new position unless another mode is given.
+ * The cells it overwrites are journaled, so undoLastAutomation() restores them.
+ * 
+ * @param targetAddress - Address to paste to (top-left cell is enough)
+ * @param options - Paste options, or `true` to strip formulas
  * 
- * @param targetAddress - Address to paste to
- * @param valuesOnly - Strip formulas if true
+ * @example
+ * // B1 holds =A1*2 — the copy at E1 holds =D1*2
+ * await duplicateSelection('E1');
  */
 export async function duplicateSelection(
   targetAddress: string,
-  valuesOnly: boolean = false
+  options: PasteOptions | boolean = {}
 ): Promise<AutomationResult<{ sourceAddress: string; targetAddress: string }>> {
+  return runJournaled('duplicateSelection', async (context, entry) => {
+    const captured = await captureSelection(context);
+    const sheet = context.workbook.worksheets.getActiveWorksheet();
+    
+    await snapshotRange(context, entry, captured.sourceSheet, getPasteAddress(captured, targetAddress));
+    await pasteRange(context, captured, sheet, targetAddress, options);
+    
+    return {
+      success: true,
+      data: {
+        sourceAddress: captured.address,
+        targetAddress
+      }
+    };
+  });
+}
+
+/**
+ * Options for captureSelectionContext — the same names as a SettingsProfile,
+ * so a resolved profile can be passed straight in
+ */
+export interface SelectionContextOptions extends Omit<ContextOptions, 'table'> {
+  /** Trace the cells the selection's formulas read from (default: false) */
+  tracePrecedents?: boolean;
+  /** Trace the cells whose formulas read the selection (default: false) */
+  traceDependents?: boolean;
+  /** How many levels to trace (default: 2) */
+  traceDepth?: number;
+  /** Emit table rows as records keyed by header (default: true) */
+  detectTables?: boolean;
+  /** Explain the defined names the formulas use (default: true) */
+  resolveNames?: boolean;
+  /** Rules the payload will be redacted with — header rules look up the column headers on the sheet */
+  redactionRules?: RedactionRule[];
+}
+
+/**
+ * Capture the current selection as a context payload, with the optional
+ * extras the task pane offers: dependency tracing, table records and
+ * defined names.
+ *
+ * This is a complete automation — call it directly, not inside Excel.run().
+ * It only reads the workbook, so it is not journaled.
+ *
+ * @param options - What to include
+ * @returns Promise<AutomationResult<ContextPayload>>
+ *
+ * @example
+ * const result = await captureSelectionContext(resolveProfile(profile));
+ * if (result.success) {
+ *   await navigator.clipboard.writeText(serializeContext(result.data, 'markdown'));
+ * }
+ */
+export async function captureSelectionContext(
+  options: SelectionContextOptions = {}
+): Promise<AutomationResult<ContextPayload>> {
   try {
-    return await Excel.run(async (context) => {
-      const captured = await captureSelection(context);
-      const sheet = context.workbook.worksheets.getActiveWorksheet();
+    const payload = await Excel.run(async (context) => {
+      const captured = await captureSelection(context, { display: options.display ?? true });
       
-      await pasteRange(context, captured, sheet, targetAddress, valuesOnly);
+      // Optionally trace what feeds (and is fed by) the selection
+      const dependencies = options.tracePrecedents || options.traceDependents
+        ? await traceDependencies(context, captured, {
+            depth: options.traceDepth,
+            precedents: options.tracePrecedents === true,
+            dependents: options.traceDependents === true
+          })
+        : undefined;
       
-      return {
-        success: true,
-        data: {
-          sourceAddress: captured.address,
-          targetAddress
-        }
+      // Optionally emit table rows as records keyed by header
+      const table = options.detectTables !== false
+        ? await detectTable(context, captured)
+        : null;
+      
+      // Optionally explain the defined names the formulas use
+      const names = options.resolveNames !== false
+        ? await resolveNames(context, captured)
+        : [];
+      
+      const payload: ContextPayload = {
+        ...buildContextPayload(captured, {
+          includeFormulas: options.includeFormulas,
+          formulaRegions: options.formulaRegions,
+          display: options.display,
+          table
+        }),
+        ...(dependencies && { dependencies }),
+        ...(names.length > 0 && { names })
       };
+      
+      // Header rules need the headers of columns captured without them
+      if (options.redactionRules?.some(rule => rule.headers?.length)) {
+        payload.columnHeaders = await findColumnHeaders(context, payload);
+      }
+      return payload;
     });
+    
+    return { success: true, data: payload };
   } catch (error) {
     return {
       success: false,
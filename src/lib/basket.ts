@@ -0,0 +1,154 @@
+/**
+ * Draftworx Automation Library - Context Basket
+ *
+ * Pin context payloads from any sheet and send them as one combined payload.
+ * The basket is a plain array; every function returns a new one.
+ * Pure functions — usable from the task pane or any script.
+ */
+
+import { BasketPayload, BudgetOptions, ContextPayload, OutputFormat } from './types';
+import { qualifyAddress } from './address';
+import { applyBudget, estimateTokens } from './budget';
+import { serializeContext } from './serializers';
+
+/**
+ * Result of fitting a basket into a budget
+ */
+export interface BasketBudgetResult {
+  /** The (possibly truncated) payloads, with omissions recorded */
+  basket: ContextPayload[];
+  /** Estimated tokens of the serialized basket */
+  tokens: number;
+  /** Whether the result fits the budget */
+  withinBudget: boolean;
+}
+
+/**
+ * Label identifying a payload in the basket (e.g., "'Note 4'!A1:C8").
+ */
+export function getBasketLabel(payload: ContextPayload): string {
+  return qualifyAddress(payload.sheet, payload.selection);
+}
+
+/**
+ * Add a payload to the end of the basket. Pinning a range that is already
+ * pinned replaces it in place with the newer capture.
+ *
+ * @example
+ * basket = pinContext(basket, currentContext);
+ */
+export function pinContext(basket: ContextPayload[], payload: ContextPayload): ContextPayload[] {
+  const label = getBasketLabel(payload);
+  const index = basket.findIndex(pinned => getBasketLabel(pinned) === label);
+  return index === -1
+    ? [...basket, payload]
+    : basket.map((pinned, i) => (i === index ? payload : pinned));
+}
+
+/**
+ * Remove the payload at an index.
+ */
+export function unpinContext(basket: ContextPayload[], index: number): ContextPayload[] {
+  return basket.filter((_, i) => i !== index);
+}
+
+/**
+ * Move a payload to another position (indexes are clamped to the basket).
+ *
+ * @example
+ * basket = moveContext(basket, 2, 0); // third range first
+ */
+export function moveContext(basket: ContextPayload[], from: number, to: number): ContextPayload[] {
+  if (from < 0 || from >= basket.length) {
+    return basket;
+  }
+  const moved = [...basket];
+  const [payload] = moved.splice(from, 1);
+  moved.splice(Math.max(0, Math.min(to, moved.length)), 0, payload);
+  return moved;
+}
+
+/**
+ * Combine the basket into one payload, each range labelled by sheet and address.
+ */
+export function combineContexts(basket: ContextPayload[]): BasketPayload {
+  return {
+    timestamp: new Date().toISOString(),
+    ranges: basket.map(payload => ({ label: getBasketLabel(payload), ...payload })),
+  };
+}
+
+/**
+ * Serialize the basket in the given format. JSON formats emit one object
+ * with a `ranges` list; text formats emit one labelled section per range.
+ *
+ * @param basket - Pinned payloads, in order
+ * @param format - Output format (default: "json")
+ * @returns string
+ *
+ * @example
+ * await navigator.clipboard.writeText(serializeBasket(basket, 'markdown'));
+ */
+export function serializeBasket(basket: ContextPayload[], format: OutputFormat = 'json'): string {
+  const combined = combineContexts(basket);
+
+  switch (format) {
+    case 'json':
+      return JSON.stringify(combined, null, 2);
+    case 'compact':
+      return JSON.stringify({
+        timestamp: combined.timestamp,
+        ranges: basket.map(payload => ({
+          label: getBasketLabel(payload),
+          ...JSON.parse(serializeContext(payload, 'compact')),
+        })),
+      });
+    case 'markdown':
+      return basket
+        .map(payload => `## ${getBasketLabel(payload)}\n\n${serializeContext(payload, 'markdown')}`)
+        .join('\n\n');
+    default:
+      return basket
+        .map(payload => `${getBasketLabel(payload)}\n${serializeContext(payload, format)}`)
+        .join('\n\n');
+  }
+}
+
+/**
+ * Fit a basket into a token budget. The budget is shared out evenly, with
+ * ranges smaller than their share kept whole and the rest shrunk with
+ * applyBudget — so large ranges give up the most.
+ *
+ * @param basket - Pinned payloads
+ * @param options - Budget, format and strategies
+ * @returns BasketBudgetResult
+ */
+export function applyBasketBudget(basket: ContextPayload[], options: BudgetOptions): BasketBudgetResult {
+  const format = options.format ?? 'json';
+  const measure = (payloads: ContextPayload[]) => estimateTokens(serializeBasket(payloads, format));
+
+  let tokens = measure(basket);
+  if (tokens <= options.maxTokens) {
+    return { basket, tokens, withinBudget: true };
+  }
+
+  // Labels and nesting cost tokens too — scale the budget down to match
+  const sizes = basket.map(payload => estimateTokens(serializeContext(payload, format)));
+  const total = sizes.reduce((sum, size) => sum + size, 0);
+  let available = Math.floor((options.maxTokens * total) / tokens);
+
+  const shares = new Array<number>(basket.length);
+  const bySize = basket.map((_, i) => i).sort((a, b) => sizes[a] - sizes[b]);
+  bySize.forEach((index, position) => {
+    const share = Math.floor(available / (bySize.length - position));
+    shares[index] = Math.min(sizes[index], share);
+    available -= shares[index];
+  });
+
+  const fitted = basket.map((payload, i) =>
+    shares[i] >= sizes[i] ? payload : applyBudget(payload, { ...options, maxTokens: shares[i] }).payload
+  );
+  tokens = measure(fitted);
+
+  return { basket: fitted, tokens, withinBudget: tokens <= options.maxTokens };
+}
@@ -0,0 +1,287 @@
+/**
+ * Draftworx Automation Library - Token Budgeting
+ *
+ * Estimate how large a payload is for a model and shrink it to fit.
+ * Pure functions — usable from the task pane or any script.
+ */
+
+import {
+  BudgetOptions,
+  CellData,
+  ColumnSummary,
+  ContextOmission,
+  ContextPayload,
+  TruncationStrategy,
+} from './types';
+import { parseCellRef, parseRangeAddress, refsToRanges, toCellRef, toRangeAddress } from './address';
+import { toR1C1 } from './formula';
+import { serializeContext } from './serializers';
+
+/**
+ * Default strategy order — cheapest information loss first
+ */
+export const DEFAULT_STRATEGIES: TruncationStrategy[] = [
+  'dropEmpty',
+  'collapseFormulas',
+  'sampleRows',
+  'summarizeColumns',
+];
+
+/**
+ * Result of fitting a payload into a budget
+ */
+export interface BudgetResult {
+  /** The (possibly truncated) payload, with omissions recorded */
+  payload: ContextPayload;
+  /** Estimated tokens of the serialized result */
+  tokens: number;
+  /** Whether the result fits the budget */
+  withinBudget: boolean;
+}
+
+/**
+ * Rough token estimate for a string (~4 characters per token).
+ * Good enough to warn before a model's context window is blown.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Shrink a payload until its serialized form fits a token budget.
+ * Strategies are applied cumulatively, in order, stopping as soon as the
+ * payload fits. Every strategy records exactly what it removed in `omissions`.
+ *
+ * @param payload - Context payload to fit
+ * @param options - Budget, format and strategies
+ * @returns BudgetResult
+ *
+ * @example
+ * const { payload: fitted, tokens } = applyBudget(payload, { maxTokens: 8000, format: 'markdown' });
+ */
+export function applyBudget(payload: ContextPayload, options: BudgetOptions): BudgetResult {
+  const format = options.format ?? 'json';
+  const measure = (p: ContextPayload) => estimateTokens(serializeContext(p, format));
+
+  let current = payload;
+  let tokens = measure(current);
+
+  for (const strategy of options.strategies ?? DEFAULT_STRATEGIES) {
+    if (tokens <= options.maxTokens) {
+      break;
+    }
+    current = STRATEGIES[strategy](current, payload, options);
+    tokens = measure(current);
+  }
+
+  return { payload: current, tokens, withinBudget: tokens <= options.maxTokens };
+}
+
+type StrategyFn = (current: ContextPayload, original: ContextPayload, options: BudgetOptions) => ContextPayload;
+
+const STRATEGIES: Record<TruncationStrategy, StrategyFn> = {
+  dropEmpty,
+  collapseFormulas,
+  sampleRows,
+  summarizeColumns,
+};
+
+/**
+ * Remove cells with no value and no formula.
+ */
+function dropEmpty(current: ContextPayload): ContextPayload {
+  const isEmpty = (cell: CellData) => (cell.value === null || cell.value === '') && !cell.formula;
+  const removed = current.cells.filter(isEmpty).map(cell => cell.ref);
+
+  return withOmission(
+    { ...current, cells: current.cells.filter(cell => !isEmpty(cell)) },
+    'dropEmpty',
+    removed,
+    'Empty cells removed'
+  );
+}
+
+/**
+ * Strip formulas that repeat the cell above (same R1C1 pattern).
+ * Only the first cell of each run keeps its formula; values are kept.
+ */
+function collapseFormulas(current: ContextPayload): ContextPayload {
+  const patterns = new Map<string, string>();
+  for (const cell of current.cells) {
+    if (cell.formula) {
+      const { row, column } = parseCellRef(cell.ref);
+      patterns.set(`${row}:${column}`, toR1C1(cell.formula, row, column));
+    }
+  }
+
+  const removed: string[] = [];
+  const cells = current.cells.map(cell => {
+    if (!cell.formula) {
+      return cell;
+    }
+    const { row, column } = parseCellRef(cell.ref);
+    if (patterns.get(`${row - 1}:${column}`) === patterns.get(`${row}:${column}`)) {
+      removed.push(cell.ref);
+      return { ...cell, formula: null };
+    }
+    return cell;
+  });
+
+  return withOmission(
+    { ...current, cells },
+    'collapseFormulas',
+    removed,
+    'Formulas removed where they repeat the formula of the cell above (same relative pattern); values kept'
+  );
+}
+
+/**
+ * Keep only the first and last rows of each area (and of a detected table).
+ */
+function sampleRows(current: ContextPayload, _original: ContextPayload, options: BudgetOptions): ContextPayload {
+  const head = options.headRows ?? 20;
+  const tail = options.tailRows ?? 5;
+  const removed: string[] = [];
+
+  const dropped = getAreaBounds(current).map(bounds => ({
+    bounds,
+    firstDropped: bounds.startRow + head,
+    lastDropped: bounds.endRow - tail,
+  })).filter(area => area.firstDropped <= area.lastDropped);
+
+  const cells = current.cells.filter(cell => {
+    const { row, column } = parseCellRef(cell.ref);
+    const drop = dropped.some(area =>
+      row >= area.firstDropped && row <= area.lastDropped
+      && column >= area.bounds.startColumn && column <= area.bounds.endColumn
+    );
+    if (drop) {
+      removed.push(cell.ref);
+    }
+    return !drop;
+  });
+
+  const ranges = dropped.map(area => toRangeAddress({
+    startRow: area.firstDropped,
+    startColumn: area.bounds.startColumn,
+    endRow: area.lastDropped,
+    endColumn: area.bounds.endColumn,
+  }));
+
+  // Table records are sampled the same way
+  let table = current.table;
+  if (table && !table.recordRows && table.records.length > head + tail) {
+    const rows = table.records.map((_, index) => table!.firstRow + index);
+    const keep = (_: unknown, index: number) => index < head || index >= rows.length - tail;
+    const tableBounds = parseRangeAddress(table.address);
+
+    for (let row = rows[head]; row <= rows[rows.length - tail - 1]; row++) {
+      for (let column = tableBounds.startColumn; column <= tableBounds.endColumn; column++) {
+        removed.push(toCellRef(row, column));
+      }
+    }
+    ranges.push(toRangeAddress({
+      startRow: rows[head],
+      startColumn: tableBounds.startColumn,
+      endRow: rows[rows.length - tail - 1],
+      endColumn: tableBounds.endColumn,
+    }));
+
+    table = {
+      ...table,
+      records: table.records.filter(keep),
+      recordRows: rows.filter(keep),
+    };
+  }
+
+  return withOmission(
+    { ...current, cells, ...(table && { table }) },
+    'sampleRows',
+    removed,
+    `Middle rows removed; kept the first ${head} and last ${tail} rows of each area`,
+    ranges
+  );
+}
+
+/**
+ * Replace numeric columns with count/sum/min/max/mean.
+ * Statistics come from the original payload, so earlier sampling doesn't skew them.
+ * A leading text cell is treated as the column header and kept.
+ */
+function summarizeColumns(current: ContextPayload, original: ContextPayload): ContextPayload {
+  const summaries: ColumnSummary[] = [...(current.summaries ?? [])];
+  const dropRefs = new Set<string>();
+
+  for (const bounds of getAreaBounds(original)) {
+    for (let column = bounds.startColumn; column <= bounds.endColumn; column++) {
+      const columnCells = original.cells
+        .map(cell => ({ cell, ...parseCellRef(cell.ref) }))
+        .filter(c => c.column === column && c.row >= bounds.startRow && c.row <= bounds.endRow)
+        .sort((a, b) => a.row - b.row);
+
+      const header = typeof columnCells[0]?.cell.value === 'string' ? columnCells[0] : undefined;
+      const body = header ? columnCells.slice(1) : columnCells;
+      const filled = body.filter(c => c.cell.value !== null && c.cell.value !== '');
+      const numbers = filled.map(c => c.cell.value).filter((v): v is number => typeof v === 'number');
+
+      if (numbers.length < 2 || numbers.length !== filled.length) {
+        continue;
+      }
+
+      const sum = numbers.reduce((total, n) => total + n, 0);
+      summaries.push({
+        range: toRangeAddress({
+          startRow: body[0].row,
+          startColumn: column,
+          endRow: bounds.endRow,
+          endColumn: column,
+        }),
+        ...(header && { header: String(header.cell.value) }),
+        count: numbers.length,
+        sum,
+        min: numbers.reduce((a, b) => Math.min(a, b)),
+        max: numbers.reduce((a, b) => Math.max(a, b)),
+        mean: sum / numbers.length,
+      });
+      body.forEach(c => dropRefs.add(c.cell.ref));
+    }
+  }
+
+  const removed = current.cells.filter(cell => dropRefs.has(cell.ref)).map(cell => cell.ref);
+
+  return withOmission(
+    { ...current, cells: current.cells.filter(cell => !dropRefs.has(cell.ref)), summaries },
+    'summarizeColumns',
+    removed,
+    'Numeric column cells replaced by the statistics in summaries',
+    summaries.map(summary => summary.range)
+  );
+}
+
+/**
+ * Append an omission record (skipped when nothing was removed).
+ * Ranges default to the removed refs merged into rectangles; strategies that
+ * remove whole regions pass those regions instead.
+ */
+function withOmission(
+  payload: ContextPayload,
+  strategy: TruncationStrategy,
+  refs: string[],
+  note: string,
+  ranges: string[] = refsToRanges(refs)
+): ContextPayload {
+  if (refs.length === 0) {
+    return payload;
+  }
+  const omission: ContextOmission = {
+    strategy,
+    ranges,
+    cellCount: refs.length,
+    note,
+  };
+  return { ...payload, omissions: [...(payload.omissions ?? []), omission] };
+}
+
+function getAreaBounds(payload: ContextPayload) {
+  return (payload.areas ?? [payload.selection]).map(address => parseRangeAddress(address));
+}
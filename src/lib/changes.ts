@@ -0,0 +1,297 @@
+/**
+ * Draftworx Automation Library - Change Sets
+ *
+ * Structured cell edits (e.g., fixes proposed by the AI): parse them, preview
+ * a before/after diff against the workbook, then apply the approved ones.
+ */
+
+import { AutomationResult, CapturedArea, CapturedRange, CellChange, CellDiff, ChangeSet, ChangeSetPreview } from './types';
+import { parseCellRef, splitAreas, splitSheetAddress } from './address';
+import { isFormula } from './formula';
+import { pasteRange } from './range';
+import { runJournaled, snapshotRange } from './journal';
+
+/**
+ * Result of applyChangeSet
+ */
+export interface ApplyChangeSetResult {
+  /** Cells written, sheet-qualified (e.g., "Data!B3") */
+  applied: string[];
+  /** Cells skipped because they already held the proposed contents */
+  unchanged: string[];
+}
+
+/**
+ * Parse a change set from JSON (or an object already parsed).
+ * Accepts `{ sheet?, description?, changes: [...] }`, a bare array of changes,
+ * or a map of ref → value where strings starting with "=" are formulas.
+ * JSON inside a ```json fence (as chat replies often have) is found too.
+ * Pure helper — does not need Excel.run().
+ *
+ * @param input - JSON text or parsed value
+ * @returns ChangeSet
+ * @throws Error listing every problem, one per line
+ *
+ * @example
+ * parseChangeSet('{"B3": "=B2*1.15", "C3": 42}');
+ * // { changes: [{ ref: 'B3', formula: '=B2*1.15' }, { ref: 'C3', value: 42 }] }
+ */
+export function parseChangeSet(input: unknown): ChangeSet {
+  let data = input;
+  if (typeof input === 'string') {
+    const fenced = input.match(/```(?:json)?\s*\n([\s\S]*?)```/);
+    try {
+      data = JSON.parse(fenced ? fenced[1] : input);
+    } catch (error) {
+      throw new Error(`Invalid change set JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const changeSet = toChangeSet(data);
+  const errors = validateChangeSet(changeSet);
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+  return changeSet;
+}
+
+/**
+ * Check a change set's shape: single-cell refs, a value or a formula each
+ * (text starting with "=" must be a formula), no cell changed twice.
+ * Pure helper — does not need Excel.run().
+ *
+ * @returns string[] - One message per problem (empty when valid)
+ */
+export function validateChangeSet(changeSet: ChangeSet): string[] {
+  if (!Array.isArray(changeSet.changes) || changeSet.changes.length === 0) {
+    return ['Change set has no changes'];
+  }
+
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  changeSet.changes.forEach((change, index) => {
+    const label = `Change ${index + 1}${typeof change.ref === 'string' ? ` (${change.ref})` : ''}`;
+    if (typeof change.ref !== 'string' || !isCellRef(change.ref)) {
+      errors.push(`${label}: ref must be a single cell like "B3" or "Sheet1!B3"`);
+      return;
+    }
+    if ((change.formula === undefined) === (change.value === undefined)) {
+      errors.push(`${label}: give either a value or a formula`);
+    } else if (change.formula !== undefined && !isFormula(change.formula)) {
+      errors.push(`${label}: formula must start with "="`);
+    } else if (change.value !== undefined && change.value !== null && !['string', 'number', 'boolean'].includes(typeof change.value)) {
+      errors.push(`${label}: value must be text, a number, true/false or null`);
+    } else if (typeof change.value === 'string' && isFormula(change.value)) {
+      errors.push(`${label}: value starts with "=" — give it as a formula`);
+    }
+
+    const key = changeKey(changeSet, change);
+    if (seen.has(key)) {
+      errors.push(`${label}: cell is changed more than once`);
+    }
+    seen.add(key);
+  });
+  return errors;
+}
+
+/**
+ * Compare a change set with what the target cells hold now.
+ * Must be called within Excel.run().
+ *
+ * @param context - Excel RequestContext
+ * @param changeSet - Parsed change set
+ * @returns Promise<ChangeSetPreview> - Diffs for changes whose sheet exists, errors for the rest and for cells changed twice
+ *
+ * @example
+ * await Excel.run(async (context) => {
+ *   const { diffs } = await previewChangeSet(context, parseChangeSet(reply));
+ *   diffs.forEach(d => console.log(d.ref, d.before.formula ?? d.before.value, '→', d.after.formula ?? d.after.value));
+ * });
+ */
+export async function previewChangeSet(
+  context: Excel.RequestContext,
+  changeSet: ChangeSet
+): Promise<ChangeSetPreview> {
+  const active = context.workbook.worksheets.getActiveWorksheet();
+  active.load('name');
+  await context.sync();
+
+  const targets = changeSet.changes.map(change => {
+    const { sheet, address } = splitSheetAddress(change.ref);
+    return { change, sheetName: sheet ?? changeSet.sheet ?? active.name, ref: address.replace(/\$/g, '').toUpperCase() };
+  });
+
+  // Bare refs only now resolve to the active sheet, so "B3" and "Sheet1!B3" can name the same cell
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  for (const { change, sheetName, ref } of targets) {
+    const key = `${sheetName.toLowerCase()}!${ref}`;
+    if (seen.has(key)) {
+      errors.push(`${change.ref}: cell is changed more than once`);
+    }
+    seen.add(key);
+  }
+
+  const sheets = new Map<string, Excel.Worksheet>();
+  for (const { sheetName } of targets) {
+    if (!sheets.has(sheetName)) {
+      sheets.set(sheetName, context.workbook.worksheets.getItemOrNullObject(sheetName));
+    }
+  }
+  await context.sync();
+
+  const loaded = targets.flatMap(target => {
+    const sheet = sheets.get(target.sheetName)!;
+    if (sheet.isNullObject) {
+      errors.push(`${target.change.ref}: sheet "${target.sheetName}" not found`);
+      return [];
+    }
+    const range = sheet.getRange(target.ref);
+    range.load(['values', 'formulas']);
+    return [{ ...target, range }];
+  });
+  await context.sync();
+
+  const diffs = loaded.map(({ change, sheetName, ref, range }): CellDiff => {
+    const formula = range.formulas[0][0];
+    const before = { value: range.values[0][0], formula: isFormula(formula) ? formula : null };
+    const after = change.formula !== undefined
+      ? { value: null, formula: change.formula }
+      : { value: change.value ?? null, formula: null };
+    const changed = after.formula !== null
+      ? after.formula !== before.formula
+      : before.formula !== null || !sameValue(before.value, after.value);
+
+    return { sheet: sheetName, ref, before, after, changed };
+  });
+
+  return { diffs, errors };
+}
+
+/**
+ * Apply a change set to the workbook.
+ * Every target is checked first — if any sheet is missing nothing is written.
+ * Cells that already hold the proposed contents are skipped. The overwritten
+ * cells are journaled, so undoLastAutomation() restores them.
+ *
+ * This is a complete automation — call it directly, not inside Excel.run().
+ *
+ * @param changeSet - Parsed change set (only include the approved changes)
+ * @returns Promise<AutomationResult<ApplyChangeSetResult>>
+ *
+ * @example
+ * const result = await applyChangeSet(parseChangeSet(reply));
+ * if (result.success) {
+ *   console.log(`Changed ${result.data.applied.length} cells`);
+ * }
+ */
+export async function applyChangeSet(changeSet: ChangeSet): Promise<AutomationResult<ApplyChangeSetResult>> {
+  const problems = validateChangeSet(changeSet);
+  if (problems.length > 0) {
+    return {
+      success: false,
+      error: problems.join('; ')
+    };
+  }
+
+  return runJournaled('applyChangeSet', async (context, entry) => {
+    const { diffs, errors } = await previewChangeSet(context, changeSet);
+    if (errors.length > 0) {
+      return {
+        success: false,
+        error: errors.join('; ')
+      };
+    }
+
+    const changed = diffs.filter(diff => diff.changed);
+    const bySheet = new Map<string, CellDiff[]>();
+    changed.forEach(diff => bySheet.set(diff.sheet, [...(bySheet.get(diff.sheet) ?? []), diff]));
+
+    for (const [sheetName, sheetDiffs] of bySheet) {
+      await snapshotRange(context, entry, sheetName, sheetDiffs.map(diff => diff.ref).join(','));
+
+      // Formulas go in as typed; constants as values, text behind an apostrophe
+      // so "007" or "TRUE" stays text instead of becoming a number or boolean
+      const sheet = context.workbook.worksheets.getItem(sheetName);
+      const formulas = sheetDiffs.filter(diff => diff.after.formula !== null);
+      const values = sheetDiffs.filter(diff => diff.after.formula === null);
+      if (formulas.length > 0) {
+        await pasteRange(context, toCapturedCells(sheetName, formulas), sheet, undefined, { mode: 'asTyped', formatting: false });
+      }
+      if (values.length > 0) {
+        await pasteRange(context, toCapturedCells(sheetName, values), sheet, undefined, { mode: 'valuesOnly', formatting: false });
+      }
+    }
+
+    const qualify = (diff: CellDiff) => `${diff.sheet}!${diff.ref}`;
+    return {
+      success: true,
+      data: {
+        applied: changed.map(qualify),
+        unchanged: diffs.filter(diff => !diff.changed).map(qualify)
+      }
+    };
+  });
+}
+
+/**
+ * Normalize the accepted input shapes into a ChangeSet.
+ */
+function toChangeSet(data: unknown): ChangeSet {
+  if (Array.isArray(data)) {
+    return { changes: data };
+  }
+  if (typeof data !== 'object' || data === null) {
+    throw new Error('Change set must be an object or an array of changes');
+  }
+
+  const record = data as Record<string, unknown>;
+  if ('changes' in record) {
+    return record as unknown as ChangeSet;
+  }
+
+  // { "B3": "=B2*1.15", "C3": 42 }
+  return {
+    changes: Object.entries(record).map(([ref, content]) =>
+      isFormula(content) ? { ref, formula: content } : { ref, value: content as CellChange['value'] }
+    ),
+  };
+}
+
+/**
+ * One-cell areas, as a capture pasteRange can write back in place.
+ */
+function toCapturedCells(sheetName: string, diffs: CellDiff[]): CapturedRange {
+  const areas: CapturedArea[] = diffs.map(diff => ({
+    address: diff.ref,
+    values: [[typeof diff.after.value === 'string' && diff.after.value !== '' ? `'${diff.after.value}` : diff.after.value ?? '']],
+    formulas: [[diff.after.formula ?? '']],
+    rowCount: 1,
+    columnCount: 1,
+  }));
+  return { ...areas[0], address: diffs.map(diff => diff.ref).join(','), sourceSheet: sheetName, areas };
+}
+
+function isCellRef(ref: string): boolean {
+  const { address } = splitSheetAddress(ref);
+  if (splitAreas(address).length !== 1) {
+    return false;
+  }
+  try {
+    parseCellRef(address);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Identity of a change's target cell, for duplicate checks */
+function changeKey(changeSet: ChangeSet, change: CellChange): string {
+  const { sheet, address } = splitSheetAddress(change.ref);
+  return `${(sheet ?? changeSet.sheet ?? '').toLowerCase()}!${address.replace(/\$/g, '').toUpperCase()}`;
+}
+
+/** Excel reports an empty cell as "" */
+function sameValue(before: CellDiff['before']['value'], after: CellDiff['after']['value']): boolean {
+  return (before ?? '') === (after ?? '');
+}
@@ -0,0 +1,267 @@
+/**
+ * Draftworx Automation Library - AI Chat
+ *
+ * Sends the current context payload and a question to a chat provider,
+ * streams the reply and keeps conversation history per workbook.
+ * Nothing here needs Excel.run().
+ */
+
+import { AutomationResult, ChatMessage, ChatProvider, ChatRequest, ContextPayload } from './types';
+
+/** Key prefix for stored conversations (followed by the workbook key) */
+const HISTORY_PREFIX = 'draftworx.chat.';
+
+/** Earlier turns sent along with a question, by default */
+const DEFAULT_MAX_HISTORY = 20;
+
+/**
+ * Options for the HTTP chat provider
+ */
+export interface HttpChatProviderOptions {
+  /** URL requests are POSTed to (e.g., your proxy) */
+  endpoint: string;
+  /** Extra request headers (e.g., authorization for the proxy) */
+  headers?: Record<string, string>;
+  /** Model name passed through to the endpoint */
+  model?: string;
+  /** Name shown in the UI (default: the endpoint) */
+  name?: string;
+}
+
+/**
+ * Options for sending a chat message
+ */
+export interface SendChatOptions {
+  /** Called with each piece of the reply as it streams */
+  onDelta?: (text: string) => void;
+  /** Aborts the request */
+  signal?: AbortSignal;
+  /** Earlier turns sent with the question (default: 20) */
+  maxHistory?: number;
+}
+
+/** Storage the chat history is kept in (localStorage in the task pane) */
+export type ChatHistoryStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+/**
+ * Create a provider that POSTs `{ model, messages, context }` as JSON to an
+ * endpoint. The reply may stream as server-sent events (`data:` lines holding
+ * `{"text": "..."}` or plain text, ending with `[DONE]`) or as a plain text body.
+ *
+ * @param options - Endpoint, headers and model
+ * @returns ChatProvider
+ *
+ * @example
+ * const provider = createHttpChatProvider({ endpoint: 'https://proxy.example.com/chat' });
+ * const reply = await provider.send({ messages: [{ role: 'user', content: 'Hi' }] }, text => console.log(text));
+ */
+export function createHttpChatProvider(options: HttpChatProviderOptions): ChatProvider {
+  return {
+    name: options.name ?? options.endpoint,
+    async send(request: ChatRequest, onDelta: (text: string) => void, signal?: AbortSignal): Promise<string> {
+      const response = await fetch(options.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'text/event-stream, text/plain',
+          ...options.headers,
+        },
+        body: JSON.stringify({ model: options.model, ...request }),
+        signal,
+      });
+
+      if (!response.ok) {
+        const detail = (await response.text()).trim();
+        throw new Error(`Chat provider returned ${response.status}${detail ? `: ${detail}` : ''}`);
+      }
+
+      const eventStream = (response.headers.get('Content-Type') ?? '').includes('text/event-stream');
+      return readStream(response, eventStream ? parseEvents() : text => [text], onDelta);
+    },
+  };
+}
+
+/**
+ * Ask a question about the current context.
+ * The question and the earlier turns (up to maxHistory) go to the provider
+ * with the context payload; the reply streams through onDelta.
+ *
+ * @param provider - Where the question goes
+ * @param history - Conversation so far
+ * @param question - The user's question
+ * @param context - Context payload for the current selection
+ * @param options - Streaming callback, abort signal, history limit
+ * @returns Promise<AutomationResult<ChatMessage[]>> - The history with the question and reply added
+ *
+ * @example
+ * const result = await sendChatMessage(provider, history, 'What does C2 calculate?', payload, {
+ *   onDelta: text => (output.textContent += text),
+ * });
+ * if (result.success) {
+ *   history = result.data!;
+ * }
+ */
+export async function sendChatMessage(
+  provider: ChatProvider,
+  history: ChatMessage[],
+  question: string,
+  context?: ContextPayload,
+  options: SendChatOptions = {}
+): Promise<AutomationResult<ChatMessage[]>> {
+  const asked: ChatMessage = {
+    role: 'user',
+    content: question,
+    timestamp: new Date().toISOString(),
+    ...(context && { selection: `${context.sheet}!${context.selection}` }),
+  };
+  const maxHistory = options.maxHistory ?? DEFAULT_MAX_HISTORY;
+  const earlier = maxHistory > 0 ? history.slice(-maxHistory) : [];
+
+  try {
+    const content = await provider.send(
+      {
+        messages: [...earlier, asked].map(({ role, content }) => ({ role, content })),
+        context,
+      },
+      options.onDelta ?? (() => undefined),
+      options.signal
+    );
+
+    return {
+      success: true,
+      data: [...history, asked, { role: 'assistant', content, timestamp: new Date().toISOString() }],
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Key identifying the open workbook, for keeping one conversation per workbook.
+ * Uses the document URL; unsaved workbooks share the key "untitled".
+ */
+export function getWorkbookKey(): string {
+  const url = typeof Office !== 'undefined' ? Office.context?.document?.url : undefined;
+  return url || 'untitled';
+}
+
+/**
+ * The stored conversation for a workbook (empty when there is none).
+ */
+export function loadChatHistory(storage: ChatHistoryStorage, workbookKey: string): ChatMessage[] {
+  try {
+    const stored = JSON.parse(storage.getItem(HISTORY_PREFIX + workbookKey) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Store a workbook's conversation, replacing what was there.
+ */
+export function saveChatHistory(storage: ChatHistoryStorage, workbookKey: string, history: ChatMessage[]): void {
+  storage.setItem(HISTORY_PREFIX + workbookKey, JSON.stringify(history));
+}
+
+/**
+ * Forget a workbook's conversation.
+ */
+export function clearChatHistory(storage: ChatHistoryStorage, workbookKey: string): void {
+  storage.removeItem(HISTORY_PREFIX + workbookKey);
+}
+
+/**
+ * Read a streamed body, passing each decoded chunk through a parser that
+ * returns the reply text it contains. The last chunk is marked `done`, so
+ * the parser can flush anything it held back.
+ */
+async function readStream(
+  response: Response,
+  parse: (chunk: string, done: boolean) => string[],
+  onDelta: (text: string) => void
+): Promise<string> {
+  const decoder = new TextDecoder();
+  let reply = '';
+
+  const emit = (chunk: string, done = false) => {
+    for (const text of parse(chunk, done)) {
+      reply += text;
+      onDelta(text);
+    }
+  };
+
+  if (response.body) {
+    const reader = response.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      emit(decoder.decode(value, { stream: true }));
+    }
+    emit(decoder.decode(), true);
+  } else {
+    emit(await response.text(), true);
+  }
+
+  return reply;
+}
+
+/**
+ * Parser for server-sent events. Chunks can split an event anywhere, so
+ * partial lines are held until their newline arrives, or the stream ends.
+ */
+function parseEvents(): (chunk: string, done: boolean) => string[] {
+  let pending = '';
+  return (chunk, done) => {
+    pending += chunk;
+    const lines = pending.split(/\r?\n/);
+    pending = done ? '' : lines.pop() ?? '';
+
+    const texts: string[] = [];
+    for (const line of lines) {
+      if (!line.startsWith('data:')) {
+        continue;
+      }
+      const data = line.slice(5).replace(/^ /, '');
+      if (data === '[DONE]') {
+        continue;
+      }
+      let event: unknown;
+      try {
+        event = JSON.parse(data);
+      } catch {
+        texts.push(data);
+        continue;
+      }
+      const text = eventText(event);
+      if (text) {
+        texts.push(text);
+      }
+    }
+    return texts;
+  };
+}
+
+/**
+ * The reply text in a parsed event: a JSON string, a number or true/false
+ * as written, or an object's `text` field. Other events (null, arrays,
+ * objects without text such as pings) carry none.
+ */
+function eventText(event: unknown): string {
+  if (typeof event === 'string') {
+    return event;
+  }
+  if (typeof event === 'number' || typeof event === 'boolean') {
+    return String(event);
+  }
+  if (event !== null && typeof event === 'object' && !Array.isArray(event)) {
+    const { text } = event as { text?: unknown };
+    return typeof text === 'string' ? text : '';
+  }
+  return '';
+}
@@ -0,0 +1,252 @@
+/**
+ * Draftworx Automation Library - Context Payloads
+ *
+ * Turns captured ranges into the payload we hand to the AI.
+ * Pure functions — capture inside Excel.run(), build anywhere.
+ */
+
+import { CapturedCell, CapturedRange, CellData, ContextOptions, ContextPayload, FormulaRegion } from './types';
+import { getCapturedCells } from './range';
+import { isErrorValue, isFormula, toR1C1 } from './formula';
+import { boundsContain, parseCellRef, parseRangeAddress, toRangeAddress } from './address';
+
+/**
+ * Build a context payload from a captured range.
+ *
+ * @param captured - Previously captured range data
+ * @param options - What to include
+ * @returns ContextPayload
+ *
+ * @example
+ * await Excel.run(async (context) => {
+ *   const captured = await captureSelection(context, { display: true });
+ *   const payload = buildContextPayload(captured, { includeFormulas: false });
+ *   const withRecords = buildContextPayload(captured, { table: await detectTable(context, captured) });
+ * });
+ */
+export function buildContextPayload(
+  captured: CapturedRange,
+  options: ContextOptions = {}
+): ContextPayload {
+  const includeFormulas = options.includeFormulas ?? true;
+  const groupFormulas = includeFormulas && (options.formulaRegions ?? true);
+  const includeDisplay = options.display ?? true;
+
+  // Cells covered by a detected table are emitted as its records instead
+  const tableBounds = options.table ? parseRangeAddress(options.table.address) : null;
+  const table = options.table && !includeFormulas
+    ? { ...options.table, formulas: undefined }
+    : options.table;
+
+  // Only include formula if it's an actual formula (not a constant)
+  const captureCells: CellData[] = getCapturedCells(captured)
+    .filter(cell => !tableBounds || !boundsContain(tableBounds, cell.row, cell.column))
+    .map(cell => ({
+      ref: cell.ref,
+      value: cell.value,
+      formula: includeFormulas && isFormula(cell.formula) ? cell.formula : null,
+      ...(includeDisplay && getDisplay(cell)),
+      ...getValueType(cell),
+    }));
+  const { cells, regions } = groupFormulas
+    ? groupFormulaRegions(captureCells)
+    : { cells: captureCells, regions: [] };
+
+  return {
+    selection: captured.address,
+    sheet: captured.sourceSheet,
+    timestamp: new Date().toISOString(),
+    cells,
+    ...(captured.areas.length > 1 && { areas: captured.areas.map(area => area.address) }),
+    ...(table && { table }),
+    ...(regions.length > 0 && { formulaRegions: regions }),
+  };
+}
+
+/**
+ * Group contiguous cells whose formulas share an R1C1 pattern (a fill-down
+ * or fill-right) into formula regions, and flag the cells that break them.
+ * Columns are grouped first, then side-by-side columns with the same
+ * pattern and rows are merged, then whatever is left is grouped along rows.
+ * A single cell between two matching cells — a different formula or a
+ * typed-in value — doesn't end the region; it is listed as `inconsistent`
+ * and keeps its own formula. Region cells keep their values but their
+ * formula is set to null.
+ * Pure helper — does not need Excel.run().
+ *
+ * @param cells - Payload cells (A1 formulas, null for constants)
+ * @returns The cells with grouped formulas removed, and the regions (top to bottom)
+ *
+ * @example
+ * // D2:D501 all =B2*C2 filled down, except D250 typed over with 1234
+ * const { regions } = groupFormulaRegions(payload.cells);
+ * // [{ range: 'D2:D501', formula: '=RC[-2]*RC[-1]', inconsistent: ['D250'] }]
+ */
+export function groupFormulaRegions(cells: CellData[]): { cells: CellData[]; regions: FormulaRegion[] } {
+  const grid = new Map<string, PatternCell>();
+  for (const cell of cells) {
+    const { row, column } = parseCellRef(cell.ref);
+    const pattern = cell.formula ? toR1C1(cell.formula, row, column) : null;
+    grid.set(`${row}:${column}`, { cell, row, column, pattern });
+  }
+
+  const taken = new Set<PatternCell>();
+  const formulaCells = [...grid.values()].filter(c => c.pattern !== null);
+  const byColumn = [...formulaCells].sort((a, b) => a.column - b.column || a.row - b.row);
+  const byRow = [...formulaCells].sort((a, b) => a.row - b.row || a.column - b.column);
+
+  const columnRuns = mergeSideBySide(collectRuns(byColumn, grid, taken, 'down'));
+  const rowRuns = collectRuns(byRow, grid, taken, 'right');
+
+  const runs = [...columnRuns, ...rowRuns]
+    .sort((a, b) => a.startRow - b.startRow || a.startColumn - b.startColumn);
+  const grouped = new Set(runs.flatMap(run => run.members.map(member => member.cell)));
+
+  return {
+    cells: cells.map(cell => grouped.has(cell) ? { ...cell, formula: null } : cell),
+    regions: runs.map(run => ({
+      range: toRangeAddress(run),
+      formula: run.pattern,
+      ...(run.exceptions.length > 0 && { inconsistent: run.exceptions.map(c => c.cell.ref) }),
+    })),
+  };
+}
+
+/**
+ * Displayed text and number format, when the text shows something the raw
+ * value doesn't (a date serial, a percentage, brackets for negatives).
+ * "####" (column too narrow to display the value) is not worth sending.
+ */
+function getDisplay(cell: CapturedCell): Pick<CellData, 'text' | 'numberFormat'> | null {
+  if (cell.text === undefined || cell.text === String(cell.value) || /^#+$/.test(cell.text)) {
+    return null;
+  }
+  if (typeof cell.value === 'boolean' && cell.text === String(cell.value).toUpperCase()) {
+    return null;
+  }
+  return {
+    text: cell.text,
+    ...(cell.numberFormat && cell.numberFormat !== 'General' && { numberFormat: cell.numberFormat }),
+  };
+}
+
+/**
+ * Value type of error cells, or of every filled cell when value types were captured.
+ */
+function getValueType(cell: CapturedCell): Pick<CellData, 'valueType'> | null {
+  if (cell.valueType !== undefined) {
+    return cell.valueType === 'Empty' ? null : { valueType: cell.valueType };
+  }
+  return isErrorValue(cell.value) ? { valueType: 'Error' } : null;
+}
+
+/**
+ * A payload cell with its position and R1C1 pattern (null for constants)
+ */
+interface PatternCell {
+  cell: CellData;
+  row: number;
+  column: number;
+  pattern: string | null;
+}
+
+/**
+ * Cells sharing one pattern, as a rectangle
+ */
+interface PatternRun {
+  pattern: string;
+  startRow: number;
+  startColumn: number;
+  endRow: number;
+  endColumn: number;
+  members: PatternCell[];
+  exceptions: PatternCell[];
+}
+
+/**
+ * Walk each untaken formula cell down (or right) while the pattern holds.
+ * Runs need at least two matching cells; their cells (and exceptions) are taken.
+ */
+function collectRuns(
+  ordered: PatternCell[],
+  grid: Map<string, PatternCell>,
+  taken: Set<PatternCell>,
+  direction: 'down' | 'right'
+): PatternRun[] {
+  const at = (start: PatternCell, step: number) => grid.get(direction === 'down'
+    ? `${start.row + step}:${start.column}`
+    : `${start.row}:${start.column + step}`);
+  const runs: PatternRun[] = [];
+
+  for (const start of ordered) {
+    if (taken.has(start)) {
+      continue;
+    }
+    const members = [start];
+    const exceptions: PatternCell[] = [];
+    let last = start;
+
+    for (let step = 1; ; step++) {
+      const next = at(start, step);
+      if (!next || taken.has(next)) {
+        break;
+      }
+      if (next.pattern === start.pattern) {
+        members.push(next);
+        last = next;
+        continue;
+      }
+      const after = at(start, step + 1);
+      if (isFilled(next) && after?.pattern === start.pattern && !taken.has(after)) {
+        exceptions.push(next);
+        continue;
+      }
+      break;
+    }
+
+    if (members.length < 2) {
+      continue;
+    }
+    [...members, ...exceptions].forEach(c => taken.add(c));
+    runs.push({
+      pattern: start.pattern!,
+      startRow: start.row,
+      startColumn: start.column,
+      endRow: last.row,
+      endColumn: last.column,
+      members,
+      exceptions,
+    });
+  }
+
+  return runs;
+}
+
+/**
+ * Merge column runs into rectangles when the next column repeats the same
+ * pattern over the same rows (and neither has exceptions).
+ */
+function mergeSideBySide(runs: PatternRun[]): PatternRun[] {
+  const merged: PatternRun[] = [];
+  for (const run of runs) {
+    const left = merged.find(m =>
+      m.pattern === run.pattern
+      && m.endColumn === run.startColumn - 1
+      && m.startRow === run.startRow
+      && m.endRow === run.endRow
+      && m.exceptions.length === 0
+      && run.exceptions.length === 0
+    );
+    if (left) {
+      left.endColumn = run.endColumn;
+      left.members.push(...run.members);
+    } else {
+      merged.push(run);
+    }
+  }
+  return merged;
+}
+
+function isFilled(c: PatternCell): boolean {
+  return c.pattern !== null || (c.cell.value !== null && c.cell.value !== '');
+}
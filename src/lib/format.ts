@@ -0,0 +1,233 @@
+/**
+ * Draftworx Automation Library - Formatting
+ *
+ * Functions for capturing and re-applying what makes a range look like the
+ * original: number formats, styles, merges, sizes, comments and validation.
+ * All functions are designed to be called within an Excel.run() context.
+ */
+
+import { CapturedArea, CapturedComment, CapturedFormatting, CapturedRange, FormattingParts } from './types';
+import { boundsContain, offsetAddress, parseCellRef, parseRangeAddress, splitAreas, stripSheetName } from './address';
+
+/** Cell properties captured for styles */
+const STYLE_PROPERTIES: Excel.CellPropertiesLoadOptions = {
+  format: {
+    font: { bold: true, italic: true, underline: true, strikethrough: true, color: true, name: true, size: true },
+    fill: { color: true, pattern: true },
+    borders: { style: true, color: true, weight: true },
+    horizontalAlignment: true,
+    verticalAlignment: true,
+    wrapText: true,
+    indentLevel: true,
+  },
+};
+
+/** Validation types that can't be re-applied as a single rule */
+const SKIPPED_VALIDATION: string[] = ['None', 'Inconsistent', 'MixedCriteria'];
+
+/**
+ * Capture formatting and metadata for every area of a captured range.
+ * Must be called within Excel.run().
+ *
+ * @param context - Excel RequestContext
+ * @param captured - Previously captured range data
+ * @param parts - Which parts to capture, or `true` for everything (default)
+ * @returns Promise<CapturedRange> - A copy with `formatting` set on each area
+ *
+ * @example
+ * await Excel.run(async (context) => {
+ *   const captured = await captureFormatting(context, await captureSelection(context));
+ *   console.log(captured.areas[0].formatting?.numberFormats);
+ * });
+ */
+export async function captureFormatting(
+  context: Excel.RequestContext,
+  captured: CapturedRange,
+  parts: boolean | FormattingParts = true
+): Promise<CapturedRange> {
+  const include = resolveFormattingParts(parts);
+  if (!include) {
+    return captured;
+  }
+
+  const sheet = context.workbook.worksheets.getItem(captured.sourceSheet);
+  const loaded = captured.areas.map(area => {
+    const range = sheet.getRange(area.address);
+    const merges = include.merges ? range.getMergedAreasOrNullObject() : null;
+
+    merges?.load('address');
+    if (include.numberFormats) {
+      range.load('numberFormat');
+    }
+    if (include.validation) {
+      range.dataValidation.load(['type', 'rule', 'ignoreBlanks', 'prompt', 'errorAlert']);
+    }
+
+    return {
+      range,
+      merges,
+      styles: include.styles ? range.getCellProperties(STYLE_PROPERTIES) : null,
+      columns: include.dimensions ? range.getColumnProperties({ format: { columnWidth: true } }) : null,
+      rows: include.dimensions ? range.getRowProperties({ format: { rowHeight: true } }) : null,
+    };
+  });
+
+  await context.sync();
+
+  const comments = include.comments ? await loadComments(context, sheet) : [];
+
+  const areas: CapturedArea[] = captured.areas.map((area, index) => {
+    const { range, merges, styles, columns, rows } = loaded[index];
+    const formatting: CapturedFormatting = {};
+
+    if (include.numberFormats) {
+      formatting.numberFormats = range.numberFormat;
+    }
+    if (styles) {
+      // Keep only the settable part so the grid can go straight back into setCellProperties
+      formatting.styles = styles.value.map(row => row.map(cell => ({ format: cell.format })));
+    }
+    if (merges) {
+      formatting.merges = merges.isNullObject ? [] : splitAreas(merges.address).map(stripSheetName);
+    }
+    if (columns && rows) {
+      formatting.columnWidths = columns.value.map(column => column.format!.columnWidth!);
+      formatting.rowHeights = rows.value.map(row => row.format!.rowHeight!);
+    }
+    if (include.comments) {
+      const bounds = parseRangeAddress(area.address);
+      formatting.comments = comments.filter(comment => {
+        const { row, column } = parseCellRef(comment.ref);
+        return boundsContain(bounds, row, column);
+      });
+    }
+    if (include.validation && !SKIPPED_VALIDATION.includes(range.dataValidation.type)) {
+      formatting.validation = {
+        rule: range.dataValidation.rule,
+        ignoreBlanks: range.dataValidation.ignoreBlanks,
+        prompt: range.dataValidation.prompt,
+        errorAlert: range.dataValidation.errorAlert,
+      };
+    }
+
+    return { ...area, formatting };
+  });
+
+  return { ...captured, formatting: areas[0].formatting, areas };
+}
+
+/**
+ * Queue the captured formatting of one area onto a target sheet.
+ * Commands are queued only — the caller syncs (pasteRange does this for you).
+ * Comments and notes are added, so paste them onto cells without any.
+ *
+ * @param targetSheet - Worksheet to format
+ * @param area - Captured area with `formatting`
+ * @param rowOffset - Rows between the captured and target positions
+ * @param columnOffset - Columns between the captured and target positions
+ * @param parts - Which parts to apply, or `true` for everything captured (default)
+ */
+export function applyFormatting(
+  targetSheet: Excel.Worksheet,
+  area: CapturedArea,
+  rowOffset: number,
+  columnOffset: number,
+  parts: boolean | FormattingParts = true
+): void {
+  const include = resolveFormattingParts(parts);
+  const formatting = area.formatting;
+  if (!include || !formatting) {
+    return;
+  }
+
+  const shift = (address: string) => offsetAddress(address, rowOffset, columnOffset);
+  const target = targetSheet.getRange(shift(area.address));
+
+  if (include.dimensions) {
+    if (formatting.columnWidths) {
+      target.setColumnProperties(formatting.columnWidths.map(columnWidth => ({ format: { columnWidth } })));
+    }
+    if (formatting.rowHeights) {
+      target.setRowProperties(formatting.rowHeights.map(rowHeight => ({ format: { rowHeight } })));
+    }
+  }
+  if (include.styles && formatting.styles) {
+    target.setCellProperties(formatting.styles);
+  }
+  if (include.numberFormats && formatting.numberFormats) {
+    target.numberFormat = formatting.numberFormats;
+  }
+  if (include.merges && formatting.merges) {
+    formatting.merges.forEach(merge => targetSheet.getRange(shift(merge)).merge(false));
+  }
+  if (include.validation && formatting.validation) {
+    const { rule, ignoreBlanks, prompt, errorAlert } = formatting.validation;
+    target.dataValidation.clear();
+    target.dataValidation.rule = rule;
+    target.dataValidation.ignoreBlanks = ignoreBlanks;
+    target.dataValidation.prompt = prompt;
+    target.dataValidation.errorAlert = errorAlert;
+  }
+  if (include.comments && formatting.comments) {
+    for (const comment of formatting.comments) {
+      const cell = targetSheet.getRange(shift(comment.ref));
+      if (comment.kind === 'note') {
+        targetSheet.notes.add(cell, comment.content);
+      } else {
+        targetSheet.comments.add(cell, comment.content);
+      }
+    }
+  }
+}
+
+/**
+ * Expand a formatting option into the full set of parts, or null for none.
+ * A parts object includes only the parts set to true.
+ */
+export function resolveFormattingParts(
+  option: boolean | FormattingParts | undefined
+): Required<FormattingParts> | null {
+  if (!option) {
+    return null;
+  }
+  const all = option === true;
+  const chosen: FormattingParts = all ? {} : option;
+  return {
+    numberFormats: all || !!chosen.numberFormats,
+    styles: all || !!chosen.styles,
+    merges: all || !!chosen.merges,
+    dimensions: all || !!chosen.dimensions,
+    comments: all || !!chosen.comments,
+    validation: all || !!chosen.validation,
+  };
+}
+
+/**
+ * Load every comment and note on a sheet with the cell it is attached to.
+ * Notes need ExcelApi 1.18 and are skipped on older hosts.
+ */
+async function loadComments(context: Excel.RequestContext, sheet: Excel.Worksheet): Promise<CapturedComment[]> {
+  const threaded = sheet.comments;
+  const notes = supportsNotes() ? sheet.notes : null;
+
+  threaded.load('items/content');
+  notes?.load('items/content');
+  await context.sync();
+
+  const located = [
+    ...threaded.items.map(item => ({ kind: 'comment' as const, content: item.content, location: item.getLocation() })),
+    ...(notes?.items ?? []).map(item => ({ kind: 'note' as const, content: item.content, location: item.getLocation() })),
+  ];
+  located.forEach(entry => entry.location.load('address'));
+  await context.sync();
+
+  return located.map(entry => ({
+    ref: stripSheetName(entry.location.address),
+    content: entry.content,
+    kind: entry.kind,
+  }));
+}
+
+function supportsNotes(): boolean {
+  return typeof Office !== 'undefined' && Office.context?.requirements?.isSetSupported('ExcelApi', '1.18') === true;
+}
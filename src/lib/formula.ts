@@ -0,0 +1,319 @@
+/**
+ * Draftworx Automation Library - Formula Utilities
+ *
+ * Pure helpers for reading A1-style formulas.
+ * None of these touch Excel, so they can be used anywhere.
+ */
+
+import { FormulaReference } from './types';
+import { columnToNumber } from './address';
+
+/**
+ * Matches a cell, range, whole-column or whole-row reference at the start of the input.
+ * The trailing lookahead rejects function names (LOG10() and longer identifiers.
+ */
+const REFERENCE_PATTERN =
+  /^(\$?[A-Za-z]{1,3}\$?\d+(?::\$?[A-Za-z]{1,3}\$?\d+)?|\$?[A-Za-z]{1,3}:\$?[A-Za-z]{1,3}|\$?\d+:\$?\d+)(?![\w.(!])/;
+
+/** Matches an unquoted sheet prefix (e.g., "Sheet1!") */
+const SHEET_PREFIX_PATTERN = /^([A-Za-z_][\w.]*)!/;
+
+/** Matches a defined-name identifier */
+const NAME_PATTERN = /^[A-Za-z_\\][\w.]*/;
+
+/** Characters that may appear inside an identifier — a reference can't start after one */
+const IDENTIFIER_CHAR = /[\w.$]/;
+
+/**
+ * A reference located inside a formula string
+ */
+interface ReferenceToken extends FormulaReference {
+  /** Index where the address part starts (after any sheet prefix) */
+  start: number;
+  /** Index just past the address part */
+  end: number;
+}
+
+/**
+ * Extract every cell/range reference used by an A1-style formula.
+ * String literals are skipped; sheet prefixes (quoted or not) are preserved.
+ *
+ * @param formula - Formula text (e.g., "=SUM(B2:B10)*'Rates 2024'!C4")
+ * @returns References in order of appearance (duplicates included)
+ *
+ * @example
+ * extractReferences("=A1+Data!B2:B5")
+ * // [{ address: 'A1' }, { sheet: 'Data', address: 'B2:B5' }]
+ */
+export function extractReferences(formula: string): FormulaReference[] {
+  return scanReferences(formula).map(({ sheet, address }) =>
+    sheet !== undefined ? { sheet, address } : { address }
+  );
+}
+
+/** Error values a cell can hold */
+const ERROR_VALUES = new Set([
+  '#NULL!', '#DIV/0!', '#VALUE!', '#REF!', '#NAME?', '#NUM!', '#N/A', '#GETTING_DATA',
+  '#SPILL!', '#CALC!', '#FIELD!', '#BLOCKED!', '#CONNECT!', '#BUSY!', '#UNKNOWN!', '#PYTHON!',
+]);
+
+/**
+ * Check if a cell value is an Excel error (e.g., "#REF!", "#N/A").
+ *
+ * @example
+ * isErrorValue('#DIV/0!') // true
+ * isErrorValue('#1 seller') // false
+ */
+export function isErrorValue(value: unknown): boolean {
+  return typeof value === 'string' && ERROR_VALUES.has(value);
+}
+
+/**
+ * Convert an A1-style formula to R1C1 notation relative to the cell it lives in.
+ * Formulas that only differ by a fill-down/fill-right produce identical R1C1 text.
+ *
+ * @param formula - A1 formula (e.g., "=B2*C2")
+ * @param row - 1-based row of the formula cell
+ * @param column - 1-based column of the formula cell
+ * @returns R1C1 formula (e.g., "=RC[-2]*RC[-1]")
+ *
+ * @example
+ * toR1C1('=B2*$C$1', 2, 4) // "=RC[-2]*R1C3"
+ */
+export function toR1C1(formula: string, row: number, column: number): string {
+  let result = '';
+  let last = 0;
+
+  for (const token of scanReferences(formula)) {
+    result += formula.slice(last, token.start) + addressToR1C1(token.address, row, column);
+    last = token.end;
+  }
+
+  return result + formula.slice(last);
+}
+
+/**
+ * Convert one A1 address (cell, range, whole column/row) to R1C1.
+ */
+function addressToR1C1(address: string, row: number, column: number): string {
+  return address.split(':').map(part => {
+    const cell = part.match(/^(\$?)([A-Za-z]+)?(\$?)(\d+)?$/);
+    if (!cell) {
+      return part;
+    }
+    const [, colAbs, colLetters, rowAbs, rowDigits] = cell;
+    // In a whole-row reference ("$3") the leading $ belongs to the row
+    const rowIsAbsolute = colLetters === undefined ? Boolean(colAbs || rowAbs) : Boolean(rowAbs);
+    let out = '';
+    if (rowDigits !== undefined) {
+      out += rowIsAbsolute ? `R${rowDigits}` : relative('R', parseInt(rowDigits, 10) - row);
+    }
+    if (colLetters !== undefined) {
+      out += colAbs ? `C${columnToNumber(colLetters)}` : relative('C', columnToNumber(colLetters) - column);
+    }
+    return out;
+  }).join(':');
+}
+
+function relative(axis: 'R' | 'C', offset: number): string {
+  return offset === 0 ? axis : `${axis}[${offset}]`;
+}
+
+/**
+ * Extract the defined names a formula uses (e.g., "Revenue" in "=Revenue-COGS").
+ * Functions, cell references, booleans and structured-reference table names
+ * are excluded. LET/LAMBDA variables look like names too — callers should
+ * match results against the workbook's actual names.
+ *
+ * @param formula - A1 formula
+ * @returns Unique names in order of appearance, with the sheet if qualified
+ *
+ * @example
+ * extractNames("=Revenue-Data!COGS+SUM(A1:A3)")
+ * // [{ name: 'Revenue' }, { sheet: 'Data', name: 'COGS' }]
+ */
+export function extractNames(formula: string): { sheet?: string; name: string }[] {
+  const names: { sheet?: string; name: string }[] = [];
+  const seen = new Set<string>();
+  if (!formula.startsWith('=')) {
+    return names;
+  }
+
+  let i = 1;
+  while (i < formula.length) {
+    const ch = formula[i];
+
+    // Skip string literals and structured-reference brackets (Table1[Column])
+    if (ch === '"') {
+      i = skipString(formula, i);
+      continue;
+    }
+    if (ch === '[') {
+      i = skipBrackets(formula, i);
+      continue;
+    }
+
+    if (i > 1 && IDENTIFIER_CHAR.test(formula[i - 1])) {
+      i++;
+      continue;
+    }
+
+    let sheet: string | undefined;
+    let cursor = i;
+
+    if (ch === "'") {
+      const end = formula.indexOf("'!", i + 1);
+      if (end === -1) {
+        i++;
+        continue;
+      }
+      sheet = formula.slice(i + 1, end).replace(/''/g, "'");
+      cursor = end + 2;
+    } else {
+      const prefix = formula.slice(i).match(SHEET_PREFIX_PATTERN);
+      if (prefix) {
+        sheet = prefix[1];
+        cursor = i + prefix[0].length;
+      }
+    }
+
+    const rest = formula.slice(cursor);
+    const reference = rest.match(REFERENCE_PATTERN);
+    if (reference) {
+      i = cursor + reference[0].length;
+      continue;
+    }
+
+    const identifier = rest.match(NAME_PATTERN);
+    if (!identifier) {
+      i = sheet !== undefined ? cursor : i + 1;
+      continue;
+    }
+
+    const name = identifier[0];
+    const next = formula[cursor + name.length];
+    const isName = next !== '(' && next !== '[' && !/^(TRUE|FALSE)$/i.test(name);
+    const key = `${sheet ?? ''}!${name}`.toLowerCase();
+    if (isName && !seen.has(key)) {
+      seen.add(key);
+      names.push(sheet !== undefined ? { sheet, name } : { name });
+    }
+    i = cursor + name.length;
+  }
+
+  return names;
+}
+
+/**
+ * Index just past the string literal starting at `start` ("" is an escaped quote).
+ */
+function skipString(formula: string, start: number): number {
+  let i = start + 1;
+  while (i < formula.length) {
+    if (formula[i] === '"' && formula[i + 1] === '"') {
+      i += 2;
+    } else if (formula[i] === '"') {
+      break;
+    } else {
+      i++;
+    }
+  }
+  return i + 1;
+}
+
+/**
+ * Index just past the bracketed section starting at `start` (brackets nest).
+ */
+function skipBrackets(formula: string, start: number): number {
+  let depth = 0;
+  let i = start;
+  while (i < formula.length) {
+    if (formula[i] === '[') {
+      depth++;
+    } else if (formula[i] === ']' && --depth === 0) {
+      break;
+    }
+    i++;
+  }
+  return i + 1;
+}
+
+/**
+ * Locate every reference in a formula, with positions.
+ */
+function scanReferences(formula: string): ReferenceToken[] {
+  const refs: ReferenceToken[] = [];
+  if (!formula.startsWith('=')) {
+    return refs;
+  }
+
+  let i = 1;
+  while (i < formula.length) {
+    const ch = formula[i];
+
+    // Skip string literals and structured-reference brackets
+    if (ch === '"') {
+      i = skipString(formula, i);
+      continue;
+    }
+    if (ch === '[') {
+      i = skipBrackets(formula, i);
+      continue;
+    }
+
+    // Only start a reference at a token boundary
+    if (i > 1 && IDENTIFIER_CHAR.test(formula[i - 1])) {
+      i++;
+      continue;
+    }
+
+    let sheet: string | undefined;
+    let cursor = i;
+
+    if (ch === "'") {
+      // Quoted sheet name ('' is an escaped quote)
+      let j = i + 1;
+      let name = '';
+      while (j < formula.length) {
+        if (formula[j] === "'" && formula[j + 1] === "'") {
+          name += "'";
+          j += 2;
+        } else if (formula[j] === "'") {
+          break;
+        } else {
+          name += formula[j];
+          j++;
+        }
+      }
+      if (formula[j + 1] !== '!') {
+        i = j + 1;
+        continue;
+      }
+      sheet = name;
+      cursor = j + 2;
+    } else {
+      const prefix = formula.slice(i).match(SHEET_PREFIX_PATTERN);
+      if (prefix) {
+        sheet = prefix[1];
+        cursor = i + prefix[0].length;
+      }
+    }
+
+    const match = formula.slice(cursor).match(REFERENCE_PATTERN);
+    if (match) {
+      refs.push({ sheet, address: match[1], start: cursor, end: cursor + match[1].length });
+      i = cursor + match[0].length;
+    } else {
+      i = sheet !== undefined ? cursor : i + 1;
+    }
+  }
+
+  return refs;
+}
+
+/**
+ * Whether a cell value's formula is an actual formula (not a constant).
+ */
+export function isFormula(formula: unknown): formula is string {
+  return typeof formula === 'string' && formula.startsWith('=');
+}
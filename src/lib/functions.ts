@@ -0,0 +1,142 @@
+/**
+ * Draftworx Automation Library - Worksheet Functions
+ *
+ * What the custom functions (=DWX.CONTEXT, =DWX.FORMULATEXT_R1C1) return,
+ * built from the same capture, payload, redaction and serializer code as the
+ * task pane.
+ */
+
+import { ContextOptions, OutputFormat, RedactionMap, RedactionRule } from './types';
+import { captureRange } from './range';
+import { buildContextPayload } from './context';
+import { detectTable, findColumnHeaders } from './table';
+import { resolveNames } from './names';
+import { redactPayload } from './redact';
+import { applyBudget } from './budget';
+import { OUTPUT_FORMATS, serializeContext } from './serializers';
+import { splitSheetAddress } from './address';
+import { isFormula } from './formula';
+
+/**
+ * Options for getRangeContext — the same names as a SettingsProfile, so the
+ * workbook's profile can be spread in
+ */
+export interface RangeContextOptions extends Omit<ContextOptions, 'table'> {
+  /** Output format (default: "json") */
+  format?: OutputFormat;
+  /** Token budget for the serialized context (default: 0, no limit) */
+  maxTokens?: number;
+  /** Emit table rows as records keyed by header (default: true) */
+  detectTables?: boolean;
+  /** Explain the defined names the formulas use (default: true) */
+  resolveNames?: boolean;
+  /** Redaction rules applied before the budget (default: none) */
+  redactionRules?: RedactionRule[];
+  /** Mapping to continue, so placeholders match the workbook's other output (default: empty) */
+  redactionMap?: RedactionMap;
+  /** Called with the mapping plus any placeholders added, to store it */
+  onRedactionMap?: (map: RedactionMap) => void;
+}
+
+/** Most characters a cell can hold */
+export const CELL_TEXT_LIMIT = 32767;
+
+/**
+ * Read an output format typed into a formula (case and spaces ignored,
+ * blank means "json").
+ * Pure helper — does not need Excel.run().
+ *
+ * @throws Error naming the formats when it isn't one
+ *
+ * @example
+ * parseOutputFormat(' Markdown ') // 'markdown'
+ */
+export function parseOutputFormat(text: string | null | undefined): OutputFormat {
+  const id = (text ?? '').trim().toLowerCase() || 'json';
+  const format = OUTPUT_FORMATS.find(candidate => candidate.id === id);
+  if (!format) {
+    throw new Error(`Format must be one of ${OUTPUT_FORMATS.map(candidate => candidate.id).join(', ')}`);
+  }
+  return format.id;
+}
+
+/**
+ * Serialized context for a range — the same text the task pane copies,
+ * redacted with the given rules (continuing the given mapping) before it
+ * is trimmed to the budget.
+ * Must be called within Excel.run().
+ *
+ * @param context - Excel RequestContext
+ * @param fullAddress - Range address, with its sheet (e.g., "'Q1 Data'!A1:D20")
+ * @param options - Format, budget, what to include and redaction rules
+ * @returns Promise<string>
+ * @throws Error if the text is longer than a cell can hold
+ *
+ * @example
+ * await Excel.run(async (context) => {
+ *   const text = await getRangeContext(context, 'Sales!A1:D20', { format: 'markdown', maxTokens: 2000 });
+ * });
+ */
+export async function getRangeContext(
+  context: Excel.RequestContext,
+  fullAddress: string,
+  options: RangeContextOptions = {}
+): Promise<string> {
+  const format = options.format ?? 'json';
+  const { sheet, address } = splitSheetAddress(fullAddress);
+  const captured = await captureRange(context, address, sheet, { display: options.display ?? true });
+  const table = options.detectTables !== false ? await detectTable(context, captured) : null;
+  const names = options.resolveNames !== false ? await resolveNames(context, captured) : [];
+
+  let payload = {
+    ...buildContextPayload(captured, {
+      includeFormulas: options.includeFormulas,
+      formulaRegions: options.formulaRegions,
+      display: options.display,
+      table
+    }),
+    ...(names.length > 0 && { names })
+  };
+  if (options.redactionRules?.length) {
+    const columnHeaders = options.redactionRules.some(rule => rule.headers?.length)
+      ? await findColumnHeaders(context, payload)
+      : undefined;
+    const { redacted, map } = redactPayload({ ...payload, columnHeaders }, options.redactionRules, options.redactionMap);
+    options.onRedactionMap?.(map);
+    payload = redacted;
+  }
+  if (options.maxTokens && options.maxTokens > 0) {
+    payload = applyBudget(payload, { maxTokens: options.maxTokens, format }).payload;
+  }
+
+  const text = serializeContext(payload, format);
+  if (text.length > CELL_TEXT_LIMIT) {
+    throw new Error(
+      `Context is ${text.length.toLocaleString()} characters; a cell holds ${CELL_TEXT_LIMIT.toLocaleString()}. Set a token budget.`
+    );
+  }
+  return text;
+}
+
+/**
+ * Each cell's formula in R1C1 notation, or "" where the cell has no
+ * formula — a grid the shape of the range.
+ * Must be called within Excel.run().
+ *
+ * @param context - Excel RequestContext
+ * @param fullAddress - Range address, with its sheet (e.g., "Sales!D2:D7")
+ * @returns Promise<string[][]>
+ *
+ * @example
+ * // D2:D7 holds =B2*C2 filled down
+ * await getFormulasR1C1(context, 'Sales!D2:D3') // [['=RC[-2]*RC[-1]'], ['=RC[-2]*RC[-1]']]
+ */
+export async function getFormulasR1C1(context: Excel.RequestContext, fullAddress: string): Promise<string[][]> {
+  const { sheet, address } = splitSheetAddress(fullAddress);
+  const captured = await captureRange(context, address, sheet);
+  const area = captured.areas[0];
+
+  return area.formulas.map((row, r) =>
+    row.map((formula, c) => (isFormula(formula) ? area.formulasR1C1?.[r]?.[c] ?? '' : ''))
+  );
+}
@@ -6,7 +6,27 @@
  * Architecture:
  * - types.ts     → Type definitions
  * - range.ts     → Range capture/paste primitives (use inside Excel.run)
+ * - format.ts    → Formatting and metadata capture/apply (use inside Excel.run)
  * - sheet.ts     → Sheet management primitives (use inside Excel.run)
+ * - trace.ts     → Formula precedent/dependent tracing (use inside Excel.run)
+ * - table.ts     → Excel table / header-row detection (use inside Excel.run)
+ * - names.ts     → Defined-name resolution (use inside Excel.run)
+ * - overview.ts  → Whole-workbook overview: sheets, tables, charts, names (use inside Excel.run)
+ * - context.ts   → Context payloads built from captured ranges (pure)
+ * - serializers.ts → Markdown/CSV/TSV/JSON renderings of a payload (pure)
+ * - budget.ts    → Token estimates and truncation strategies (pure)
+ * - basket.ts    → Pinned payloads combined into one (pure)
+ * - address.ts / formula.ts → Pure A1 address and formula helpers
+ * - journal.ts   → Undo journal and rollback for automations
+ * - pipeline.ts  → Declarative JSON/YAML pipelines of primitives
+ * - registry.ts  → Automation registry that UIs are generated from
+ * - chat.ts      → AI chat with pluggable providers and per-workbook history
+ * - changes.ts   → Change sets: preview and apply proposed cell edits
+ * - snapshots.ts → Named range snapshots saved with the document, and diffs
+ * - redact.ts    → Redaction of sensitive values with restorable placeholders (pure)
+ * - tracking.ts  → Workbook-wide selection tracking with debounced refreshes
+ * - settings.ts  → Settings profiles stored per user, pinned to workbooks, shared as JSON
+ * - functions.ts → What the =DWX.* worksheet functions return (use inside Excel.run)
  * - automations.ts → Composed automations (call directly, handle their own Excel.run)
  * 
  * Usage:
@@ -34,13 +54,171 @@
 export * from './types';
 
 // Primitives
-export { captureSelection, captureRange, pasteRange } from './range';
+export {
+  captureSelection,
+  captureRange,
+  captureNamedRange,
+  pasteRange,
+  getPasteAddress,
+  getCapturedCells,
+  getCapturedCellCount
+} from './range';
+export { captureFormatting, applyFormatting } from './format';
 export { createSheet, generateUniqueSheetName, getActiveSheet, activateSheet } from './sheet';
+export { traceDependencies } from './trace';
+export { detectTable, findColumnHeaders, inferColumnType } from './table';
+export { resolveNames } from './names';
+export { captureWorkbookOverview, applyOverviewBudget, type OverviewBudgetResult } from './overview';
+
+// Context
+export { buildContextPayload, groupFormulaRegions } from './context';
+export {
+  redactPayload,
+  redactOverview,
+  restorePlaceholders,
+  parseRedactionRules,
+  validateRedactionRules,
+  loadRedactionMap,
+  saveRedactionMap,
+  clearRedactionMap,
+  type RedactionResult,
+  type RedactionMapStorage
+} from './redact';
+export { serializeContext, serializeOverview, OUTPUT_FORMATS } from './serializers';
+export { estimateTokens, applyBudget, DEFAULT_STRATEGIES, type BudgetResult } from './budget';
+export {
+  pinContext,
+  unpinContext,
+  moveContext,
+  combineContexts,
+  serializeBasket,
+  applyBasketBudget,
+  getBasketLabel,
+  type BasketBudgetResult
+} from './basket';
+
+// AI chat
+export {
+  createHttpChatProvider,
+  sendChatMessage,
+  getWorkbookKey,
+  loadChatHistory,
+  saveChatHistory,
+  clearChatHistory,
+  type HttpChatProviderOptions,
+  type SendChatOptions,
+  type ChatHistoryStorage
+} from './chat';
+
+// Helpers
+export {
+  columnToNumber,
+  getColumnLetter,
+  splitSheetAddress,
+  splitAreas,
+  stripSheetName,
+  qualifyAddress,
+  parseCellRef,
+  toCellRef,
+  parseRangeAddress,
+  toRangeAddress,
+  offsetAddress,
+  refsToRanges,
+  intersectBounds,
+  isA1Address
+} from './address';
+export { extractReferences, extractNames, isFormula, isErrorValue, toR1C1 } from './formula';
+
+// Undo journal
+export {
+  runJournaled,
+  snapshotRange,
+  recordCreatedSheet,
+  rollBackEntry,
+  undoLastAutomation,
+  getJournal,
+  clearJournal
+} from './journal';
+
+// Pipelines
+export { parsePipeline, validatePipeline, runPipeline, getPipelineActions } from './pipeline';
+
+// Change sets
+export {
+  parseChangeSet,
+  validateChangeSet,
+  previewChangeSet,
+  applyChangeSet,
+  type ApplyChangeSetResult
+} from './changes';
+
+// Snapshots
+export {
+  saveSnapshot,
+  getSnapshots,
+  getSnapshot,
+  deleteSnapshot,
+  diffSnapshot,
+  diffCaptured,
+  diffToContextPayload,
+  type DocumentSettings
+} from './snapshots';
+
+// Selection tracking
+export {
+  trackSelection,
+  type SelectionTracker,
+  type SelectionTrackingOptions,
+  type TrackingReason
+} from './tracking';
+
+// Settings profiles
+export {
+  DEFAULT_PROFILE,
+  loadUserSettings,
+  saveUserSettings,
+  getActiveProfile,
+  upsertProfile,
+  removeProfile,
+  resolveProfile,
+  getWorkbookProfile,
+  getProfileInUse,
+  setWorkbookProfile,
+  exportProfiles,
+  parseProfiles,
+  validateProfile,
+  getUserSettingsStorage,
+  type UserSettings,
+  type SettingsStorage,
+  type ResolvedProfile
+} from './settings';
+
+// Worksheet functions
+export {
+  getRangeContext,
+  getFormulasR1C1,
+  parseOutputFormat,
+  CELL_TEXT_LIMIT,
+  type RangeContextOptions
+} from './functions';
+
+// Automation registry
+export {
+  registerAutomation,
+  getAutomations,
+  getAutomation,
+  getDefaultOptions,
+  validateOptions,
+  describeAutomationResult,
+  runExclusive
+} from './registry';
 
 // Composed Automations
 export { 
   copySelectionToNewSheet, 
   duplicateSelection,
+  captureSelectionContext,
   type CopyToNewSheetOptions,
-  type CopyToNewSheetResult 
+  type CopyToNewSheetResult,
+  type SelectionContextOptions
 } from './automations';
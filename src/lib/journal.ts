@@ -0,0 +1,205 @@
+/**
+ * Draftworx Automation Library - Undo Journal
+ *
+ * Changes made through Office.js can't be undone with Ctrl+Z, so composed
+ * automations record the cells they overwrite and the sheets they create
+ * here. The journal lives as long as the task pane session.
+ */
+
+import { AutomationResult, FormattingParts, JournalEntry } from './types';
+import { captureRange, pasteRange } from './range';
+
+/** Oldest entries are dropped beyond this many (snapshots can be large) */
+const MAX_ENTRIES = 20;
+
+const journal: JournalEntry[] = [];
+
+/**
+ * Run an automation in its own Excel.run, journaling what it changes.
+ * On success the entry joins the journal; if the automation fails or throws,
+ * everything it recorded is rolled back straight away.
+ * Record a change on the entry before making it, so a failure halfway
+ * through the change is still rolled back.
+ *
+ * @param automation - Name stored on the journal entry
+ * @param run - Automation body
+ * @returns Promise<AutomationResult<T>> - On failure, the error says whether rollback worked
+ *
+ * @example
+ * return runJournaled('clearInputs', async (context, entry) => {
+ *   await snapshotRange(context, entry, 'Inputs', 'B2:B20');
+ *   context.workbook.worksheets.getItem('Inputs').getRange('B2:B20').clear();
+ *   await context.sync();
+ *   return { success: true };
+ * });
+ */
+export async function runJournaled<T>(
+  automation: string,
+  run: (context: Excel.RequestContext, entry: JournalEntry) => Promise<AutomationResult<T>>
+): Promise<AutomationResult<T>> {
+  const entry: JournalEntry = {
+    automation,
+    timestamp: new Date().toISOString(),
+    snapshots: [],
+    createdSheets: [],
+  };
+
+  let result: AutomationResult<T>;
+  try {
+    result = await Excel.run(async (context) => {
+      const active = context.workbook.worksheets.getActiveWorksheet();
+      active.load('name');
+      await context.sync();
+      entry.activeSheet = active.name;
+
+      return run(context, entry);
+    });
+  } catch (error) {
+    result = {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+
+  const changed = entry.snapshots.length > 0 || entry.createdSheets.length > 0;
+  if (result.success) {
+    if (changed) {
+      journal.push(entry);
+      journal.splice(0, Math.max(0, journal.length - MAX_ENTRIES));
+    }
+    return result;
+  }
+
+  if (changed) {
+    const rollback = await rollBack(entry);
+    return {
+      ...result,
+      error: rollback.success
+        ? `${result.error} (changes rolled back)`
+        : `${result.error} (rollback failed: ${rollback.error})`
+    };
+  }
+  return result;
+}
+
+/**
+ * Record cells as they are now, before an automation overwrites them.
+ * Must be called within Excel.run().
+ *
+ * @param context - Excel RequestContext
+ * @param entry - Journal entry of the running automation
+ * @param sheetName - Sheet holding the cells
+ * @param address - Cells about to be overwritten (multi-area allowed)
+ * @param formatting - Formatting to snapshot too, when the automation writes formatting
+ */
+export async function snapshotRange(
+  context: Excel.RequestContext,
+  entry: JournalEntry,
+  sheetName: string,
+  address: string,
+  formatting: boolean | FormattingParts = false
+): Promise<void> {
+  entry.snapshots.push(await captureRange(context, address, sheetName, { formatting, display: false }));
+}
+
+/**
+ * Record a sheet an automation is about to create.
+ * Rolling back deletes it (if it exists by then).
+ */
+export function recordCreatedSheet(entry: JournalEntry, sheetName: string): void {
+  entry.createdSheets.push(sheetName);
+}
+
+/**
+ * Revert a journal entry: restore overwritten cells (newest first), switch
+ * back to the sheet that was active, then delete the sheets it created.
+ * Merges, comments and validation added by a paste are not reverted.
+ * Must be called within Excel.run().
+ *
+ * @param context - Excel RequestContext
+ * @param entry - Entry to revert
+ */
+export async function rollBackEntry(context: Excel.RequestContext, entry: JournalEntry): Promise<void> {
+  const sheets = context.workbook.worksheets;
+  const snapshotSheets = entry.snapshots.map(snapshot => sheets.getItemOrNullObject(snapshot.sourceSheet));
+  const createdSheets = entry.createdSheets.map(name => sheets.getItemOrNullObject(name));
+  const activeSheet = entry.activeSheet ? sheets.getItemOrNullObject(entry.activeSheet) : null;
+  await context.sync();
+
+  for (let i = entry.snapshots.length - 1; i >= 0; i--) {
+    if (!snapshotSheets[i].isNullObject) {
+      await pasteRange(context, entry.snapshots[i], snapshotSheets[i], undefined, { mode: 'asTyped' });
+    }
+  }
+
+  if (activeSheet && !activeSheet.isNullObject) {
+    activeSheet.activate();
+  }
+  createdSheets
+    .filter(sheet => !sheet.isNullObject)
+    .reverse()
+    .forEach(sheet => sheet.delete());
+
+  await context.sync();
+}
+
+/**
+ * Undo the most recent journaled automation.
+ * The entry stays in the journal if the undo fails, so it can be retried.
+ *
+ * This is a complete automation — call it directly, not inside Excel.run().
+ *
+ * @returns Promise<AutomationResult<JournalEntry>> - The entry that was undone
+ *
+ * @example
+ * const result = await undoLastAutomation();
+ * if (result.success) {
+ *   console.log(`Undid ${result.data.automation}`);
+ * }
+ */
+export async function undoLastAutomation(): Promise<AutomationResult<JournalEntry>> {
+  const entry = journal[journal.length - 1];
+  if (!entry) {
+    return {
+      success: false,
+      error: 'Nothing to undo'
+    };
+  }
+
+  const result = await rollBack(entry);
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+
+  journal.splice(journal.indexOf(entry), 1);
+  return {
+    success: true,
+    data: entry
+  };
+}
+
+/**
+ * Journal entries for this session, oldest first.
+ */
+export function getJournal(): JournalEntry[] {
+  return [...journal];
+}
+
+/**
+ * Forget every journal entry (the changes themselves are kept).
+ */
+export function clearJournal(): void {
+  journal.length = 0;
+}
+
+async function rollBack(entry: JournalEntry): Promise<AutomationResult> {
+  try {
+    await Excel.run(context => rollBackEntry(context, entry));
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Draftworx Automation Library - Named Ranges
+ *
+ * Functions for resolving the defined names used by captured formulas.
+ * All functions are designed to be called within an Excel.run() context.
+ */
+
+import { CapturedRange, NamedRangeInfo } from './types';
+import { getCapturedCells } from './range';
+import { extractNames, isFormula } from './formula';
+
+/** NamedItem properties loaded for every candidate name */
+const NAME_PROPERTIES = 'items/name,items/type,items/formula,items/value,items/comment';
+
+/**
+ * Resolve every workbook- and sheet-scoped name referenced by the formulas
+ * in a captured range, with its definition and current value(s).
+ * Unqualified names prefer a sheet-scoped name on the formula's sheet,
+ * exactly as Excel does.
+ * Must be called within Excel.run().
+ *
+ * @param context - Excel RequestContext
+ * @param captured - Previously captured range data
+ * @param maxCells - Ranges larger than this are listed without values (default: 100)
+ * @returns Promise<NamedRangeInfo[]> - One entry per distinct name found
+ *
+ * @example
+ * await Excel.run(async (context) => {
+ *   const captured = await captureSelection(context);
+ *   const names = await resolveNames(context, captured);
+ *   // [{ name: 'Revenue', scope: 'workbook', definition: '=Data!$B$2:$B$13', ... }]
+ * });
+ */
+export async function resolveNames(
+  context: Excel.RequestContext,
+  captured: CapturedRange,
+  maxCells: number = 100
+): Promise<NamedRangeInfo[]> {
+  const used = new Map<string, { sheet?: string; name: string }>();
+  for (const cell of getCapturedCells(captured)) {
+    if (isFormula(cell.formula)) {
+      for (const ref of extractNames(cell.formula)) {
+        used.set(`${ref.sheet ?? ''}!${ref.name}`.toLowerCase(), ref);
+      }
+    }
+  }
+  if (used.size === 0) {
+    return [];
+  }
+
+  // Load workbook names plus the names scoped to every sheet involved
+  const workbookNames = context.workbook.names;
+  workbookNames.load(NAME_PROPERTIES);
+
+  const sheetNames = new Set([captured.sourceSheet]);
+  used.forEach(ref => ref.sheet && sheetNames.add(ref.sheet));
+  const scoped = [...sheetNames].map(sheet => {
+    const worksheet = context.workbook.worksheets.getItemOrNullObject(sheet);
+    worksheet.names.load(NAME_PROPERTIES);
+    return { sheet, worksheet };
+  });
+
+  await context.sync();
+
+  const find = (items: Excel.NamedItem[], name: string) =>
+    items.find(item => item.name.toLowerCase() === name.toLowerCase());
+
+  const matches = new Map<Excel.NamedItem, string>();
+  used.forEach(ref => {
+    const sheet = ref.sheet ?? captured.sourceSheet;
+    const local = scoped.find(s => s.sheet === sheet && !s.worksheet.isNullObject);
+    const scopedItem = local ? find(local.worksheet.names.items, ref.name) : undefined;
+    const item = scopedItem ?? find(workbookNames.items, ref.name);
+    if (item) {
+      matches.set(item, scopedItem ? sheet : 'workbook');
+    }
+  });
+
+  // Ranges: load the address and size first, then values for the small ones
+  const ranges = new Map<Excel.NamedItem, Excel.Range>();
+  matches.forEach((_, item) => {
+    if (item.type === 'Range') {
+      const range = item.getRangeOrNullObject();
+      range.load(['address', 'cellCount']);
+      ranges.set(item, range);
+    }
+  });
+  if (ranges.size > 0) {
+    await context.sync();
+    ranges.forEach(range => {
+      if (!range.isNullObject && range.cellCount <= maxCells) {
+        range.load('values');
+      }
+    });
+    await context.sync();
+  }
+
+  const results: NamedRangeInfo[] = [];
+  matches.forEach((scope, item) => {
+    const info: NamedRangeInfo = {
+      name: item.name,
+      scope,
+      definition: item.formula,
+      type: item.type,
+    };
+
+    const range = ranges.get(item);
+    if (range && !range.isNullObject) {
+      info.address = range.address;
+      if (range.cellCount <= maxCells) {
+        info.value = range.values;
+      } else {
+        info.truncated = true;
+      }
+    } else if (item.type !== 'Range') {
+      info.value = item.value;
+    }
+
+    if (item.comment) {
+      info.comment = item.comment;
+    }
+    results.push(info);
+  });
+
+  return results;
+}
+
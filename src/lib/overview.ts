@@ -0,0 +1,168 @@
+/**
+ * Draftworx Automation Library - Workbook Overview
+ *
+ * Capture the shape of the whole workbook — sheets, used ranges, tables,
+ * charts, names and a header preview — so the AI can orient itself before
+ * looking at specific cells.
+ * All functions are designed to be called within an Excel.run() context.
+ */
+
+import { OutputFormat, OverviewOptions, SheetOverview, WorkbookOverview } from './types';
+import { parseRangeAddress, stripSheetName, toRangeAddress } from './address';
+import { estimateTokens } from './budget';
+import { serializeOverview } from './serializers';
+
+/**
+ * Result of fitting an overview into a budget
+ */
+export interface OverviewBudgetResult {
+  /** The (possibly reduced) overview, with omissions recorded */
+  overview: WorkbookOverview;
+  /** Estimated tokens of the serialized result */
+  tokens: number;
+  /** Whether the result fits the budget */
+  withinBudget: boolean;
+}
+
+/**
+ * Capture an overview of every sheet in the workbook.
+ * Must be called within Excel.run().
+ *
+ * @param context - Excel RequestContext
+ * @param options - Preview size and an optional token limit
+ * @returns Promise<WorkbookOverview>
+ *
+ * @example
+ * await Excel.run(async (context) => {
+ *   const overview = await captureWorkbookOverview(context, { maxTokens: 4000, format: 'markdown' });
+ *   console.log(serializeOverview(overview, 'markdown'));
+ * });
+ */
+export async function captureWorkbookOverview(
+  context: Excel.RequestContext,
+  options: OverviewOptions = {}
+): Promise<WorkbookOverview> {
+  const previewRows = options.previewRows ?? 3;
+  const previewColumns = options.previewColumns ?? 8;
+
+  const worksheets = context.workbook.worksheets;
+  const active = worksheets.getActiveWorksheet();
+  const workbookNames = context.workbook.names;
+  worksheets.load('items/name,items/position,items/visibility');
+  active.load('name');
+  workbookNames.load('items/name,items/formula,items/visible');
+  await context.sync();
+
+  const loaded = worksheets.items.map(sheet => {
+    const used = sheet.getUsedRangeOrNullObject(true);
+    used.load('address,rowCount,columnCount');
+    sheet.tables.load('items/name');
+    sheet.charts.load('items/name,items/chartType');
+    sheet.names.load('items/name,items/visible');
+    return { sheet, used };
+  });
+  await context.sync();
+
+  // Second round: table addresses and the preview cells
+  const details = loaded.map(({ sheet, used }) => {
+    const tableRanges = sheet.tables.items.map(table => table.getRange().load('address'));
+    let preview: Excel.Range | null = null;
+    if (!used.isNullObject && previewRows > 0) {
+      const bounds = parseRangeAddress(stripSheetName(used.address));
+      preview = sheet.getRange(toRangeAddress({
+        ...bounds,
+        endRow: Math.min(bounds.endRow, bounds.startRow + previewRows - 1),
+        endColumn: Math.min(bounds.endColumn, bounds.startColumn + previewColumns - 1),
+      }));
+      preview.load('values');
+    }
+    return { tableRanges, preview };
+  });
+  await context.sync();
+
+  const sheets: SheetOverview[] = loaded.map(({ sheet, used }, index) => {
+    const { tableRanges, preview } = details[index];
+    return {
+      name: sheet.name,
+      position: sheet.position,
+      visibility: sheet.visibility as SheetOverview['visibility'],
+      usedRange: used.isNullObject ? null : stripSheetName(used.address),
+      rowCount: used.isNullObject ? 0 : used.rowCount,
+      columnCount: used.isNullObject ? 0 : used.columnCount,
+      tables: sheet.tables.items.map((table, i) => ({ name: table.name, address: stripSheetName(tableRanges[i].address) })),
+      charts: sheet.charts.items.map(chart => ({ name: chart.name, type: String(chart.chartType) })),
+      names: sheet.names.items.filter(item => item.visible).map(item => item.name),
+      ...(preview && { preview: preview.values }),
+    };
+  });
+
+  const overview: WorkbookOverview = {
+    timestamp: new Date().toISOString(),
+    activeSheet: active.name,
+    sheets,
+    names: workbookNames.items
+      .filter(item => item.visible)
+      .map(item => ({ name: item.name, definition: item.formula })),
+  };
+
+  return options.maxTokens === undefined
+    ? overview
+    : applyOverviewBudget(overview, options.maxTokens, options.format).overview;
+}
+
+/**
+ * Shrink an overview until its serialized form fits a token budget:
+ * previews are cut to the header row, then dropped, then the workbook
+ * names, and finally sheets from the end. Each step is noted in `omissions`.
+ * Pure helper — does not need Excel.run().
+ *
+ * @param overview - Overview to fit
+ * @param maxTokens - Maximum estimated tokens
+ * @param format - Format the budget is measured in (default: "json")
+ * @returns OverviewBudgetResult
+ */
+export function applyOverviewBudget(
+  overview: WorkbookOverview,
+  maxTokens: number,
+  format: OutputFormat = 'json'
+): OverviewBudgetResult {
+  const measure = (o: WorkbookOverview) => estimateTokens(serializeOverview(o, format));
+  const omit = (o: WorkbookOverview, note: string): WorkbookOverview => ({ ...o, omissions: [...(o.omissions ?? []), note] });
+
+  let current = overview;
+  let tokens = measure(current);
+
+  const steps: ((o: WorkbookOverview) => WorkbookOverview | null)[] = [
+    o => o.sheets.some(sheet => (sheet.preview?.length ?? 0) > 1)
+      ? omit({ ...o, sheets: o.sheets.map(sheet => sheet.preview ? { ...sheet, preview: sheet.preview.slice(0, 1) } : sheet) },
+        'Previews cut to the first row')
+      : null,
+    o => o.sheets.some(sheet => sheet.preview)
+      ? omit({ ...o, sheets: o.sheets.map(({ preview, ...sheet }) => sheet) }, 'Previews left out')
+      : null,
+    o => o.names.length > 0
+      ? omit({ ...o, names: [] }, `${o.names.length} workbook names left out`)
+      : null,
+  ];
+
+  for (const step of steps) {
+    if (tokens <= maxTokens) {
+      break;
+    }
+    current = step(current) ?? current;
+    tokens = measure(current);
+  }
+
+  // Last resort: drop sheets from the end until it fits
+  const full = current;
+  let kept = full.sheets.length;
+  while (tokens > maxTokens && kept > 1) {
+    kept--;
+    const dropped = full.sheets.slice(kept).map(sheet => sheet.name);
+    current = omit({ ...full, sheets: full.sheets.slice(0, kept) },
+      `${dropped.length} sheet${dropped.length !== 1 ? 's' : ''} left out: ${dropped.join(', ')}`);
+    tokens = measure(current);
+  }
+
+  return { overview: current, tokens, withinBudget: tokens <= maxTokens };
+}
@@ -0,0 +1,388 @@
+/**
+ * Draftworx Automation Library - Pipelines
+ *
+ * Declarative automations: a JSON or YAML list of steps, each mapped to a
+ * library primitive, with variables passed from step to step. New
+ * automations can be written and shared without a code release.
+ *
+ * @example
+ * name: Backup selection
+ * steps:
+ *   - id: source
+ *     action: captureSelection
+ *   - id: sheet
+ *     action: createSheet
+ *     with: { name: "Backup of ${source.sourceSheet}", position: end }
+ *   - action: pasteRange
+ *     with: { captured: $source, sheet: $sheet, mode: valuesOnly }
+ *   - action: activateSheet
+ *     with: { sheet: $sheet }
+ */
+
+import { parse as parseYaml } from 'yaml';
+import {
+  CapturedRange,
+  CreateSheetOptions,
+  JournalEntry,
+  OptionSpec,
+  PasteMode,
+  Pipeline,
+  PipelineRunResult,
+  PipelineStep,
+  PipelineStepResult,
+} from './types';
+import { captureRange, captureSelection, getPasteAddress, pasteRange } from './range';
+import { activateSheet, createSheet, generateUniqueSheetName, getActiveSheet } from './sheet';
+import { recordCreatedSheet, runJournaled, snapshotRange } from './journal';
+import { checkOption } from './registry';
+
+/**
+ * Every parameter any action takes, after variables are resolved.
+ * Validation guarantees required ones are present and correctly typed.
+ */
+interface StepParams {
+  address?: string;
+  base?: string;
+  captured?: CapturedRange;
+  formatting?: boolean;
+  mode?: PasteMode;
+  name?: string;
+  position?: CreateSheetOptions['position'];
+  sheet?: string;
+  targetAddress?: string;
+  unique?: boolean;
+}
+
+/**
+ * A step action: its parameters and how to run it inside Excel.run
+ */
+interface StepAction {
+  description: string;
+  params: Partial<Record<keyof StepParams, OptionSpec>>;
+  run(context: Excel.RequestContext, params: StepParams, entry: JournalEntry): Promise<unknown>;
+}
+
+const PASTE_MODES: PasteMode[] = ['shiftRelative', 'asTyped', 'valuesOnly'];
+
+/** Matches a whole-value variable reference: $name or $name.path */
+const REFERENCE_PATTERN = /^\$([A-Za-z_]\w*(?:\.\w+)*)$/;
+
+/** Matches variables inserted into text: ${name} or ${name.path} */
+const INTERPOLATION_PATTERN = /\$\{([A-Za-z_]\w*(?:\.\w+)*)\}/g;
+
+const ACTIONS: Record<string, StepAction> = {
+  captureSelection: {
+    description: 'Capture the current selection',
+    params: {
+      formatting: { type: 'boolean', description: 'Also capture formatting and metadata' },
+    },
+    run: (context, params) => captureSelection(context, { formatting: params.formatting }),
+  },
+  captureRange: {
+    description: 'Capture a range by address or defined name',
+    params: {
+      address: { type: 'string', required: true, description: 'Address (e.g., "A1:C10") or defined name' },
+      sheet: { type: 'string', description: 'Sheet name (default: active sheet)' },
+      formatting: { type: 'boolean', description: 'Also capture formatting and metadata' },
+    },
+    run: (context, params) => captureRange(context, params.address!, params.sheet, { formatting: params.formatting }),
+  },
+  getActiveSheet: {
+    description: 'Name of the active sheet',
+    params: {},
+    run: async (context) => (await getActiveSheet(context)).name,
+  },
+  uniqueSheetName: {
+    description: 'A sheet name based on "base" that is not taken yet',
+    params: {
+      base: { type: 'string', required: true, description: 'Preferred name' },
+    },
+    run: (context, params) => generateUniqueSheetName(context, params.base!),
+  },
+  createSheet: {
+    description: 'Create a sheet; outputs its name',
+    params: {
+      name: { type: 'string', default: 'Sheet', description: 'Sheet name' },
+      position: { type: 'select', choices: ['before', 'after', 'end'], description: 'Relative to the active sheet (default: after)' },
+      unique: { type: 'boolean', default: true, description: 'Add " (2)", " (3)"… when the name is taken' },
+    },
+    run: async (context, params, entry) => {
+      const name = params.unique === false
+        ? params.name ?? 'Sheet'
+        : await generateUniqueSheetName(context, params.name ?? 'Sheet');
+      recordCreatedSheet(entry, name);
+      await createSheet(context, { name, position: params.position });
+      return name;
+    },
+  },
+  pasteRange: {
+    description: 'Paste a captured range onto a sheet; outputs the pasted address',
+    params: {
+      captured: { type: 'capture', required: true, description: 'Output of a capture step' },
+      sheet: { type: 'string', required: true, description: 'Target sheet name' },
+      targetAddress: { type: 'string', description: 'Top-left target cell (default: same as captured)' },
+      mode: { type: 'select', choices: PASTE_MODES, description: 'How formulas are written (default: shiftRelative)' },
+      formatting: { type: 'boolean', description: 'Carry captured formatting (default: true)' },
+    },
+    run: async (context, params, entry) => {
+      const sheet = context.workbook.worksheets.getItem(params.sheet!);
+      const address = getPasteAddress(params.captured!, params.targetAddress);
+      // Snapshot the formatting the paste will overwrite, so undo puts it back
+      const formatting = params.captured!.formatting ? params.formatting ?? true : false;
+      await snapshotRange(context, entry, params.sheet!, address, formatting);
+      await pasteRange(context, params.captured!, sheet, params.targetAddress, {
+        mode: params.mode,
+        formatting,
+      });
+      return address;
+    },
+  },
+  activateSheet: {
+    description: 'Switch to a sheet',
+    params: {
+      sheet: { type: 'string', required: true, description: 'Sheet name' },
+    },
+    run: (context, params) => activateSheet(context.workbook.worksheets.getItem(params.sheet!), context),
+  },
+};
+
+/**
+ * Every pipeline action with its description and parameters, for help text and editors.
+ */
+export function getPipelineActions(): { action: string; description: string; params: Record<string, OptionSpec> }[] {
+  return Object.entries(ACTIONS).map(([action, { description, params }]) => ({ action, description, params }));
+}
+
+/**
+ * Parse and validate a pipeline written in YAML or JSON (JSON is valid YAML).
+ *
+ * @param text - Pipeline source
+ * @returns Pipeline
+ * @throws Error listing every problem found
+ */
+export function parsePipeline(text: string): Pipeline {
+  let value: unknown;
+  try {
+    value = parseYaml(text);
+  } catch (error) {
+    throw new Error(`Could not read pipeline: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const errors = validatePipeline(value);
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+  return value as Pipeline;
+}
+
+/**
+ * Check a pipeline's structure, actions, parameters and variable references.
+ * Pure helper — does not need Excel.run().
+ *
+ * @param value - Parsed pipeline
+ * @returns string[] - One message per problem (empty when valid)
+ */
+export function validatePipeline(value: unknown): string[] {
+  if (!isRecord(value)) {
+    return ['Pipeline must be an object with "name" and "steps"'];
+  }
+
+  const errors: string[] = [];
+  if (typeof value.name !== 'string' || !value.name.trim()) {
+    errors.push('"name" must be a non-empty string');
+  }
+  if (value.variables !== undefined && !isRecord(value.variables)) {
+    errors.push('"variables" must be an object');
+  }
+  if (!Array.isArray(value.steps) || value.steps.length === 0) {
+    errors.push('"steps" must be a non-empty list');
+    return errors;
+  }
+
+  const defined = new Set(Object.keys(isRecord(value.variables) ? value.variables : {}));
+
+  value.steps.forEach((step: unknown, index: number) => {
+    const where = `Step ${index + 1}`;
+    if (!isRecord(step)) {
+      errors.push(`${where}: must be an object with an "action"`);
+      return;
+    }
+
+    const action = typeof step.action === 'string' ? ACTIONS[step.action] : undefined;
+    if (!action) {
+      errors.push(`${where}: unknown action "${String(step.action)}" (expected one of ${Object.keys(ACTIONS).join(', ')})`);
+      return;
+    }
+    const label = `${where} (${step.action})`;
+
+    const params = step.with ?? {};
+    if (!isRecord(params)) {
+      errors.push(`${label}: "with" must be an object`);
+      return;
+    }
+
+    for (const [name, spec] of Object.entries<OptionSpec>(action.params)) {
+      if (spec.required && params[name] === undefined) {
+        errors.push(`${label}: missing "${name}"`);
+      }
+    }
+    for (const [name, param] of Object.entries(params)) {
+      const spec = action.params[name as keyof StepParams];
+      if (!spec) {
+        errors.push(`${label}: unknown parameter "${name}"`);
+        continue;
+      }
+      for (const variable of findVariables(param)) {
+        if (!defined.has(variable)) {
+          errors.push(`${label}: "${name}" uses $${variable}, which is not defined before this step`);
+        }
+      }
+      const problem = typeof param === 'string' && REFERENCE_PATTERN.test(param) ? null : checkOption(param, spec);
+      if (problem) {
+        errors.push(`${label}: "${name}" ${problem}`);
+      }
+    }
+
+    if (step.id !== undefined) {
+      if (typeof step.id !== 'string' || !/^[A-Za-z_]\w*$/.test(step.id)) {
+        errors.push(`${label}: "id" must be a simple name (letters, digits, underscores)`);
+      } else if (defined.has(step.id)) {
+        errors.push(`${label}: "${step.id}" is already defined`);
+      } else {
+        defined.add(step.id);
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Run a pipeline, step by step, in a single journaled Excel.run.
+ * Stops at the first failing step; everything it changed is rolled back
+ * and a successful run can be reverted with undoLastAutomation().
+ *
+ * This is a complete automation — call it directly, not inside Excel.run().
+ *
+ * @param pipeline - Parsed pipeline
+ * @param variables - Values overriding the pipeline's own variables
+ * @returns Promise<PipelineRunResult> - Per-step results; data holds the final variables
+ *
+ * @example
+ * const result = await runPipeline(parsePipeline(text), { target: 'Review' });
+ * result.steps.forEach(step => console.log(step.action, step.success));
+ */
+export async function runPipeline(
+  pipeline: Pipeline,
+  variables: Record<string, unknown> = {}
+): Promise<PipelineRunResult> {
+  const scope: Record<string, unknown> = { ...pipeline.variables, ...variables };
+  const errors = validatePipeline({ ...pipeline, variables: scope });
+  if (errors.length > 0) {
+    return { success: false, error: errors.join('\n'), steps: [] };
+  }
+
+  const steps: PipelineStepResult[] = [];
+  const result = await runJournaled(`pipeline: ${pipeline.name}`, async (context, entry) => {
+    for (const [index, step] of pipeline.steps.entries()) {
+      const outcome = await runStep(context, step, index, scope, entry);
+      steps.push(outcome);
+      if (!outcome.success) {
+        return {
+          success: false,
+          error: `Step ${index + 1} (${step.action}) failed: ${outcome.error}`
+        };
+      }
+    }
+    return {
+      success: true,
+      data: scope
+    };
+  });
+
+  return { ...result, steps };
+}
+
+async function runStep(
+  context: Excel.RequestContext,
+  step: PipelineStep,
+  index: number,
+  scope: Record<string, unknown>,
+  entry: JournalEntry
+): Promise<PipelineStepResult> {
+  const meta = { index, action: step.action, ...(step.id && { id: step.id }) };
+  const action = ACTIONS[step.action];
+
+  try {
+    const params = resolveVariables(step.with ?? {}, scope) as Record<string, unknown>;
+    for (const [name, spec] of Object.entries<OptionSpec>(action.params)) {
+      const problem = params[name] === undefined ? null : checkOption(params[name], spec);
+      if (problem) {
+        throw new Error(`"${name}" ${problem}`);
+      }
+    }
+
+    const output = await action.run(context, params as StepParams, entry);
+    if (step.id) {
+      scope[step.id] = output;
+    }
+    return { ...meta, success: true, data: output };
+  } catch (error) {
+    return { ...meta, success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Replace variable references in a parameter value (recursively).
+ */
+function resolveVariables(value: unknown, scope: Record<string, unknown>): unknown {
+  if (typeof value === 'string') {
+    const reference = REFERENCE_PATTERN.exec(value);
+    if (reference) {
+      return lookup(reference[1], scope);
+    }
+    return value.replace(INTERPOLATION_PATTERN, (_, path: string) => String(lookup(path, scope) ?? ''));
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolveVariables(item, scope));
+  }
+  if (isRecord(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolveVariables(item, scope)]));
+  }
+  return value;
+}
+
+function lookup(path: string, scope: Record<string, unknown>): unknown {
+  const [name, ...properties] = path.split('.');
+  if (!(name in scope)) {
+    throw new Error(`Unknown variable: $${name}`);
+  }
+  return properties.reduce<unknown>(
+    (value, property) => (isRecord(value) || Array.isArray(value) ? (value as Record<string, unknown>)[property] : undefined),
+    scope[name]
+  );
+}
+
+/**
+ * Variable names a parameter value refers to.
+ */
+function findVariables(value: unknown): string[] {
+  if (typeof value === 'string') {
+    const reference = REFERENCE_PATTERN.exec(value);
+    if (reference) {
+      return [reference[1].split('.')[0]];
+    }
+    return [...value.matchAll(INTERPOLATION_PATTERN)].map(match => match[1].split('.')[0]);
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(findVariables);
+  }
+  if (isRecord(value)) {
+    return Object.values(value).flatMap(findVariables);
+  }
+  return [];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,114 +1,441 @@
 /**
  * Draftworx Automation Library - Range Utilities
- * 
+ *
  * Functions for capturing and manipulating Excel ranges.
  * All functions are designed to be called within an Excel.run() context.
  */
 
-import { CapturedRange } from './types';
+import {
+  CapturedArea,
+  CapturedCell,
+  CapturedRange,
+  CaptureOptions,
+  ChunkOptions,
+  ChunkProgress,
+  PasteMode,
+  PasteOptions,
+  RangeBounds
+} from './types';
+import {
+  isA1Address,
+  offsetAddress,
+  parseRangeAddress,
+  splitAreas,
+  stripSheetName,
+  toCellRef,
+  toRangeAddress
+} from './address';
+import { isFormula, toR1C1 } from './formula';
+import { applyFormatting, captureFormatting } from './format';
+
+/** Range properties loaded for every block of a captured area */
+const CAPTURE_PROPERTIES = ['values', 'formulas', 'formulasR1C1'] as const;
+
+/** Extra properties loaded with the `display` option */
+const DISPLAY_PROPERTIES = ['text', 'numberFormat'] as const;
+
+/** Cells loaded or written per sync when no chunkRows is given — keeps requests under Office.js payload limits */
+const DEFAULT_CHUNK_CELLS = 50000;
+
+type GridProperty = typeof CAPTURE_PROPERTIES[number] | typeof DISPLAY_PROPERTIES[number] | 'valueTypes';
 
 /**
  * Capture the current selection as a CapturedRange object.
+ * Non-contiguous (Ctrl-click) selections are captured area by area, and
+ * large areas in blocks of rows (see ChunkOptions).
  * Must be called within Excel.run().
- * 
+ *
  * @param context - Excel RequestContext from Excel.run()
+ * @param options - Capture options (formatting, display text and number formats, value types)
  * @returns Promise<CapturedRange> - The captured range data
- * 
+ *
  * @example
  * await Excel.run(async (context) => {
  *   const captured = await captureSelection(context);
  *   console.log(captured.address, captured.values);
+ *
+ *   // Number formats, styles, merges, sizes, comments and validation too
+ *   const full = await captureSelection(context, { formatting: true });
+ *
+ *   // A big ledger, 10,000 rows per sync, with progress and a Stop button
+ *   const ledger = await captureSelection(context, {
+ *     chunkRows: 10000,
+ *     onProgress: ({ completedRows, totalRows }) => console.log(`${completedRows}/${totalRows}`),
+ *     signal: stopController.signal,
+ *   });
  * });
  */
-export async function captureSelection(context: Excel.RequestContext): Promise<CapturedRange> {
-  const range = context.workbook.getSelectedRange();
+export async function captureSelection(
+  context: Excel.RequestContext,
+  options: CaptureOptions = {}
+): Promise<CapturedRange> {
+  const selection = context.workbook.getSelectedRanges();
   const sheet = context.workbook.worksheets.getActiveWorksheet();
-  
-  range.load(['address', 'values', 'formulas', 'rowCount', 'columnCount']);
+
+  selection.load('address');
+  selection.areas.load('address');
   sheet.load('name');
-  
+
   await context.sync();
-  
-  // Extract just the cell reference (remove sheet name prefix)
-  const addressOnly = range.address.includes('!')
-    ? range.address.split('!')[1]
-    : range.address;
-  
-  return {
-    address: addressOnly,
-    sourceSheet: sheet.name,
-    values: range.values,
-    formulas: range.formulas,
-    rowCount: range.rowCount,
-    columnCount: range.columnCount,
-  };
+
+  const areas = await loadAreas(context, sheet, selection.areas.items.map(area => area.address), options);
+  return captureFormatting(context, toCapturedRange(selection.address, sheet.name, areas), options.formatting ?? false);
 }
 
 /**
- * Capture a specific range by address.
+ * Capture a specific range by address or defined name.
  * Must be called within Excel.run().
- * 
+ *
  * @param context - Excel RequestContext
- * @param address - Cell address (e.g., "A1:C10")
- * @param sheetName - Optional sheet name (defaults to active sheet)
+ * @param address - Cell address (e.g., "A1:C10" or "A1:A5,C1:C5") or a defined name (e.g., "Revenue")
+ * @param sheetName - Optional sheet name (defaults to active sheet; for names, checked for a sheet-scoped name first)
+ * @param options - Capture options (e.g., formatting)
  * @returns Promise<CapturedRange>
  */
 export async function captureRange(
   context: Excel.RequestContext,
   address: string,
-  sheetName?: string
+  sheetName?: string,
+  options: CaptureOptions = {}
 ): Promise<CapturedRange> {
+  if (!isA1Address(address)) {
+    return captureNamedRange(context, address, sheetName, options);
+  }
+
   const sheet = sheetName
     ? context.workbook.worksheets.getItem(sheetName)
     : context.workbook.worksheets.getActiveWorksheet();
-  
-  const range = sheet.getRange(address);
-  
-  range.load(['address', 'values', 'formulas', 'rowCount', 'columnCount']);
+
   sheet.load('name');
-  
+
+  if (address.includes(',')) {
+    const ranges = sheet.getRanges(address);
+    ranges.load('address');
+    ranges.areas.load('address');
+    await context.sync();
+    const areas = await loadAreas(context, sheet, ranges.areas.items.map(area => area.address), options);
+    return captureFormatting(context, toCapturedRange(ranges.address, sheet.name, areas), options.formatting ?? false);
+  }
+
+  const range = sheet.getRange(address);
+  range.load('address');
+
   await context.sync();
-  
-  const addressOnly = range.address.includes('!')
-    ? range.address.split('!')[1]
-    : range.address;
-  
-  return {
-    address: addressOnly,
-    sourceSheet: sheet.name,
-    values: range.values,
-    formulas: range.formulas,
-    rowCount: range.rowCount,
-    columnCount: range.columnCount,
-  };
+
+  const areas = await loadAreas(context, sheet, [range.address], options);
+  return captureFormatting(context, toCapturedRange(range.address, sheet.name, areas), options.formatting ?? false);
+}
+
+/**
+ * Capture the range a defined name refers to.
+ * Sheet-scoped names on `sheetName` win over workbook-scoped ones.
+ * Must be called within Excel.run().
+ *
+ * @param context - Excel RequestContext
+ * @param name - Defined name (e.g., "Revenue")
+ * @param sheetName - Optional sheet to look for a sheet-scoped name on
+ * @param options - Capture options (e.g., formatting)
+ * @returns Promise<CapturedRange> - sourceSheet is the sheet the name points to
+ */
+export async function captureNamedRange(
+  context: Excel.RequestContext,
+  name: string,
+  sheetName?: string,
+  options: CaptureOptions = {}
+): Promise<CapturedRange> {
+  const scoped = sheetName
+    ? context.workbook.worksheets.getItem(sheetName).names.getItemOrNullObject(name)
+    : null;
+  const global = context.workbook.names.getItemOrNullObject(name);
+
+  scoped?.load('name');
+  global.load('name');
+  await context.sync();
+
+  const found = scoped && !scoped.isNullObject ? scoped : global;
+  if (found.isNullObject) {
+    throw new Error(`Named range not found: ${name}`);
+  }
+
+  const range = found.getRangeOrNullObject();
+  range.load('address');
+  range.worksheet.load('name');
+  await context.sync();
+
+  if (range.isNullObject) {
+    throw new Error(`Name does not refer to a range: ${name}`);
+  }
+
+  const areas = await loadAreas(context, range.worksheet, [range.address], options);
+  return captureFormatting(context, toCapturedRange(range.address, range.worksheet.name, areas), options.formatting ?? false);
 }
 
 /**
  * Paste captured range data to a target location.
+ * Each area lands at its own position; with a target address, all areas
+ * shift together so the capture's top-left corner lands on the target's.
+ * By default relative references shift with the paste, like Excel's copy/paste,
+ * and any formatting captured with the range is carried over. Large areas
+ * are written in blocks of rows, one sync each (see ChunkOptions); a
+ * cancelled paste leaves the blocks already written in place.
  * Must be called within Excel.run().
- * 
+ *
  * @param context - Excel RequestContext
  * @param captured - Previously captured range data
  * @param targetSheet - Target worksheet
  * @param targetAddress - Address to paste to (defaults to captured.address)
- * @param valuesOnly - If true, paste values only (no formulas)
+ * @param options - Paste options, or `true` for values only
+ *
+ * @example
+ * // =A1*2 captured at B1 and pasted at E1 becomes =D1*2
+ * await pasteRange(context, captured, sheet, 'E1');
+ * // Keep =A1*2 exactly as typed
+ * await pasteRange(context, captured, sheet, 'E1', { mode: 'asTyped' });
+ * // Carry number formats and column widths, nothing else
+ * await pasteRange(context, captured, sheet, 'E1', { formatting: { numberFormats: true, dimensions: true } });
  */
 export async function pasteRange(
   context: Excel.RequestContext,
   captured: CapturedRange,
   targetSheet: Excel.Worksheet,
   targetAddress?: string,
-  valuesOnly: boolean = false
+  options: PasteOptions | boolean = {}
 ): Promise<void> {
-  const address = targetAddress || captured.address;
-  const range = targetSheet.getRange(address);
-  
-  if (valuesOnly) {
-    range.values = captured.values;
-  } else {
-    // Paste formulas — Excel will paste values where there's no formula
-    range.formulas = captured.formulas;
+  const opts: PasteOptions = typeof options === 'boolean' ? { valuesOnly: options } : options;
+  const mode = resolvePasteMode(opts);
+  const { rowOffset, columnOffset } = getPasteOffset(captured, targetAddress ?? opts.targetAddress);
+  const progress = trackChunks('paste', captured.areas.reduce((sum, area) => sum + area.rowCount, 0), opts);
+
+  for (const area of captured.areas) {
+    const bounds = parseRangeAddress(area.address);
+    const target = parseRangeAddress(offsetAddress(area.address, rowOffset, columnOffset));
+    // R1C1 is position-independent, so relative references follow the paste
+    const r1c1 = mode === 'shiftRelative' ? area.formulasR1C1 ?? toAreaR1C1(area, bounds) : [];
+
+    for (const [first, last] of getRowBlocks(area.rowCount, area.columnCount, opts.chunkRows)) {
+      progress.throwIfCancelled();
+      const range = targetSheet.getRange(toRangeAddress({
+        ...target,
+        startRow: target.startRow + first,
+        endRow: target.startRow + last,
+      }));
+
+      if (mode === 'valuesOnly') {
+        range.values = area.values.slice(first, last + 1);
+      } else if (mode === 'asTyped') {
+        // Paste formulas — Excel will paste values where there's no formula
+        range.formulas = area.formulas.slice(first, last + 1);
+      } else {
+        range.formulasR1C1 = r1c1.slice(first, last + 1);
+      }
+
+      await context.sync();
+      progress.add(last - first + 1);
+    }
+
+    applyFormatting(targetSheet, area, rowOffset, columnOffset, opts.formatting ?? true);
   }
-  
+
   await context.sync();
 }
+
+/**
+ * Every cell address a paste will write to, area by area.
+ * Pure helper — does not need Excel.run().
+ *
+ * @param captured - Previously captured range data
+ * @param targetAddress - Address the paste targets (defaults to captured.address)
+ * @returns string - Comma-separated areas (e.g., "E1:F2,E4")
+ */
+export function getPasteAddress(captured: CapturedRange, targetAddress?: string): string {
+  const { rowOffset, columnOffset } = getPasteOffset(captured, targetAddress);
+  return captured.areas.map(area => offsetAddress(area.address, rowOffset, columnOffset)).join(',');
+}
+
+/**
+ * Work out the paste mode from options (`valuesOnly` wins for compatibility).
+ */
+export function resolvePasteMode(options: PasteOptions = {}): PasteMode {
+  if (options.valuesOnly) {
+    return 'valuesOnly';
+  }
+  return options.mode ?? 'shiftRelative';
+}
+
+/**
+ * Flatten a CapturedRange into individual cells with absolute references.
+ * Pure helper — does not need Excel.run().
+ *
+ * @param captured - Previously captured range data
+ * @returns CapturedCell[] - One entry per cell, area by area, row by row
+ */
+export function getCapturedCells(captured: CapturedRange): CapturedCell[] {
+  const cells: CapturedCell[] = [];
+
+  for (const area of captured.areas) {
+    const bounds = parseRangeAddress(area.address);
+
+    for (let row = 0; row < area.rowCount; row++) {
+      for (let col = 0; col < area.columnCount; col++) {
+        const rowNum = bounds.startRow + row;
+        const colNum = bounds.startColumn + col;
+        cells.push({
+          ref: toCellRef(rowNum, colNum),
+          row: rowNum,
+          column: colNum,
+          value: area.values[row][col],
+          formula: area.formulas[row][col],
+          ...(area.text && { text: area.text[row][col] }),
+          ...(area.numberFormat && { numberFormat: area.numberFormat[row][col] }),
+          ...(area.valueTypes && { valueType: area.valueTypes[row][col] }),
+        });
+      }
+    }
+  }
+
+  return cells;
+}
+
+/**
+ * Total number of cells across all areas of a CapturedRange.
+ */
+export function getCapturedCellCount(captured: CapturedRange): number {
+  return captured.areas.reduce((sum, area) => sum + area.rowCount * area.columnCount, 0);
+}
+
+/**
+ * Load the grids of each area in blocks of rows, one sync per block.
+ *
+ * @param sheet - Worksheet the areas are on
+ * @param addresses - Area addresses (sheet prefix allowed)
+ */
+async function loadAreas(
+  context: Excel.RequestContext,
+  sheet: Excel.Worksheet,
+  addresses: string[],
+  options: CaptureOptions
+): Promise<CapturedArea[]> {
+  const properties: GridProperty[] = [
+    ...CAPTURE_PROPERTIES,
+    ...(options.display ? DISPLAY_PROPERTIES : []),
+    ...(options.valueTypes ? ['valueTypes' as const] : []),
+  ];
+  const bounds = addresses.map(address => parseRangeAddress(address));
+  const progress = trackChunks('capture', bounds.reduce((sum, b) => sum + b.endRow - b.startRow + 1, 0), options);
+
+  const areas: CapturedArea[] = [];
+  for (const [index, area] of bounds.entries()) {
+    const rowCount = area.endRow - area.startRow + 1;
+    const columnCount = area.endColumn - area.startColumn + 1;
+    const grids = Object.fromEntries(properties.map(property => [property, [] as unknown[][]]));
+
+    for (const [first, last] of getRowBlocks(rowCount, columnCount, options.chunkRows)) {
+      progress.throwIfCancelled();
+      const block = sheet.getRange(toRangeAddress({
+        ...area,
+        startRow: area.startRow + first,
+        endRow: area.startRow + last,
+      }));
+      block.load(properties);
+      await context.sync();
+
+      for (const property of properties) {
+        // Row by row — spreading a 50,000-row block into push() can overflow the stack
+        for (const row of block[property] as unknown[][]) {
+          grids[property].push(row);
+        }
+      }
+      progress.add(last - first + 1);
+    }
+
+    areas.push({
+      address: stripSheetName(addresses[index]),
+      ...grids as Pick<CapturedArea, 'values' | 'formulas'>,
+      rowCount,
+      columnCount,
+    });
+  }
+  return areas;
+}
+
+/**
+ * Split an area's rows into blocks: [first, last] row indexes, inclusive.
+ * Without chunkRows, each block holds as many rows as fit in DEFAULT_CHUNK_CELLS.
+ */
+function getRowBlocks(rowCount: number, columnCount: number, chunkRows?: number): [number, number][] {
+  if (chunkRows !== undefined && !(Number.isInteger(chunkRows) && chunkRows > 0)) {
+    throw new Error(`chunkRows must be a positive whole number, got ${chunkRows}`);
+  }
+  const size = chunkRows ?? Math.max(1, Math.floor(DEFAULT_CHUNK_CELLS / Math.max(1, columnCount)));
+  const blocks: [number, number][] = [];
+  for (let first = 0; first < rowCount; first += size) {
+    blocks.push([first, Math.min(rowCount, first + size) - 1]);
+  }
+  return blocks;
+}
+
+/**
+ * Count rows through a chunked capture or paste: report progress after each
+ * block, and stop before the next one once the signal aborts.
+ */
+function trackChunks(phase: ChunkProgress['phase'], totalRows: number, options: ChunkOptions) {
+  let completedRows = 0;
+  return {
+    throwIfCancelled(): void {
+      if (options.signal?.aborted) {
+        throw new Error(`Cancelled after ${completedRows} of ${totalRows} rows`);
+      }
+    },
+    add(rows: number): void {
+      completedRows += rows;
+      options.onProgress?.({ phase, completedRows, totalRows });
+    },
+  };
+}
+
+/**
+ * Build a CapturedRange from its loaded areas.
+ */
+function toCapturedRange(address: string, sourceSheet: string, areas: CapturedArea[]): CapturedRange {
+  return {
+    ...areas[0],
+    address: splitAreas(address).map(stripSheetName).join(','),
+    sourceSheet,
+    areas,
+  };
+}
+
+/**
+ * R1C1 formulas for an area captured without them (built from the A1 text).
+ */
+function toAreaR1C1(area: CapturedArea, bounds: RangeBounds): string[][] {
+  return area.formulas.map((row, i) =>
+    row.map((formula, j) =>
+      isFormula(formula) ? toR1C1(formula, bounds.startRow + i, bounds.startColumn + j) : formula
+    )
+  );
+}
+
+/**
+ * Rows and columns between a capture and where it will be pasted
+ * (its top-left corner lands on the target's).
+ */
+function getPasteOffset(captured: CapturedRange, targetAddress?: string) {
+  const origin = getTopLeft(captured.address);
+  const target = targetAddress ? getTopLeft(targetAddress) : origin;
+  return {
+    rowOffset: target.startRow - origin.startRow,
+    columnOffset: target.startColumn - origin.startColumn,
+  };
+}
+
+/**
+ * Top-left corner across every area of an address.
+ */
+function getTopLeft(address: string): Pick<RangeBounds, 'startRow' | 'startColumn'> {
+  const bounds = splitAreas(address).map(area => parseRangeAddress(area));
+  return {
+    startRow: Math.min(...bounds.map(b => b.startRow)),
+    startColumn: Math.min(...bounds.map(b => b.startColumn)),
+  };
+}
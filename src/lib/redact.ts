@@ -0,0 +1,397 @@
+/**
+ * Draftworx Automation Library - Redaction
+ *
+ * Replace names, ID numbers, bank details and the like with stable
+ * placeholders before a payload is copied or sent, and map placeholders in
+ * the AI's reply back to the original text. Each workbook's mapping is kept
+ * in the storage passed in.
+ * Pure functions — usable from the task pane or any script.
+ */
+
+import { CellData, ContextPayload, DependencyNode, RedactionMap, RedactionRule, WorkbookOverview } from './types';
+import { parseCellRef } from './address';
+
+/**
+ * Result of redacting a payload or overview
+ */
+export interface RedactionResult<T> {
+  /** Copy with sensitive values replaced by placeholders */
+  redacted: T;
+  /** The mapping passed in plus any placeholders added */
+  map: RedactionMap;
+  /** Number of values and matches replaced */
+  count: number;
+}
+
+/** A placeholder as it appears in text (e.g., "[ACCOUNT-12]") */
+const PLACEHOLDER = /\[[A-Z0-9_]+-\d+\]/g;
+
+/** Key prefix for stored placeholder mappings (followed by the workbook key) */
+const MAP_PREFIX = 'draftworx.redaction.';
+
+/** Storage the placeholder mappings are kept in (localStorage in the add-in) */
+export type RedactionMapStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+type CellValue = CellData['value'];
+
+/**
+ * Parse redaction rules from JSON (an array of rules).
+ * Pure helper — does not need Excel.run().
+ *
+ * @param text - JSON text
+ * @returns RedactionRule[]
+ * @throws Error listing every problem, one per line
+ *
+ * @example
+ * parseRedactionRules('[{ "label": "ID", "pattern": "\\\\b\\\\d{13}\\\\b" }, { "label": "NAME", "headers": ["Client"] }]');
+ */
+export function parseRedactionRules(text: string): RedactionRule[] {
+  let rules: unknown;
+  try {
+    rules = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Redaction rules are not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!Array.isArray(rules)) {
+    throw new Error('Redaction rules must be a JSON array');
+  }
+  const errors = validateRedactionRules(rules);
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+  return rules;
+}
+
+/**
+ * Check redaction rules: a usable label, something to match, and a pattern
+ * that compiles and can't match empty text.
+ * Pure helper — does not need Excel.run().
+ *
+ * @returns string[] - One message per problem (empty when valid)
+ */
+export function validateRedactionRules(rules: RedactionRule[]): string[] {
+  const errors: string[] = [];
+  rules.forEach((rule, index) => {
+    const label = `Rule ${index + 1}`;
+    if (typeof rule?.label !== 'string' || !/^[A-Za-z0-9_]+$/.test(rule.label)) {
+      errors.push(`${label}: label must be letters, digits or underscores`);
+      return;
+    }
+    if (rule.pattern === undefined && !rule.headers?.length && !rule.sheets?.length) {
+      errors.push(`${label} (${rule.label}): give a pattern, headers or sheets`);
+    }
+    if (rule.pattern !== undefined) {
+      try {
+        if (new RegExp(rule.pattern).test('')) {
+          errors.push(`${label} (${rule.label}): pattern must not match empty text`);
+        }
+      } catch (error) {
+        errors.push(`${label} (${rule.label}): ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    for (const key of ['headers', 'sheets'] as const) {
+      const list = rule[key];
+      if (list !== undefined && !(Array.isArray(list) && list.every(item => typeof item === 'string'))) {
+        errors.push(`${label} (${rule.label}): ${key} must be a list of text`);
+      }
+    }
+  });
+  return errors;
+}
+
+/**
+ * Replace sensitive values in a context payload.
+ * Sheet rules replace every value on the sheet; header rules replace the
+ * values below a matching header cell (or in a matching table column),
+ * dependency nodes for those cells included. The header can be a captured
+ * cell or one of the payload's `columnHeaders`, looked up on the sheet;
+ * patterns replace matches inside any remaining value, formula, dependency
+ * node, diff or named-range value. Placeholders already in the mapping are
+ * reused, so the same text gets the same placeholder across payloads.
+ * Pure helper — does not need Excel.run().
+ *
+ * @param payload - Context payload to redact
+ * @param rules - Redaction rules
+ * @param map - Mapping from earlier redactions (not modified)
+ * @returns RedactionResult<ContextPayload>
+ *
+ * @example
+ * const { redacted, map } = redactPayload(payload, [{ label: 'NAME', headers: ['Client'] }], savedMap);
+ * const reply = await askModel(serializeContext(redacted));
+ * console.log(restorePlaceholders(reply, map));
+ */
+export function redactPayload(
+  payload: ContextPayload,
+  rules: RedactionRule[],
+  map: RedactionMap = {}
+): RedactionResult<ContextPayload> {
+  const redactor = createRedactor(rules, map);
+  const sheetLabel = redactor.sheetLabel(payload.sheet);
+
+  // The topmost matching header in each column redacts the cells below it
+  const headers = new Map<number, { row: number; label: string }>();
+  for (const cell of payload.cells) {
+    const label = typeof cell.value === 'string' ? redactor.headerLabel(cell.value) : undefined;
+    if (!label) {
+      continue;
+    }
+    const { row, column } = parseCellRef(cell.ref);
+    const existing = headers.get(column);
+    if (!existing || row < existing.row) {
+      headers.set(column, { row, label });
+    }
+  }
+  // Otherwise the nearest header found on the sheet above the cell (see findColumnHeaders)
+  const sheetHeaderFor = (sheet: string, row: number, column: number) => (payload.columnHeaders ?? [])
+    .map(header => ({ ...header, ...parseCellRef(header.ref) }))
+    .filter(header => header.sheet === sheet && header.column === column && header.row < row
+      && (header.lastRow === undefined || row <= header.lastRow))
+    .sort((a, b) => b.row - a.row)[0];
+  const labelFor = (sheet: string, ref: string) => {
+    const fixed = redactor.sheetLabel(sheet);
+    if (fixed) {
+      return fixed;
+    }
+    const { row, column } = parseCellRef(ref);
+    const selected = sheet === payload.sheet ? headers.get(column) : undefined;
+    if (selected && row > selected.row) {
+      return selected.label;
+    }
+    const found = sheetHeaderFor(sheet, row, column);
+    return found && redactor.headerLabel(found.text);
+  };
+  const redactCell = <C extends Pick<CellData, 'value' | 'formula' | 'text'>>(cell: C, label: string | undefined): C => ({
+    ...cell,
+    value: redactor.value(cell.value, label),
+    formula: cell.formula && redactor.text(cell.formula),
+    ...(cell.text !== undefined && { text: String(redactor.value(cell.text, label)) }),
+  });
+
+  const redacted: ContextPayload = {
+    ...payload,
+    cells: payload.cells.map(cell => redactCell(cell, labelFor(payload.sheet, cell.ref))),
+  };
+  delete redacted.columnHeaders;
+
+  if (payload.table) {
+    const { table } = payload;
+    redacted.table = {
+      ...table,
+      records: table.records.map(record => Object.fromEntries(table.columns.map(column => [
+        column.name,
+        redactor.value(record[column.name], sheetLabel ?? redactor.headerLabel(column.name)),
+      ]))),
+      ...(table.formulas && { formulas: mapValues(table.formulas, formula => redactor.text(formula)) }),
+    };
+  }
+  if (payload.dependencies) {
+    redacted.dependencies = {
+      ...payload.dependencies,
+      nodes: payload.dependencies.nodes.map(node => redactNode(
+        node,
+        redactor,
+        // Cells get the same placeholder as in `cells`
+        node.address.includes(':') ? undefined : labelFor(node.sheet, node.address)
+      )),
+    };
+  }
+  if (payload.diff) {
+    redacted.diff = {
+      ...payload.diff,
+      changes: payload.diff.changes.map(change => ({
+        ...change,
+        before: redactCell(change.before, labelFor(payload.sheet, change.ref)),
+        after: redactCell(change.after, labelFor(payload.sheet, change.ref)),
+      })),
+    };
+  }
+  if (payload.names) {
+    redacted.names = payload.names.map(info => ({
+      ...info,
+      definition: redactor.text(info.definition),
+      ...(info.value !== undefined && { value: redactNested(info.value, redactor) }),
+    }));
+  }
+  if (payload.formulaRegions) {
+    redacted.formulaRegions = payload.formulaRegions.map(region => ({
+      ...region,
+      formula: redactor.text(region.formula),
+    }));
+  }
+
+  return { redacted, ...redactor.result() };
+}
+
+/**
+ * Replace sensitive values in a workbook overview's previews and names.
+ * The first preview row is taken as the headers for header rules.
+ * Pure helper — does not need Excel.run().
+ *
+ * @param overview - Overview from captureWorkbookOverview
+ * @param rules - Redaction rules
+ * @param map - Mapping from earlier redactions (not modified)
+ * @returns RedactionResult<WorkbookOverview>
+ */
+export function redactOverview(
+  overview: WorkbookOverview,
+  rules: RedactionRule[],
+  map: RedactionMap = {}
+): RedactionResult<WorkbookOverview> {
+  const redactor = createRedactor(rules, map);
+
+  const redacted: WorkbookOverview = {
+    ...overview,
+    sheets: overview.sheets.map(sheet => {
+      if (!sheet.preview) {
+        return sheet;
+      }
+      const sheetLabel = redactor.sheetLabel(sheet.name);
+      const labels = (sheet.preview[0] ?? []).map(header =>
+        typeof header === 'string' ? redactor.headerLabel(header) : undefined
+      );
+      return {
+        ...sheet,
+        preview: sheet.preview.map((row, index) => row.map((value, column) =>
+          redactor.value(value, sheetLabel ?? (index > 0 ? labels[column] : undefined))
+        )),
+      };
+    }),
+    names: overview.names.map(name => ({ ...name, definition: redactor.text(name.definition) })),
+  };
+
+  return { redacted, ...redactor.result() };
+}
+
+/**
+ * Put the original text back in place of every known placeholder
+ * (e.g., in an AI reply to a redacted payload). Unknown placeholders are left as they are.
+ * Pure helper — does not need Excel.run().
+ *
+ * @example
+ * restorePlaceholders('Check the balance for [NAME-1]', { '[NAME-1]': 'J. Smith' });
+ * // 'Check the balance for J. Smith'
+ */
+export function restorePlaceholders(text: string, map: RedactionMap): string {
+  return text.replace(PLACEHOLDER, placeholder => map[placeholder] ?? placeholder);
+}
+
+/**
+ * The stored placeholder mapping for a workbook (empty when there is none).
+ * The task pane, ribbon commands and worksheet functions share it, so a
+ * placeholder means the same text wherever it was handed out.
+ *
+ * @example
+ * const { redacted, map } = redactPayload(payload, rules, loadRedactionMap(localStorage, getWorkbookKey()));
+ * saveRedactionMap(localStorage, getWorkbookKey(), map);
+ */
+export function loadRedactionMap(storage: RedactionMapStorage, workbookKey: string): RedactionMap {
+  try {
+    const stored = JSON.parse(storage.getItem(MAP_PREFIX + workbookKey) ?? '{}');
+    return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Store a workbook's placeholder mapping, replacing what was there.
+ */
+export function saveRedactionMap(storage: RedactionMapStorage, workbookKey: string, map: RedactionMap): void {
+  storage.setItem(MAP_PREFIX + workbookKey, JSON.stringify(map));
+}
+
+/**
+ * Forget a workbook's placeholder mapping (replies can no longer be restored).
+ */
+export function clearRedactionMap(storage: RedactionMapStorage, workbookKey: string): void {
+  storage.removeItem(MAP_PREFIX + workbookKey);
+}
+
+type Redactor = ReturnType<typeof createRedactor>;
+
+/**
+ * Compile the rules and hand out placeholders, continuing the numbering of
+ * the mapping passed in.
+ */
+function createRedactor(rules: RedactionRule[], map: RedactionMap) {
+  const mapping: RedactionMap = { ...map };
+  const known = new Map<string, string>();
+  const counters = new Map<string, number>();
+  let count = 0;
+
+  for (const [placeholder, original] of Object.entries(map)) {
+    const label = placeholder.slice(1, placeholder.lastIndexOf('-'));
+    const number = parseInt(placeholder.slice(placeholder.lastIndexOf('-') + 1), 10);
+    known.set(`${label}\n${original}`, placeholder);
+    counters.set(label, Math.max(counters.get(label) ?? 0, number));
+  }
+
+  const patterns = rules
+    .filter(rule => rule.pattern !== undefined)
+    .map(rule => ({ label: rule.label.toUpperCase(), regex: new RegExp(rule.pattern!, 'g') }));
+  const match = (key: 'headers' | 'sheets', name: string) => {
+    const wanted = name.trim().toLowerCase();
+    return rules.find(rule => rule[key]?.some(item => item.trim().toLowerCase() === wanted))?.label.toUpperCase();
+  };
+
+  const placeholderFor = (label: string, original: string) => {
+    count++;
+    const key = `${label}\n${original}`;
+    let placeholder = known.get(key);
+    if (!placeholder) {
+      const number = (counters.get(label) ?? 0) + 1;
+      counters.set(label, number);
+      placeholder = `[${label}-${number}]`;
+      known.set(key, placeholder);
+      mapping[placeholder] = original;
+    }
+    return placeholder;
+  };
+
+  // Placeholders already in the text are skipped so later patterns can't match inside them
+  const text = (input: string) => patterns.reduce((current, { label, regex }) =>
+    current.split(/(\[[A-Z0-9_]+-\d+\])/).map((part, index) =>
+      index % 2 === 1 ? part : part.replace(regex, found => placeholderFor(label, found))
+    ).join(''), input);
+
+  return {
+    text,
+    /** Replace the whole value when a label applies, otherwise pattern matches within it */
+    value(value: CellValue, label?: string): CellValue {
+      if (value === null || value === '' || typeof value === 'boolean') {
+        return value;
+      }
+      if (label) {
+        return placeholderFor(label.toUpperCase(), String(value));
+      }
+      const redacted = text(String(value));
+      return redacted === String(value) ? value : redacted;
+    },
+    sheetLabel: (sheet: string) => match('sheets', sheet),
+    headerLabel: (header: string) => match('headers', header),
+    result: () => ({ map: mapping, count }),
+  };
+}
+
+function redactNode(node: DependencyNode, redactor: Redactor, cellLabel?: string): DependencyNode {
+  const label = cellLabel ?? redactor.sheetLabel(node.sheet);
+  return {
+    ...node,
+    ...(node.value !== undefined && { value: redactor.value(node.value, label) }),
+    ...(node.formula !== undefined && { formula: redactor.text(node.formula) }),
+  };
+}
+
+/**
+ * Redact a named-range value: a scalar or a 2D array of them.
+ */
+function redactNested(value: unknown, redactor: Redactor): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => redactNested(item, redactor));
+  }
+  return typeof value === 'string' || typeof value === 'number' ? redactor.value(value) : value;
+}
+
+function mapValues(record: Record<string, string>, fn: (value: string) => string): Record<string, string> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, fn(value)]));
+}
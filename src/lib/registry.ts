@@ -0,0 +1,235 @@
+/**
+ * Draftworx Automation Library - Automation Registry
+ *
+ * Automations declare their id, label, options and run function here, and
+ * UIs (the task pane, ribbon commands) are generated from the registry
+ * instead of being wired up by hand.
+ */
+
+import { AutomationDefinition, AutomationResult, OptionSpec, PasteMode, ResultNotice } from './types';
+import { getCapturedCellCount } from './range';
+import {
+  copySelectionToNewSheet,
+  CopyToNewSheetOptions,
+  CopyToNewSheetResult,
+  duplicateSelection
+} from './automations';
+
+const PASTE_MODE_OPTION: OptionSpec = {
+  type: 'select',
+  label: 'Paste',
+  choices: ['shiftRelative', 'asTyped', 'valuesOnly'],
+  choiceLabels: {
+    shiftRelative: 'Formulas (shift relative refs)',
+    asTyped: 'Formulas exactly as typed',
+    valuesOnly: 'Values only (strip formulas)',
+  },
+  default: 'shiftRelative',
+};
+
+const registry = new Map<string, AutomationDefinition>();
+
+/** What is running now — the task pane and the ribbon commands share one runtime, so one flag */
+let running: string | null = null;
+
+/**
+ * Add an automation to the registry.
+ *
+ * @param definition - Automation id, label, options and run function
+ * @throws Error if the id is already registered
+ *
+ * @example
+ * registerAutomation({
+ *   id: 'backupSelection',
+ *   label: '💾 Back up selection',
+ *   options: { sheetName: { type: 'string', label: 'Sheet name', default: 'Backup' } },
+ *   run: (options) => copySelectionToNewSheet({ sheetName: options.sheetName, activateNewSheet: false }),
+ * });
+ */
+export function registerAutomation<O extends object, R>(definition: AutomationDefinition<O, R>): void {
+  if (registry.has(definition.id)) {
+    throw new Error(`Automation already registered: ${definition.id}`);
+  }
+  registry.set(definition.id, defineAutomation(definition));
+}
+
+/**
+ * Wrap a typed definition for the registry, which holds automations of every
+ * option and result type. Option values reach `run` as the typed options —
+ * UIs check them against the specs with validateOptions() first.
+ */
+function defineAutomation<O extends object, R>(definition: AutomationDefinition<O, R>): AutomationDefinition {
+  const { options, run, describeResult } = definition;
+  return {
+    id: definition.id,
+    label: definition.label,
+    description: definition.description,
+    options,
+    run: (values, control) => run(values as O, control),
+    describeResult: describeResult && (data => describeResult(data as R)),
+  };
+}
+
+/**
+ * Every registered automation, in registration order.
+ */
+export function getAutomations(): AutomationDefinition[] {
+  return [...registry.values()];
+}
+
+/**
+ * A registered automation by id, or undefined.
+ */
+export function getAutomation(id: string): AutomationDefinition | undefined {
+  return registry.get(id);
+}
+
+/**
+ * Run work that changes the workbook, one at a time across the task pane and
+ * the ribbon commands. A second run is refused rather than queued, so the
+ * user sees why nothing happened.
+ *
+ * @param label - What is running, for the refusal message (e.g., the automation's label)
+ * @param work - The run
+ * @returns Promise<T> - What the work returned
+ * @throws Error naming what is still running when the flag is held
+ *
+ * @example
+ * const result = await runExclusive(automation.label, () => automation.run(options));
+ */
+export async function runExclusive<T>(label: string, work: () => Promise<T>): Promise<T> {
+  if (running !== null) {
+    throw new Error(`${running} is still running`);
+  }
+  running = label;
+  try {
+    return await work();
+  } finally {
+    running = null;
+  }
+}
+
+/**
+ * Option values an automation starts with (each option's default).
+ */
+export function getDefaultOptions(definition: AutomationDefinition): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const [name, spec] of Object.entries<OptionSpec | undefined>(definition.options)) {
+    if (spec?.default !== undefined) {
+      values[name] = spec.default;
+    }
+  }
+  return values;
+}
+
+/**
+ * Describe a run for the user: the automation's own message on success
+ * (or "<label> done"), the error otherwise. The task pane and the ribbon
+ * commands both report results through this.
+ * Pure helper — does not need Excel.run().
+ *
+ * @param definition - The automation that ran
+ * @param result - What it returned
+ * @returns ResultNotice
+ *
+ * @example
+ * const result = await automation.run(options);
+ * const { type, message } = describeAutomationResult(automation, result);
+ */
+export function describeAutomationResult<R>(
+  definition: Pick<AutomationDefinition<object, R>, 'label' | 'describeResult'>,
+  result: AutomationResult<R>
+): ResultNotice {
+  if (!result.success) {
+    return { type: 'error', message: result.error || 'Unknown error' };
+  }
+  return {
+    type: 'success',
+    message: result.data !== undefined && definition.describeResult
+      ? definition.describeResult(result.data)
+      : `${definition.label} done`,
+  };
+}
+
+/**
+ * Check option values against their specs.
+ * Pure helper — does not need Excel.run().
+ *
+ * @param specs - Option specs keyed by option name
+ * @param values - Values to check (undefined means not given)
+ * @returns string[] - One message per problem (empty when valid)
+ */
+export function validateOptions(
+  specs: Record<string, OptionSpec | undefined>,
+  values: Record<string, unknown>
+): string[] {
+  const errors: string[] = [];
+  for (const [name, spec] of Object.entries(specs)) {
+    if (!spec) {
+      continue;
+    }
+    const label = spec.label ?? name;
+    if (values[name] === undefined) {
+      if (spec.required) {
+        errors.push(`"${label}" is required`);
+      }
+      continue;
+    }
+    const problem = checkOption(values[name], spec);
+    if (problem) {
+      errors.push(`"${label}" ${problem}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Describe why a value doesn't fit its spec, or null when it does.
+ * "capture" values must be CapturedRange-like (have an `areas` list).
+ */
+export function checkOption(value: unknown, spec: OptionSpec): string | null {
+  switch (spec.type) {
+    case 'select':
+      return spec.choices?.includes(value as string) ? null : `must be one of ${spec.choices?.join(', ')}`;
+    case 'capture':
+      return typeof value === 'object' && value !== null && Array.isArray((value as { areas?: unknown }).areas)
+        ? null
+        : 'must be the output of a capture step';
+    default:
+      return typeof value === spec.type ? null : `must be a ${spec.type}`;
+  }
+}
+
+// ============================================================================
+// Built-in automations
+// ============================================================================
+
+registerAutomation<CopyToNewSheetOptions, CopyToNewSheetResult>({
+  id: 'copySelectionToNewSheet',
+  label: '📄 Copy Selection to New Sheet',
+  description: 'Paste the selection into the same cells of a new sheet',
+  options: {
+    sheetName: { type: 'string', label: 'Sheet name', description: 'Default: "Copy of <sheet>"' },
+    pasteMode: PASTE_MODE_OPTION,
+    formatting: {
+      type: 'boolean',
+      label: 'Keep formatting (number formats, styles, merges, sizes, comments, validation)',
+      default: true,
+    },
+    activateNewSheet: { type: 'boolean', label: 'Switch to the new sheet', default: true },
+  },
+  run: (options, control) => copySelectionToNewSheet({ ...options, ...control }),
+  describeResult: (data) => `Created "${data.newSheetName}" with ${getCapturedCellCount(data.captured)} cells`,
+});
+
+registerAutomation<{ targetAddress: string; mode?: PasteMode }, { sourceAddress: string; targetAddress: string }>({
+  id: 'duplicateSelection',
+  label: '⧉ Duplicate Selection',
+  description: 'Paste the selection elsewhere on the same sheet',
+  options: {
+    targetAddress: { type: 'string', label: 'Paste at', description: 'Top-left cell, e.g. "H1"', required: true },
+    mode: PASTE_MODE_OPTION,
+  },
+  run: (options) => duplicateSelection(options.targetAddress, { mode: options.mode }),
+  describeResult: (data) => `Duplicated ${data.sourceAddress} to ${data.targetAddress}`,
+});
@@ -0,0 +1,499 @@
+/**
+ * Draftworx Automation Library - Context Serializers
+ *
+ * Render a ContextPayload (or a workbook overview) as text for the AI.
+ * Pure functions — usable from the task pane or any script.
+ */
+
+import {
+  CellData,
+  ContextPayload,
+  ContextTable,
+  FormulaRegion,
+  NamedRangeInfo,
+  OutputFormat,
+  RangeBounds,
+  SheetOverview,
+  WorkbookOverview
+} from './types';
+import { boundsContain, getColumnLetter, parseCellRef, parseRangeAddress } from './address';
+
+/**
+ * Output formats with display labels, in picker order
+ */
+export const OUTPUT_FORMATS: { id: OutputFormat; label: string }[] = [
+  { id: 'json', label: 'Verbose JSON (one object per cell)' },
+  { id: 'compact', label: 'Compact JSON (grid + formulas)' },
+  { id: 'markdown', label: 'Markdown table' },
+  { id: 'csv', label: 'CSV' },
+  { id: 'tsv', label: 'TSV' },
+];
+
+/**
+ * One area of a payload laid out as a grid
+ */
+interface ContextGrid {
+  address: string;
+  bounds: RangeBounds;
+  values: CellData['value'][][];
+  /** Like values, with displayed text in place of the value where it differs */
+  display: CellData['value'][][];
+  /** Formula text keyed by cell ref (formula cells only) */
+  formulas: Record<string, string>;
+  /** Displayed text keyed by cell ref (only where it differs from the value) */
+  text: Record<string, string>;
+  /** Number formats keyed by cell ref (only where text is shown) */
+  numberFormats: Record<string, string>;
+  /** Refs of error cells (e.g., #REF!) */
+  errors: string[];
+  /** Row numbers that have at least one cell — truncation can leave gaps */
+  rows: number[];
+}
+
+/** Payload keys with their own rendering — everything else is an "extra" */
+const RENDERED_KEYS = new Set(['selection', 'sheet', 'timestamp', 'cells', 'areas', 'table', 'names', 'formulaRegions']);
+
+/**
+ * Serialize a context payload in the given format.
+ *
+ * @param payload - Context payload to render
+ * @param format - Output format (default: "json", the original verbose shape)
+ * @returns string
+ *
+ * @example
+ * const text = serializeContext(payload, 'markdown');
+ * await navigator.clipboard.writeText(text);
+ */
+export function serializeContext(payload: ContextPayload, format: OutputFormat = 'json'): string {
+  switch (format) {
+    case 'compact':
+      return toCompactJson(payload);
+    case 'markdown':
+      return toMarkdown(payload);
+    case 'csv':
+      return toDelimited(payload, ',');
+    case 'tsv':
+      return toDelimited(payload, '\t');
+    case 'json':
+    default:
+      return JSON.stringify(payload, null, 2);
+  }
+}
+
+/**
+ * Serialize a workbook overview in the given format.
+ * Markdown gives a sheet table plus each sheet's preview; CSV/TSV give one
+ * row per sheet (with the first preview row as "Headers"), then the names.
+ *
+ * @param overview - Overview from captureWorkbookOverview
+ * @param format - Output format (default: "json")
+ * @returns string
+ */
+export function serializeOverview(overview: WorkbookOverview, format: OutputFormat = 'json'): string {
+  switch (format) {
+    case 'compact':
+      return JSON.stringify(overview);
+    case 'markdown':
+      return overviewToMarkdown(overview);
+    case 'csv':
+      return overviewToDelimited(overview, ',');
+    case 'tsv':
+      return overviewToDelimited(overview, '\t');
+    case 'json':
+    default:
+      return JSON.stringify(overview, null, 2);
+  }
+}
+
+/**
+ * Compact JSON: one grid of values per area plus ref → formula, displayed
+ * text and number format maps, and the refs of error cells.
+ */
+function toCompactJson(payload: ContextPayload): string {
+  const { cells, areas, ...rest } = payload;
+  return JSON.stringify({
+    ...rest,
+    areas: toGrids(payload).map(grid => ({
+      address: grid.address,
+      grid: grid.rows.map(row => grid.values[row - grid.bounds.startRow]),
+      ...(hasGaps(grid) && { rows: grid.rows }),
+      ...(Object.keys(grid.formulas).length > 0 && { formulas: grid.formulas }),
+      ...(Object.keys(grid.text).length > 0 && { text: grid.text }),
+      ...(Object.keys(grid.numberFormats).length > 0 && { numberFormats: grid.numberFormats }),
+      ...(grid.errors.length > 0 && { errors: grid.errors }),
+    })),
+  });
+}
+
+/**
+ * Markdown: a table per area with column letters and row numbers as headers.
+ * Cells show their displayed text (e.g., a date rather than its serial number).
+ */
+function toMarkdown(payload: ContextPayload): string {
+  const sections: string[] = [];
+
+  if (payload.table) {
+    sections.push(tableToMarkdown(payload.sheet, payload.table));
+  }
+
+  // Areas fully covered by a table have no cells left to show
+  for (const grid of toGrids(payload).filter(g => g.rows.length > 0)) {
+    const lines: string[] = [`### ${payload.sheet}!${grid.address}`, ''];
+
+    const columns: string[] = [];
+    for (let col = grid.bounds.startColumn; col <= grid.bounds.endColumn; col++) {
+      columns.push(getColumnLetter(col));
+    }
+    lines.push(`|   | ${columns.join(' | ')} |`);
+    lines.push(`|---|${columns.map(() => '---').join('|')}|`);
+
+    grid.rows.forEach((row, index) => {
+      if (index > 0 && row !== grid.rows[index - 1] + 1) {
+        lines.push(`| … | ${columns.map(() => '…').join(' | ')} |`);
+      }
+      const cells = grid.display[row - grid.bounds.startRow].map(value => escapeMarkdown(formatValue(value)));
+      lines.push(`| ${row} | ${cells.join(' | ')} |`);
+    });
+
+    const formulas = Object.entries(grid.formulas);
+    if (formulas.length > 0) {
+      lines.push('', 'Formulas:');
+      for (const [ref, formula] of formulas) {
+        lines.push(`- ${ref}: \`${formula}\``);
+      }
+    }
+
+    sections.push(lines.join('\n'));
+  }
+
+  if (payload.formulaRegions?.length) {
+    sections.push(formulaRegionsToMarkdown(payload.formulaRegions));
+  }
+  if (payload.names?.length) {
+    sections.push(namesToMarkdown(payload.names));
+  }
+
+  sections.push(...renderExtras(payload));
+  return sections.join('\n\n');
+}
+
+/**
+ * Markdown list of formula regions, with the cells that break each pattern.
+ */
+function formulaRegionsToMarkdown(regions: FormulaRegion[]): string {
+  const lines = ['### Formula regions (R1C1)', ''];
+  for (const region of regions) {
+    let line = `- ${region.range}: \`${region.formula}\``;
+    if (region.inconsistent) {
+      line += ` — **breaks the pattern:** ${region.inconsistent.join(', ')}`;
+    }
+    lines.push(line);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Markdown list of defined names with their definitions and values.
+ */
+function namesToMarkdown(names: NamedRangeInfo[]): string {
+  const lines = ['### Named ranges', ''];
+  for (const info of names) {
+    let line = `- **${info.name}** (${info.scope}): \`${info.definition}\``;
+    if (info.value !== undefined) {
+      line += ` → ${JSON.stringify(info.value)}`;
+    } else if (info.truncated) {
+      line += ' → (too large to include)';
+    }
+    if (info.comment) {
+      line += ` — ${info.comment}`;
+    }
+    lines.push(line);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Markdown for a detected table: typed column headers, one row per record.
+ */
+function tableToMarkdown(sheet: string, table: ContextTable): string {
+  const title = table.name ? `Table ${table.name}` : 'Table';
+  const lines: string[] = [
+    `### ${title} (${sheet}!${table.address})`,
+    '',
+    `| Row | ${table.columns.map(c => `${escapeMarkdown(c.name)} (${c.type})`).join(' | ')} |`,
+    `|---|${table.columns.map(() => '---').join('|')}|`,
+  ];
+
+  table.records.forEach((record, index) => {
+    const cells = table.columns.map(c => escapeMarkdown(formatValue(record[c.name])));
+    const row = table.recordRows ? table.recordRows[index] : table.firstRow + index;
+    if (index > 0 && table.recordRows && row !== table.recordRows[index - 1] + 1) {
+      lines.push(`| … | ${table.columns.map(() => '…').join(' | ')} |`);
+    }
+    lines.push(`| ${row} | ${cells.join(' | ')} |`);
+  });
+
+  const formulas = Object.entries(table.formulas ?? {});
+  if (formulas.length > 0) {
+    lines.push('', 'Formulas:');
+    for (const [ref, formula] of formulas) {
+      lines.push(`- ${ref}: \`${formula}\``);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * CSV/TSV: displayed values per area. Multiple areas (or a table plus leftover
+ * cells) are separated by a blank line and labelled with their address.
+ * A detected table is written with its column names as the header row.
+ * Rows a budget sampled out leave a row of "…", and everything else in the
+ * payload (formula regions, names, omissions, dependencies…) follows as
+ * "#" comment lines.
+ */
+function toDelimited(payload: ContextPayload, delimiter: ',' | '\t'): string {
+  const grids = toGrids(payload).filter(g => g.rows.length > 0);
+  const escape = delimiter === ',' ? escapeCsv : escapeTsv;
+  const labelled = grids.length + (payload.table ? 1 : 0) > 1;
+  const blocks: string[] = [];
+
+  if (payload.table) {
+    const { table } = payload;
+    const gap = table.columns.map(() => '…').join(delimiter);
+    const rows = [table.columns.map(c => escape(c.name)).join(delimiter)];
+    table.records.forEach((record, index) => {
+      if (index > 0 && table.recordRows && table.recordRows[index] !== table.recordRows[index - 1] + 1) {
+        rows.push(gap);
+      }
+      rows.push(table.columns.map(c => escape(formatValue(record[c.name]))).join(delimiter));
+    });
+    blocks.push((labelled ? [`${payload.sheet}!${table.address}`, ...rows] : rows).join('\n'));
+  }
+
+  for (const grid of grids) {
+    const gap = grid.display[0].map(() => '…').join(delimiter);
+    const rows: string[] = labelled ? [`${payload.sheet}!${grid.address}`] : [];
+    grid.rows.forEach((row, index) => {
+      if (index > 0 && row !== grid.rows[index - 1] + 1) {
+        rows.push(gap);
+      }
+      rows.push(grid.display[row - grid.bounds.startRow].map(value => escape(formatValue(value))).join(delimiter));
+    });
+    blocks.push(rows.join('\n'));
+  }
+
+  const notes = delimitedNotes(payload);
+  if (notes.length > 0) {
+    blocks.push(notes.map(line => `# ${line}`).join('\n'));
+  }
+  return blocks.join('\n\n');
+}
+
+/**
+ * Plain-text lines for what a CSV/TSV grid can't hold.
+ */
+function delimitedNotes(payload: ContextPayload): string[] {
+  const lines: string[] = [];
+  if (payload.formulaRegions?.length) {
+    lines.push('Formula regions (R1C1):');
+    for (const region of payload.formulaRegions) {
+      const broken = region.inconsistent ? ` (breaks the pattern: ${region.inconsistent.join(', ')})` : '';
+      lines.push(`  ${region.range}: ${region.formula}${broken}`);
+    }
+  }
+  if (payload.names?.length) {
+    lines.push('Named ranges:');
+    for (const info of payload.names) {
+      const value = info.value !== undefined
+        ? ` -> ${JSON.stringify(info.value)}`
+        : info.truncated ? ' -> (too large to include)' : '';
+      lines.push(`  ${info.name} (${info.scope}): ${info.definition}${value}`);
+    }
+  }
+  for (const [key, value] of getExtras(payload)) {
+    lines.push(`${key}:`, ...JSON.stringify(value, null, 2).split('\n').map(line => `  ${line}`));
+  }
+  return lines;
+}
+
+/**
+ * Markdown overview: one table row per sheet, then previews and names.
+ */
+function overviewToMarkdown(overview: WorkbookOverview): string {
+  const sections: string[] = [];
+  const lines = [
+    `### Workbook overview (active sheet: ${overview.activeSheet})`,
+    '',
+    '| # | Sheet | Visibility | Used range | Size | Tables | Charts | Names |',
+    '|---|---|---|---|---|---|---|---|',
+  ];
+  for (const sheet of overview.sheets) {
+    const cells = [
+      String(sheet.position + 1),
+      sheet.name,
+      sheet.visibility,
+      sheet.usedRange ?? '(empty)',
+      sheet.usedRange ? `${sheet.rowCount}×${sheet.columnCount}` : '',
+      listTables(sheet),
+      sheet.charts.map(chart => `${chart.name} (${chart.type})`).join(', '),
+      sheet.names.join(', '),
+    ];
+    lines.push(`| ${cells.map(escapeMarkdown).join(' | ')} |`);
+  }
+  sections.push(lines.join('\n'));
+
+  for (const sheet of overview.sheets) {
+    if (!sheet.preview?.length || !sheet.usedRange) {
+      continue;
+    }
+    const bounds = parseRangeAddress(sheet.usedRange);
+    const columns = sheet.preview[0].map((_, i) => getColumnLetter(bounds.startColumn + i));
+    const preview = [
+      `#### ${sheet.name} — first rows`,
+      '',
+      `|   | ${columns.join(' | ')} |`,
+      `|---|${columns.map(() => '---').join('|')}|`,
+      ...sheet.preview.map((row, i) =>
+        `| ${bounds.startRow + i} | ${row.map(value => escapeMarkdown(formatValue(value))).join(' | ')} |`
+      ),
+    ];
+    sections.push(preview.join('\n'));
+  }
+
+  if (overview.names.length > 0) {
+    sections.push(['### Named ranges', '', ...overview.names.map(n => `- **${n.name}**: \`${n.definition}\``)].join('\n'));
+  }
+  if (overview.omissions?.length) {
+    sections.push(['**Left out**', '', ...overview.omissions.map(note => `- ${note}`)].join('\n'));
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * CSV/TSV overview: a sheet inventory, then a name list when there are names.
+ */
+function overviewToDelimited(overview: WorkbookOverview, delimiter: ',' | '\t'): string {
+  const escape = delimiter === ',' ? escapeCsv : escapeTsv;
+  const row = (cells: string[]) => cells.map(escape).join(delimiter);
+
+  const sheets = [
+    row(['Position', 'Sheet', 'Visibility', 'Used range', 'Rows', 'Columns', 'Tables', 'Charts', 'Names', 'Headers']),
+    ...overview.sheets.map(sheet => row([
+      String(sheet.position + 1),
+      sheet.name,
+      sheet.visibility,
+      sheet.usedRange ?? '',
+      String(sheet.rowCount),
+      String(sheet.columnCount),
+      listTables(sheet),
+      sheet.charts.map(chart => chart.name).join('; '),
+      sheet.names.join('; '),
+      (sheet.preview?.[0] ?? []).map(formatValue).join('; '),
+    ])),
+  ];
+  const blocks = [sheets.join('\n')];
+
+  if (overview.names.length > 0) {
+    blocks.push([row(['Name', 'Definition']), ...overview.names.map(n => row([n.name, n.definition]))].join('\n'));
+  }
+  if (overview.omissions?.length) {
+    blocks.push(['# Left out:', ...overview.omissions.map(note => `#   ${note}`)].join('\n'));
+  }
+  return blocks.join('\n\n');
+}
+
+function listTables(sheet: SheetOverview): string {
+  return sheet.tables.map(table => `${table.name} (${table.address})`).join(', ');
+}
+
+/**
+ * Lay the payload's cells out as one grid per area.
+ */
+function toGrids(payload: ContextPayload): ContextGrid[] {
+  const addresses = payload.areas ?? [payload.selection];
+  const grids: ContextGrid[] = addresses.map(address => {
+    const bounds = parseRangeAddress(address);
+    const rows = bounds.endRow - bounds.startRow + 1;
+    const columns = bounds.endColumn - bounds.startColumn + 1;
+    return {
+      address,
+      bounds,
+      values: Array.from({ length: rows }, () => new Array(columns).fill(null)),
+      display: Array.from({ length: rows }, () => new Array(columns).fill(null)),
+      formulas: {},
+      text: {},
+      numberFormats: {},
+      errors: [],
+      rows: [],
+    };
+  });
+
+  const rowSets = grids.map(() => new Set<number>());
+
+  for (const cell of payload.cells) {
+    const { row, column } = parseCellRef(cell.ref);
+    const index = grids.findIndex(g => boundsContain(g.bounds, row, column));
+    if (index === -1) {
+      continue;
+    }
+    const grid = grids[index];
+    rowSets[index].add(row);
+    grid.values[row - grid.bounds.startRow][column - grid.bounds.startColumn] = cell.value;
+    grid.display[row - grid.bounds.startRow][column - grid.bounds.startColumn] = cell.text ?? cell.value;
+    if (cell.formula) {
+      grid.formulas[cell.ref] = cell.formula;
+    }
+    if (cell.text !== undefined) {
+      grid.text[cell.ref] = cell.text;
+    }
+    if (cell.numberFormat !== undefined) {
+      grid.numberFormats[cell.ref] = cell.numberFormat;
+    }
+    if (cell.valueType === 'Error') {
+      grid.errors.push(cell.ref);
+    }
+  }
+
+  grids.forEach((grid, index) => {
+    grid.rows = [...rowSets[index]].sort((a, b) => a - b);
+  });
+
+  return grids;
+}
+
+function hasGaps(grid: ContextGrid): boolean {
+  return grid.rows.length !== grid.bounds.endRow - grid.bounds.startRow + 1;
+}
+
+/**
+ * Render payload sections that aren't part of the grid (dependencies, etc.)
+ * as labelled JSON blocks.
+ */
+function renderExtras(payload: ContextPayload): string[] {
+  return getExtras(payload)
+    .map(([key, value]) => `**${key}**\n\n\`\`\`json\n${JSON.stringify(value, null, 2)}\n\`\`\``);
+}
+
+/**
+ * Payload fields none of the serializers lay out themselves.
+ */
+function getExtras(payload: ContextPayload): [string, unknown][] {
+  return Object.entries(payload).filter(([key, value]) => !RENDERED_KEYS.has(key) && value !== undefined);
+}
+
+function formatValue(value: CellData['value']): string {
+  return value === null || value === undefined ? '' : String(value);
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+function escapeCsv(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function escapeTsv(text: string): string {
+  return text.replace(/[\t\r\n]+/g, ' ');
+}
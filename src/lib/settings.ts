@@ -0,0 +1,310 @@
+/**
+ * Draftworx Automation Library - Settings & Profiles
+ *
+ * Named profiles of task pane settings (output format, budget, what to
+ * capture, redaction rules, automation defaults), stored per user, pinned
+ * to a workbook through its document settings, and shared as JSON.
+ */
+
+import { OutputFormat, RedactionRule, SettingsProfile } from './types';
+import { DocumentSettings } from './snapshots';
+import { validateRedactionRules } from './redact';
+import { OUTPUT_FORMATS } from './serializers';
+
+/**
+ * A user's saved profiles and the one in use
+ */
+export interface UserSettings {
+  /** Saved profiles (never empty once loaded) */
+  profiles: SettingsProfile[];
+  /** Name of the profile in use */
+  activeProfile: string;
+}
+
+/** Per-user key-value storage — localStorage, or anything async with the same shape */
+export interface SettingsStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+}
+
+/** Every setting filled in */
+export type ResolvedProfile = Required<SettingsProfile>;
+
+/** Storage key holding the user's profiles */
+const USER_SETTINGS_KEY = 'draftworx.settings';
+
+/** Document setting holding the profile pinned to the workbook */
+const WORKBOOK_PROFILE_SETTING = 'draftworx.profile';
+
+const BOOLEAN_SETTINGS = [
+  'includeFormulas',
+  'formulaRegions',
+  'display',
+  'detectTables',
+  'resolveNames',
+  'tracePrecedents',
+  'traceDependents',
+  'liveUpdate',
+  'watchValues',
+] as const;
+
+/**
+ * Values used for anything a profile leaves out
+ */
+export const DEFAULT_PROFILE: ResolvedProfile = {
+  name: 'Default',
+  format: 'json',
+  maxTokens: 20000,
+  includeFormulas: true,
+  formulaRegions: true,
+  display: true,
+  detectTables: true,
+  resolveNames: true,
+  tracePrecedents: false,
+  traceDependents: false,
+  traceDepth: 2,
+  liveUpdate: true,
+  watchValues: false,
+  redactionRules: [],
+  automationOptions: {},
+};
+
+/**
+ * Load the user's profiles. Invalid stored profiles are dropped, and a
+ * user with none gets a single "Default" profile.
+ *
+ * @param storage - Per-user storage (see getUserSettingsStorage)
+ * @returns Promise<UserSettings>
+ *
+ * @example
+ * const settings = await loadUserSettings(getUserSettingsStorage());
+ * const profile = resolveProfile(getActiveProfile(settings));
+ */
+export async function loadUserSettings(storage: SettingsStorage): Promise<UserSettings> {
+  let stored: Partial<UserSettings> = {};
+  try {
+    stored = JSON.parse(await storage.getItem(USER_SETTINGS_KEY) ?? '{}');
+  } catch {
+    // Unreadable settings start over
+  }
+  const profiles = Array.isArray(stored.profiles)
+    ? stored.profiles.filter(profile => validateProfile(profile).length === 0)
+    : [];
+  if (profiles.length === 0) {
+    profiles.push({ name: DEFAULT_PROFILE.name });
+  }
+  const active = profiles.find(profile => profile.name === stored.activeProfile) ?? profiles[0];
+  return { profiles, activeProfile: active.name };
+}
+
+/**
+ * Save the user's profiles.
+ */
+export async function saveUserSettings(storage: SettingsStorage, settings: UserSettings): Promise<void> {
+  await storage.setItem(USER_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/**
+ * The profile in use.
+ */
+export function getActiveProfile(settings: UserSettings): SettingsProfile {
+  return settings.profiles.find(profile => profile.name === settings.activeProfile) ?? settings.profiles[0];
+}
+
+/**
+ * Add a profile, replacing any with the same name, and make it the one in use.
+ * Pure helper — does not need Excel.run().
+ */
+export function upsertProfile(settings: UserSettings, profile: SettingsProfile): UserSettings {
+  const exists = settings.profiles.some(existing => existing.name === profile.name);
+  return {
+    profiles: exists
+      ? settings.profiles.map(existing => (existing.name === profile.name ? profile : existing))
+      : [...settings.profiles, profile],
+    activeProfile: profile.name,
+  };
+}
+
+/**
+ * Remove a profile. Removing the one in use switches to the first left.
+ * Pure helper — does not need Excel.run().
+ *
+ * @throws Error if it is the only profile
+ */
+export function removeProfile(settings: UserSettings, name: string): UserSettings {
+  const profiles = settings.profiles.filter(profile => profile.name !== name);
+  if (profiles.length === 0) {
+    throw new Error('Keep at least one profile');
+  }
+  return {
+    profiles,
+    activeProfile: profiles.some(profile => profile.name === settings.activeProfile)
+      ? settings.activeProfile
+      : profiles[0].name,
+  };
+}
+
+/**
+ * Fill in every setting a profile leaves out from DEFAULT_PROFILE.
+ * Pure helper — does not need Excel.run().
+ */
+export function resolveProfile(profile: SettingsProfile): ResolvedProfile {
+  const defined = Object.fromEntries(Object.entries(profile).filter(([, value]) => value !== undefined));
+  return { ...DEFAULT_PROFILE, ...defined };
+}
+
+/**
+ * The profile pinned to this workbook, or undefined. A pinned profile
+ * travels with the file, so whoever opens it gets the same settings.
+ *
+ * @param settings - Office.context.document.settings
+ */
+export function getWorkbookProfile(settings: DocumentSettings): SettingsProfile | undefined {
+  const stored = settings.get(WORKBOOK_PROFILE_SETTING);
+  return stored && validateProfile(stored).length === 0 ? stored as SettingsProfile : undefined;
+}
+
+/**
+ * Pin a profile to this workbook, or unpin with null.
+ *
+ * @param settings - Office.context.document.settings
+ * @param profile - Profile to save with the document
+ */
+export function setWorkbookProfile(settings: DocumentSettings, profile: SettingsProfile | null): Promise<void> {
+  settings.set(WORKBOOK_PROFILE_SETTING, profile);
+  return new Promise((resolve, reject) => {
+    settings.saveAsync(result => {
+      if (result.error) {
+        reject(new Error(`Could not save the workbook profile: ${result.error.message}`));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+/**
+ * The profile that applies to this workbook: the pinned one, otherwise the
+ * user's profile in use. For code that runs without the task pane, such
+ * as ribbon commands.
+ *
+ * @param settings - Office.context.document.settings
+ * @param storage - Per-user storage (see getUserSettingsStorage)
+ * @returns Promise<SettingsProfile>
+ *
+ * @example
+ * const profile = resolveProfile(await getProfileInUse(Office.context.document.settings, getUserSettingsStorage()));
+ */
+export async function getProfileInUse(settings: DocumentSettings, storage: SettingsStorage): Promise<SettingsProfile> {
+  return getWorkbookProfile(settings) ?? getActiveProfile(await loadUserSettings(storage));
+}
+
+/**
+ * Profiles as JSON to share with the team.
+ * Pure helper — does not need Excel.run().
+ */
+export function exportProfiles(profiles: SettingsProfile[]): string {
+  return JSON.stringify(profiles, null, 2);
+}
+
+/**
+ * Parse shared profiles: a JSON array of profiles, or a single profile.
+ * Pure helper — does not need Excel.run().
+ *
+ * @param text - JSON text
+ * @returns SettingsProfile[]
+ * @throws Error listing every problem, one per line
+ *
+ * @example
+ * const settings = parseProfiles(await file.text())
+ *   .reduce(upsertProfile, await loadUserSettings(localStorage));
+ */
+export function parseProfiles(text: string): SettingsProfile[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Profiles are not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const profiles = Array.isArray(parsed) ? parsed : [parsed];
+  const errors = profiles.flatMap(validateProfile);
+  const names = profiles.map(profile => (profile as SettingsProfile)?.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate !== undefined) {
+    errors.push(`Profile "${duplicate}" appears more than once`);
+  }
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+  return profiles as SettingsProfile[];
+}
+
+/**
+ * Check a profile: a name, and settings of the right type.
+ * Pure helper — does not need Excel.run().
+ *
+ * @returns string[] - One message per problem (empty when valid)
+ */
+export function validateProfile(profile: unknown): string[] {
+  if (!profile || typeof profile !== 'object' || Array.isArray(profile)) {
+    return ['A profile must be a JSON object'];
+  }
+  const candidate = profile as Record<keyof SettingsProfile, unknown>;
+  if (typeof candidate.name !== 'string' || !candidate.name.trim()) {
+    return ['A profile needs a name'];
+  }
+
+  const label = `Profile "${candidate.name}"`;
+  const errors: string[] = [];
+  const formats: string[] = OUTPUT_FORMATS.map(format => format.id);
+  if (candidate.format !== undefined && !formats.includes(candidate.format as OutputFormat)) {
+    errors.push(`${label}: format must be one of ${formats.join(', ')}`);
+  }
+  if (candidate.maxTokens !== undefined && !(typeof candidate.maxTokens === 'number' && candidate.maxTokens >= 0)) {
+    errors.push(`${label}: maxTokens must be 0 or more`);
+  }
+  const depth = candidate.traceDepth;
+  if (depth !== undefined && !(Number.isInteger(depth) && (depth as number) >= 1 && (depth as number) <= 10)) {
+    errors.push(`${label}: traceDepth must be a whole number from 1 to 10`);
+  }
+  for (const key of BOOLEAN_SETTINGS) {
+    if (candidate[key] !== undefined && typeof candidate[key] !== 'boolean') {
+      errors.push(`${label}: ${key} must be true or false`);
+    }
+  }
+  if (candidate.redactionRules !== undefined) {
+    if (Array.isArray(candidate.redactionRules)) {
+      errors.push(...validateRedactionRules(candidate.redactionRules as RedactionRule[]).map(error => `${label}: ${error}`));
+    } else {
+      errors.push(`${label}: redactionRules must be a list of rules`);
+    }
+  }
+  const options = candidate.automationOptions;
+  if (options !== undefined && !(isRecord(options) && Object.values(options).every(isRecord))) {
+    errors.push(`${label}: automationOptions must map automation ids to option objects`);
+  }
+  return errors;
+}
+
+/**
+ * Per-user storage for profiles: Office roaming settings where the host
+ * provides them, otherwise the add-in's localStorage (Excel has no roaming
+ * settings for add-ins, so profiles stay on the machine there).
+ */
+export function getUserSettingsStorage(): SettingsStorage {
+  const roaming = typeof Office !== 'undefined' ? Office.context?.roamingSettings : undefined;
+  if (!roaming) {
+    return localStorage;
+  }
+  return {
+    getItem: key => (roaming.get(key) as string | undefined) ?? null,
+    setItem: (key, value) => new Promise((resolve, reject) => {
+      roaming.set(key, value);
+      roaming.saveAsync(result => (result.error ? reject(new Error(result.error.message)) : resolve()));
+    }),
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,238 @@
+/**
+ * Draftworx Automation Library - Range Snapshots
+ *
+ * Save named snapshots of captured ranges in the document's settings (so
+ * they travel with the workbook) and diff the range against them later.
+ */
+
+import {
+  CapturedArea,
+  CapturedRange,
+  CellData,
+  ContextPayload,
+  RangeSnapshot,
+  SnapshotChange,
+  SnapshotDiff
+} from './types';
+import { captureRange, getCapturedCells } from './range';
+import { isFormula } from './formula';
+
+/** Document setting holding every snapshot, keyed by name */
+const SNAPSHOTS_SETTING = 'draftworx.snapshots';
+
+/**
+ * Document settings hold about 2 MB in all, shared with the pinned profile,
+ * so snapshots are refused past this many characters of JSON
+ */
+const MAX_SNAPSHOTS_SIZE = 1_500_000;
+
+/**
+ * The part of Office.context.document.settings snapshots use
+ */
+export interface DocumentSettings {
+  get(name: string): unknown;
+  set(name: string, value: unknown): void;
+  saveAsync(callback?: (result: Office.AsyncResult<void>) => void): void;
+}
+
+/**
+ * Save a snapshot of a captured range with the document.
+ * Saving under an existing name replaces that snapshot.
+ *
+ * @param settings - Office.context.document.settings
+ * @param name - Snapshot name (e.g., "Before adjustments")
+ * @param captured - Range to keep (formatting is dropped)
+ * @returns Promise<RangeSnapshot>
+ * @throws Error if the snapshots would outgrow the document's settings
+ *
+ * @example
+ * const captured = await Excel.run(context => captureSelection(context));
+ * await saveSnapshot(Office.context.document.settings, 'Before adjustments', captured);
+ */
+export async function saveSnapshot(
+  settings: DocumentSettings,
+  name: string,
+  captured: CapturedRange
+): Promise<RangeSnapshot> {
+  if (!name.trim()) {
+    throw new Error('Snapshot name is required');
+  }
+  const snapshot: RangeSnapshot = {
+    name: name.trim(),
+    takenAt: new Date().toISOString(),
+    captured: stripCapture(captured),
+  };
+  const snapshots = { ...readSnapshots(settings), [snapshot.name]: snapshot };
+
+  const size = JSON.stringify(snapshots).length;
+  if (size > MAX_SNAPSHOTS_SIZE) {
+    const kb = (chars: number) => `${Math.ceil(chars / 1000).toLocaleString()} KB`;
+    throw new Error(
+      `Snapshots would take ${kb(size)} of the workbook's settings (limit ${kb(MAX_SNAPSHOTS_SIZE)}) — `
+      + 'snapshot a smaller range or delete older snapshots'
+    );
+  }
+
+  await writeSnapshots(settings, snapshots);
+  return snapshot;
+}
+
+/**
+ * Snapshots saved with the document, oldest first.
+ */
+export function getSnapshots(settings: DocumentSettings): RangeSnapshot[] {
+  return Object.values(readSnapshots(settings)).sort((a, b) => a.takenAt.localeCompare(b.takenAt));
+}
+
+/**
+ * A saved snapshot by name, or undefined.
+ */
+export function getSnapshot(settings: DocumentSettings, name: string): RangeSnapshot | undefined {
+  return readSnapshots(settings)[name];
+}
+
+/**
+ * Remove a saved snapshot (does nothing if there is none by that name).
+ */
+export async function deleteSnapshot(settings: DocumentSettings, name: string): Promise<void> {
+  const snapshots = readSnapshots(settings);
+  if (!(name in snapshots)) {
+    return;
+  }
+  delete snapshots[name];
+  await writeSnapshots(settings, snapshots);
+}
+
+/**
+ * Compare a snapshot with the range as it is now.
+ * Must be called within Excel.run().
+ *
+ * @param context - Excel RequestContext
+ * @param snapshot - Saved snapshot
+ * @returns Promise<SnapshotDiff>
+ *
+ * @example
+ * await Excel.run(async (context) => {
+ *   const diff = await diffSnapshot(context, getSnapshot(settings, 'Before adjustments')!);
+ *   diff.changes.forEach(change => console.log(change.ref, change.kind));
+ * });
+ */
+export async function diffSnapshot(context: Excel.RequestContext, snapshot: RangeSnapshot): Promise<SnapshotDiff> {
+  const { address, sourceSheet } = snapshot.captured;
+  const current = await captureRange(context, address, sourceSheet);
+
+  return {
+    snapshot: snapshot.name,
+    sheet: sourceSheet,
+    address,
+    takenAt: snapshot.takenAt,
+    comparedAt: new Date().toISOString(),
+    changes: diffCaptured(snapshot.captured, current),
+  };
+}
+
+/**
+ * Compare two captures of the same range cell by cell.
+ * A cell that was empty and now isn't is "added", the reverse is "cleared";
+ * otherwise a different formula is "formulaChanged" and a different value
+ * (including a recalculated one) is "valueChanged".
+ * Pure helper — does not need Excel.run().
+ *
+ * @param before - Earlier capture
+ * @param after - Later capture of the same address
+ * @returns SnapshotChange[] - Changed cells only
+ */
+export function diffCaptured(before: CapturedRange, after: CapturedRange): SnapshotChange[] {
+  const earlier = new Map(getCapturedCells(before).map(cell => [cell.ref, toContents(cell)]));
+  const changes: SnapshotChange[] = [];
+
+  for (const cell of getCapturedCells(after)) {
+    const was = earlier.get(cell.ref) ?? { value: null, formula: null };
+    const now = toContents(cell);
+    const kind = classify(was, now);
+    if (kind) {
+      changes.push({ ref: cell.ref, kind, before: was, after: now });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Turn a diff into a context payload for the AI: the changed cells as they
+ * are now, with the full before/after detail in `diff`.
+ * Pure helper — does not need Excel.run().
+ */
+export function diffToContextPayload(diff: SnapshotDiff): ContextPayload {
+  return {
+    selection: diff.address,
+    sheet: diff.sheet,
+    timestamp: diff.comparedAt,
+    cells: diff.changes.map(change => ({ ref: change.ref, ...change.after })),
+    diff,
+  };
+}
+
+function classify(
+  before: Pick<CellData, 'value' | 'formula'>,
+  after: Pick<CellData, 'value' | 'formula'>
+): SnapshotChange['kind'] | null {
+  const wasEmpty = isEmpty(before);
+  const isNowEmpty = isEmpty(after);
+  if (wasEmpty && isNowEmpty) {
+    return null;
+  }
+  if (wasEmpty) {
+    return 'added';
+  }
+  if (isNowEmpty) {
+    return 'cleared';
+  }
+  if (before.formula !== after.formula) {
+    return 'formulaChanged';
+  }
+  return before.value === after.value ? null : 'valueChanged';
+}
+
+function toContents(cell: { value: CellData['value']; formula: string }): Pick<CellData, 'value' | 'formula'> {
+  return {
+    value: cell.value === '' ? null : cell.value,
+    formula: isFormula(cell.formula) ? cell.formula : null,
+  };
+}
+
+function isEmpty(contents: Pick<CellData, 'value' | 'formula'>): boolean {
+  return contents.formula === null && (contents.value === null || contents.value === '');
+}
+
+/**
+ * Keep only what a diff needs, so snapshots stay small.
+ */
+function stripCapture(captured: CapturedRange): CapturedRange {
+  const areas: CapturedArea[] = captured.areas.map(area => ({
+    address: area.address,
+    values: area.values,
+    formulas: area.formulas,
+    rowCount: area.rowCount,
+    columnCount: area.columnCount,
+  }));
+  return { ...areas[0], address: captured.address, sourceSheet: captured.sourceSheet, areas };
+}
+
+function readSnapshots(settings: DocumentSettings): Record<string, RangeSnapshot> {
+  const stored = settings.get(SNAPSHOTS_SETTING);
+  return stored && typeof stored === 'object' ? { ...(stored as Record<string, RangeSnapshot>) } : {};
+}
+
+function writeSnapshots(settings: DocumentSettings, snapshots: Record<string, RangeSnapshot>): Promise<void> {
+  settings.set(SNAPSHOTS_SETTING, snapshots);
+  return new Promise((resolve, reject) => {
+    settings.saveAsync(result => {
+      if (result.error) {
+        reject(new Error(`Could not save snapshots: ${result.error.message}`));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
@@ -0,0 +1,244 @@
+/**
+ * Draftworx Automation Library - Table Detection
+ *
+ * Functions for recognising tabular data in a captured range.
+ * detectTable and findColumnHeaders are designed to be called within an
+ * Excel.run() context.
+ */
+
+import { CapturedArea, CapturedRange, ColumnHeader, ColumnType, ContextPayload, ContextTable, RangeBounds } from './types';
+import { intersectBounds, parseCellRef, parseRangeAddress, toCellRef, toRangeAddress } from './address';
+import { isFormula } from './formula';
+
+/**
+ * Detect a table in a captured range.
+ * Excel tables (ListObjects) that intersect the capture win; otherwise a
+ * single-area capture whose first row looks like a header is used.
+ * Must be called within Excel.run().
+ *
+ * @param context - Excel RequestContext
+ * @param captured - Previously captured range data
+ * @returns Promise<ContextTable | null> - Records for the selected part of the table
+ *
+ * @example
+ * await Excel.run(async (context) => {
+ *   const captured = await captureSelection(context);
+ *   const table = await detectTable(context, captured);
+ *   const payload = buildContextPayload(captured, { table });
+ * });
+ */
+export async function detectTable(
+  context: Excel.RequestContext,
+  captured: CapturedRange
+): Promise<ContextTable | null> {
+  const tables = context.workbook.worksheets.getItem(captured.sourceSheet).tables;
+  tables.load('items/name,items/showHeaders');
+  await context.sync();
+
+  if (tables.items.length > 0) {
+    const candidates = tables.items.map(table => {
+      const body = table.getDataBodyRange();
+      body.load('address');
+      table.columns.load('items/name');
+      return { table, body };
+    });
+    await context.sync();
+
+    for (const area of captured.areas) {
+      const areaBounds = parseRangeAddress(area.address);
+
+      for (const { table, body } of candidates) {
+        const bodyBounds = parseRangeAddress(body.address);
+        const records = intersectBounds(areaBounds, bodyBounds);
+        if (!records) {
+          continue;
+        }
+
+        const names = table.columns.items
+          .map(column => column.name)
+          .slice(records.startColumn - bodyBounds.startColumn, records.endColumn - bodyBounds.startColumn + 1);
+
+        // Include the header row in the covered address when it was selected too
+        const headerRow = bodyBounds.startRow - 1;
+        const headerSelected = table.showHeaders
+          && records.startRow === bodyBounds.startRow
+          && areaBounds.startRow <= headerRow;
+
+        return buildTable(area, records, names, {
+          name: table.name,
+          source: 'table',
+          covered: headerSelected ? { ...records, startRow: headerRow } : records,
+        });
+      }
+    }
+  }
+
+  return detectHeaderRow(captured);
+}
+
+/**
+ * Find the headers above a payload's columns on their sheets: the header
+ * row of each Excel table the column runs through, and the top row of the
+ * used range. Covers the captured cells, single-cell dependency nodes
+ * (on any sheet) and diff changes, so header redaction rules apply when
+ * the header itself wasn't captured.
+ * Must be called within Excel.run().
+ *
+ * @param context - Excel RequestContext
+ * @param payload - Payload built from the capture
+ * @returns Promise<ColumnHeader[]> - Text headers only, table headers first
+ *
+ * @example
+ * await Excel.run(async (context) => {
+ *   const payload = buildContextPayload(await captureSelection(context));
+ *   const { redacted } = redactPayload({ ...payload, columnHeaders: await findColumnHeaders(context, payload) }, rules);
+ * });
+ */
+export async function findColumnHeaders(
+  context: Excel.RequestContext,
+  payload: ContextPayload
+): Promise<ColumnHeader[]> {
+  const columns = new Map<string, Set<number>>();
+  const want = (sheet: string, ref: string) => {
+    const set = columns.get(sheet) ?? new Set<number>();
+    set.add(parseCellRef(ref).column);
+    columns.set(sheet, set);
+  };
+  payload.cells.forEach(cell => want(payload.sheet, cell.ref));
+  payload.dependencies?.nodes
+    .filter(node => !node.address.includes(':'))
+    .forEach(node => want(node.sheet, node.address));
+  payload.diff?.changes.forEach(change => want(payload.sheet, change.ref));
+
+  const sheets = [...columns].map(([name, wanted]) => {
+    const worksheet = context.workbook.worksheets.getItem(name);
+    const tables = worksheet.tables;
+    tables.load('items/showHeaders');
+    const used = worksheet.getUsedRangeOrNullObject();
+    used.load('address');
+    return { name, wanted, worksheet, tables, used };
+  });
+  await context.sync();
+
+  const withTables = sheets.map(sheet => ({
+    ...sheet,
+    tableRanges: sheet.tables.items
+      .filter(table => table.showHeaders)
+      .map(table => {
+        const range = table.getRange();
+        range.load('address');
+        return range;
+      }),
+  }));
+  await context.sync();
+
+  // Load each header row, limited to the wanted columns it spans
+  const headerRows = withTables.flatMap(({ name, wanted, worksheet, tableRanges, used }) => {
+    const bounds = [
+      ...tableRanges.map(range => ({ bounds: parseRangeAddress(range.address), table: true })),
+      ...(used.isNullObject ? [] : [{ bounds: parseRangeAddress(used.address), table: false }]),
+    ];
+    return bounds
+      .filter(({ bounds: b }) => [...wanted].some(column => column >= b.startColumn && column <= b.endColumn))
+      .map(({ bounds: b, table }) => {
+        const range = worksheet.getRange(toRangeAddress({ ...b, endRow: b.startRow }));
+        range.load('values');
+        return { sheet: name, wanted, bounds: b, lastRow: table ? b.endRow : undefined, range };
+      });
+  });
+  await context.sync();
+
+  return headerRows.flatMap(({ sheet, wanted, bounds, lastRow, range }) =>
+    range.values[0].flatMap((value, i): ColumnHeader[] => {
+      const column = bounds.startColumn + i;
+      if (!wanted.has(column) || typeof value !== 'string' || !value.trim()) {
+        return [];
+      }
+      return [{ sheet, ref: toCellRef(bounds.startRow, column), text: value, ...(lastRow !== undefined && { lastRow }) }];
+    })
+  );
+}
+
+/**
+ * Infer a column's type from its values (empty cells are ignored).
+ */
+export function inferColumnType(values: (string | number | boolean | null)[]): ColumnType {
+  const types = new Set(
+    values
+      .filter(value => value !== null && value !== '')
+      .map(value => typeof value)
+  );
+  if (types.size === 0) {
+    return 'empty';
+  }
+  if (types.size > 1) {
+    return 'mixed';
+  }
+  return [...types][0] as ColumnType;
+}
+
+/**
+ * Heuristic fallback: a single area whose first row is unique text labels
+ * and whose body has at least one non-text column.
+ */
+function detectHeaderRow(captured: CapturedRange): ContextTable | null {
+  if (captured.areas.length !== 1 || captured.rowCount < 2) {
+    return null;
+  }
+
+  const [header, ...body] = captured.values;
+  const labels = header.map(value => (typeof value === 'string' ? value.trim() : ''));
+  if (labels.some(label => !label) || new Set(labels.map(l => l.toLowerCase())).size !== labels.length) {
+    return null;
+  }
+
+  const looksLikeData = labels.some((_, col) =>
+    body.some(row => row[col] !== null && row[col] !== '' && typeof row[col] !== 'string')
+  );
+  if (!looksLikeData) {
+    return null;
+  }
+
+  const bounds = parseRangeAddress(captured.address);
+  return buildTable(captured, { ...bounds, startRow: bounds.startRow + 1 }, labels, {
+    source: 'heuristic',
+    covered: bounds,
+  });
+}
+
+/**
+ * Turn the record region of an area into a ContextTable.
+ */
+function buildTable(
+  area: CapturedArea,
+  records: RangeBounds,
+  names: string[],
+  meta: { name?: string; source: ContextTable['source']; covered: RangeBounds }
+): ContextTable {
+  const areaBounds = parseRangeAddress(area.address);
+  const rows: ContextTable['records'] = [];
+  const formulas: Record<string, string> = {};
+
+  for (let row = records.startRow; row <= records.endRow; row++) {
+    const record: ContextTable['records'][number] = {};
+    for (let column = records.startColumn; column <= records.endColumn; column++) {
+      const i = row - areaBounds.startRow;
+      const j = column - areaBounds.startColumn;
+      record[names[column - records.startColumn]] = area.values[i][j];
+      if (isFormula(area.formulas[i][j])) {
+        formulas[toCellRef(row, column)] = area.formulas[i][j];
+      }
+    }
+    rows.push(record);
+  }
+
+  return {
+    ...(meta.name && { name: meta.name }),
+    source: meta.source,
+    address: toRangeAddress(meta.covered),
+    columns: names.map(name => ({ name, type: inferColumnType(rows.map(record => record[name])) })),
+    firstRow: records.startRow,
+    records: rows,
+    ...(Object.keys(formulas).length > 0 && { formulas }),
+  };
+}
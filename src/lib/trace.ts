@@ -0,0 +1,227 @@
+/**
+ * Draftworx Automation Library - Dependency Tracing
+ *
+ * Functions for following formula precedents and dependents.
+ * All functions are designed to be called within an Excel.run() context.
+ */
+
+import { CapturedRange, DependencyGraph, DependencyNode, TraceOptions } from './types';
+import { captureRange, getCapturedCells } from './range';
+import { boundsCellCount, boundsContain, parseRangeAddress, qualifyAddress, splitAreas, splitSheetAddress } from './address';
+import { extractReferences, isFormula } from './formula';
+
+/**
+ * Build a precedent/dependent graph for the formulas in a captured range.
+ * Precedents are found by parsing each formula and capturing what it references
+ * (including other sheets). Dependents use Excel's getDirectDependents().
+ * Must be called within Excel.run().
+ *
+ * @param context - Excel RequestContext
+ * @param captured - Range whose cells seed the graph (depth 0)
+ * @param options - Depth, direction and size limits
+ * @returns Promise<DependencyGraph>
+ *
+ * @example
+ * await Excel.run(async (context) => {
+ *   const captured = await captureRange(context, 'D20');
+ *   const graph = await traceDependencies(context, captured, { depth: 3 });
+ *   console.log(graph.edges);
+ * });
+ */
+export async function traceDependencies(
+  context: Excel.RequestContext,
+  captured: CapturedRange,
+  options: TraceOptions = {}
+): Promise<DependencyGraph> {
+  const depth = options.depth ?? 2;
+  const maxNodes = options.maxNodes ?? 500;
+  const maxRangeCells = options.maxRangeCells ?? 200;
+
+  const graph: DependencyGraph = { nodes: [], edges: [], truncated: false, warnings: [] };
+  const nodesById = new Map<string, DependencyNode>();
+  const edgeKeys = new Set<string>();
+  const captureCache = new Map<string, CapturedRange | null>();
+
+  const addNode = (node: DependencyNode): { node: DependencyNode; added: boolean } | null => {
+    const existing = nodesById.get(node.id);
+    if (existing) {
+      return { node: existing, added: false };
+    }
+    if (nodesById.size >= maxNodes) {
+      graph.truncated = true;
+      return null;
+    }
+    nodesById.set(node.id, node);
+    graph.nodes.push(node);
+    return { node, added: true };
+  };
+
+  const addEdge = (from: string, to: string): void => {
+    const key = `${from}→${to}`;
+    if (from !== to && !edgeKeys.has(key)) {
+      edgeKeys.add(key);
+      graph.edges.push({ from, to });
+    }
+  };
+
+  const capture = async (sheet: string, address: string): Promise<CapturedRange | null> => {
+    const id = qualifyAddress(sheet, address);
+    if (!captureCache.has(id)) {
+      try {
+        captureCache.set(id, await captureRange(context, address, sheet));
+      } catch {
+        graph.warnings.push(`Could not read ${id}`);
+        captureCache.set(id, null);
+      }
+    }
+    return captureCache.get(id) ?? null;
+  };
+
+  // Expand a captured range into candidate nodes at the given depth
+  const toNodes = (range: CapturedRange, level: number): DependencyNode[] =>
+    getCapturedCells(range).map(cell => ({
+      id: qualifyAddress(range.sourceSheet, cell.ref),
+      sheet: range.sourceSheet,
+      address: cell.ref,
+      depth: level,
+      value: cell.value,
+      formula: isFormula(cell.formula) ? cell.formula : undefined,
+    }));
+
+  // Add nodes to the graph, dropping any past the node limit
+  const addNodes = (nodes: DependencyNode[]): { node: DependencyNode; added: boolean }[] =>
+    nodes.flatMap(node => addNode(node) ?? []);
+
+  const addCells = (range: CapturedRange, level: number) => addNodes(toNodes(range, level));
+
+  const seeds = addCells(captured, 0).map(r => r.node);
+
+  // Precedents: parse each formula and capture what it reads
+  if (options.precedents !== false) {
+    let frontier = seeds.filter(n => n.formula);
+
+    for (let level = 1; level <= depth && frontier.length > 0 && !graph.truncated; level++) {
+      const next: DependencyNode[] = [];
+
+      for (const node of frontier) {
+        for (const ref of extractReferences(node.formula!)) {
+          const sheet = ref.sheet ?? node.sheet;
+          const bounds = parseRangeAddress(ref.address);
+
+          if (boundsCellCount(bounds) > maxRangeCells) {
+            const result = addNode({
+              id: qualifyAddress(sheet, ref.address),
+              sheet,
+              address: ref.address,
+              depth: level,
+              collapsed: true,
+            });
+            if (result) {
+              addEdge(result.node.id, node.id);
+            }
+            continue;
+          }
+
+          const range = await capture(sheet, ref.address);
+          if (!range) {
+            continue;
+          }
+
+          for (const { node: precedent, added } of addCells(range, level)) {
+            addEdge(precedent.id, node.id);
+            if (added && precedent.formula) {
+              next.push(precedent);
+            }
+          }
+        }
+      }
+
+      frontier = next;
+    }
+  }
+
+  // Dependents: ask Excel who reads each cell, then confirm edges by parsing
+  if (options.dependents) {
+    let frontier = seeds;
+
+    for (let level = 1; level <= depth && frontier.length > 0 && !graph.truncated; level++) {
+      const next: DependencyNode[] = [];
+
+      for (const node of frontier) {
+        const addresses = await getDirectDependentAddresses(context, node, graph.warnings);
+
+        for (const fullAddress of addresses) {
+          const { sheet = node.sheet, address } = splitSheetAddress(fullAddress);
+          const range = await capture(sheet, address);
+          if (!range) {
+            continue;
+          }
+
+          // Excel reports whole ranges, so keep only the cells that read this one
+          const readers = toNodes(range, -level).filter(dependent => dependent.formula && readsCell(dependent, node));
+          for (const { node: dependent, added } of addNodes(readers)) {
+            addEdge(node.id, dependent.id);
+            if (added) {
+              next.push(dependent);
+            }
+          }
+        }
+      }
+
+      frontier = next;
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Get the sheet-qualified addresses of a node's direct dependents.
+ * Excel throws ItemNotFound when a cell has no dependents, so that is not a warning.
+ */
+async function getDirectDependentAddresses(
+  context: Excel.RequestContext,
+  node: DependencyNode,
+  warnings: string[]
+): Promise<string[]> {
+  const dependents = context.workbook.worksheets
+    .getItem(node.sheet)
+    .getRange(node.address)
+    .getDirectDependents();
+  dependents.load('addresses');
+
+  try {
+    await context.sync();
+  } catch (error) {
+    const code = (error as { code?: string }).code;
+    if (code !== 'ItemNotFound') {
+      warnings.push(`Could not trace dependents of ${node.id}`);
+    }
+    return [];
+  }
+
+  // Each entry may itself list several areas on one sheet
+  const addresses: string[] = [];
+  for (const entry of dependents.addresses) {
+    let lastSheet = node.sheet;
+    for (const area of splitAreas(entry)) {
+      const { sheet = lastSheet, address } = splitSheetAddress(area);
+      lastSheet = sheet;
+      addresses.push(qualifyAddress(sheet, address));
+    }
+  }
+  return addresses;
+}
+
+/**
+ * Whether a formula node references the given single-cell node.
+ */
+function readsCell(reader: DependencyNode, target: DependencyNode): boolean {
+  const { startRow: row, startColumn: column } = parseRangeAddress(target.address);
+
+  return extractReferences(reader.formula ?? '').some(ref => {
+    const sheet = ref.sheet ?? reader.sheet;
+    return sheet.toLowerCase() === target.sheet.toLowerCase()
+      && boundsContain(parseRangeAddress(ref.address), row, column);
+  });
+}
@@ -0,0 +1,151 @@
+/**
+ * Draftworx Automation Library - Selection Tracking
+ *
+ * Follow the selection across the whole workbook — through sheet switches —
+ * and optionally edits to the selected cells, calling back once things
+ * settle instead of on every event.
+ */
+
+import { RangeBounds } from './types';
+import { intersectBounds, parseRangeAddress, splitAreas } from './address';
+
+/**
+ * Why a tracked refresh ran (the latest event before it settled)
+ */
+export type TrackingReason = 'selection' | 'activated' | 'values';
+
+/**
+ * Options for trackSelection
+ */
+export interface SelectionTrackingOptions {
+  /** Wait this long after the last event before calling back (default: 300 ms) */
+  debounceMs?: number;
+  /** Also call back when values in the selected cells change (default: false) */
+  watchValues?: boolean;
+  /** Called when the callback throws (default: the error is dropped) */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * A running selection tracker
+ */
+export interface SelectionTracker {
+  /** Remove the event handlers and drop any refresh that hasn't run yet */
+  stop(): Promise<void>;
+}
+
+/** Default quiet period before a refresh */
+const DEFAULT_DEBOUNCE_MS = 300;
+
+/**
+ * Call back whenever the selection changes anywhere in the workbook, and
+ * when another sheet is activated. Bursts of events (dragging a selection,
+ * arrowing down a column) collapse into one call after `debounceMs` of
+ * quiet, and calls never overlap. With `watchValues`, edits that touch the
+ * selected cells — typed or pasted — trigger a call too.
+ * This is a complete helper — call it directly, not inside Excel.run().
+ *
+ * @param onChange - Refresh to run once events settle
+ * @param options - Debounce and value watching
+ * @returns Promise<SelectionTracker> - Call stop() to detach
+ *
+ * @example
+ * const tracker = await trackSelection(async () => {
+ *   await Excel.run(async (context) => render(await captureSelection(context)));
+ * }, { debounceMs: 250, watchValues: true });
+ * // later
+ * await tracker.stop();
+ */
+export async function trackSelection(
+  onChange: (reason: TrackingReason) => void | Promise<void>,
+  options: SelectionTrackingOptions = {}
+): Promise<SelectionTracker> {
+  const debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  let watched: { worksheetId: string; areas: RangeBounds[] } | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let queue: Promise<void> = Promise.resolve();
+  let stopped = false;
+  // Set by selection and activation events, so an edit later in the same window can't hide them
+  let selectionMoved = false;
+
+  const refresh = async (reason: TrackingReason) => {
+    if (stopped) {
+      return;
+    }
+    // Value edits don't move the selection — only re-read it when it may have moved
+    if (options.watchValues && selectionMoved) {
+      selectionMoved = false;
+      watched = await loadSelectionBounds();
+    }
+    await onChange(reason);
+  };
+
+  const schedule = (reason: TrackingReason) => {
+    if (reason !== 'values') {
+      selectionMoved = true;
+    }
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      queue = queue.then(() => refresh(reason)).catch(error => options.onError?.(error));
+    }, debounceMs);
+  };
+
+  if (options.watchValues) {
+    watched = await loadSelectionBounds();
+  }
+
+  const handlers = await Excel.run(async (context) => {
+    const registered: OfficeExtension.EventHandlerResult<object>[] = [
+      context.workbook.onSelectionChanged.add(async () => schedule('selection')),
+      context.workbook.worksheets.onActivated.add(async () => schedule('activated')),
+    ];
+    if (options.watchValues) {
+      registered.push(context.workbook.worksheets.onChanged.add(async (event) => {
+        if (watched && event.worksheetId === watched.worksheetId && touches(event.address, watched.areas)) {
+          schedule('values');
+        }
+      }));
+    }
+    await context.sync();
+    return registered;
+  });
+
+  return {
+    async stop(): Promise<void> {
+      stopped = true;
+      clearTimeout(timer);
+      await Excel.run(handlers[0].context, async (context) => {
+        handlers.forEach(handler => handler.remove());
+        await context.sync();
+      });
+    },
+  };
+}
+
+/**
+ * The selected areas and the id of their sheet.
+ */
+async function loadSelectionBounds(): Promise<{ worksheetId: string; areas: RangeBounds[] }> {
+  return Excel.run(async (context) => {
+    const selection = context.workbook.getSelectedRanges();
+    const sheet = context.workbook.worksheets.getActiveWorksheet();
+    selection.load('address');
+    sheet.load('id');
+    await context.sync();
+
+    return {
+      worksheetId: sheet.id,
+      areas: splitAreas(selection.address).map(area => parseRangeAddress(area)),
+    };
+  });
+}
+
+/**
+ * Whether a changed address overlaps any of the areas.
+ */
+function touches(address: string, areas: RangeBounds[]): boolean {
+  return splitAreas(address).some(changed => {
+    const bounds = parseRangeAddress(changed);
+    return areas.some(area => intersectBounds(area, bounds) !== null);
+  });
+}
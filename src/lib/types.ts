@@ -6,21 +6,536 @@
  */
 
 /**
- * Result of a range capture operation
+ * One rectangular block of a captured range
  */
-export interface CapturedRange {
-  /** Original address (e.g., "A1:C10") */
+export interface CapturedArea {
+  /** Area address without sheet prefix (e.g., "A1:C10") */
   address: string;
-  /** Sheet name where the range was captured */
-  sourceSheet: string;
   /** 2D array of cell values */
   values: (string | number | boolean | null)[][];
   /** 2D array of formulas (empty string if no formula) */
   formulas: string[][];
+  /** 2D array of formulas in R1C1 notation — lets relative references shift on paste */
+  formulasR1C1?: string[][];
+  /** 2D array of displayed text (e.g., "31/12/2023" for 45291) */
+  text?: string[][];
+  /** 2D array of number formats */
+  numberFormat?: string[][];
+  /** 2D array of Excel value types (e.g., "Double", "String", "Error") */
+  valueTypes?: string[][];
   /** Number of rows */
   rowCount: number;
   /** Number of columns */
   columnCount: number;
+  /** Formatting and metadata, when captured with the formatting option */
+  formatting?: CapturedFormatting;
+}
+
+/**
+ * Which formatting and metadata to capture or paste
+ */
+export interface FormattingParts {
+  /** Number formats (currency, percentages, dates) */
+  numberFormats?: boolean;
+  /** Font, fill, borders and alignment */
+  styles?: boolean;
+  /** Merged cells */
+  merges?: boolean;
+  /** Column widths and row heights */
+  dimensions?: boolean;
+  /** Comments and notes */
+  comments?: boolean;
+  /** Data validation rules */
+  validation?: boolean;
+}
+
+/**
+ * A comment or note attached to a captured cell
+ */
+export interface CapturedComment {
+  /** Cell reference (e.g., "B4") */
+  ref: string;
+  /** Comment text */
+  content: string;
+  /** Threaded comment or legacy note */
+  kind: 'comment' | 'note';
+}
+
+/**
+ * Data validation applied uniformly across an area
+ */
+export interface CapturedValidation {
+  rule: Excel.DataValidationRule;
+  ignoreBlanks: boolean;
+  prompt: Excel.DataValidationPrompt;
+  errorAlert: Excel.DataValidationErrorAlert;
+}
+
+/**
+ * Formatting and metadata of one captured area
+ */
+export interface CapturedFormatting {
+  /** 2D array of number formats */
+  numberFormats?: string[][];
+  /** 2D array of font, fill, border and alignment settings */
+  styles?: Excel.SettableCellProperties[][];
+  /** Merged areas inside the area, without sheet prefix */
+  merges?: string[];
+  /** Column widths in points, left to right */
+  columnWidths?: number[];
+  /** Row heights in points, top to bottom */
+  rowHeights?: number[];
+  /** Comments and notes on cells in the area */
+  comments?: CapturedComment[];
+  /** Data validation (omitted when none, or when cells differ) */
+  validation?: CapturedValidation;
+}
+
+/**
+ * Options for capturing a range
+ */
+export interface CaptureOptions extends ChunkOptions {
+  /** Also capture formatting and metadata — `true` for everything (default: false) */
+  formatting?: boolean | FormattingParts;
+  /** Also capture displayed text and number formats (default: false) */
+  display?: boolean;
+  /** Also capture Excel's value type of each cell (default: false) */
+  valueTypes?: boolean;
+}
+
+/**
+ * Progress of a capture or paste done in blocks of rows
+ */
+export interface ChunkProgress {
+  /** Which half of the work the rows belong to */
+  phase: 'capture' | 'paste';
+  /** Rows finished so far, across all areas */
+  completedRows: number;
+  /** Rows in all areas */
+  totalRows: number;
+}
+
+/**
+ * Options for reading or writing large ranges in blocks of rows, one sync per block
+ */
+export interface ChunkOptions {
+  /** Rows per block (default: as many as fit in 50,000 cells) */
+  chunkRows?: number;
+  /** Called after each block */
+  onProgress?: (progress: ChunkProgress) => void;
+  /** Abort to stop before the next block — the run fails with "Cancelled after …" */
+  signal?: AbortSignal;
+}
+
+/**
+ * Result of a range capture operation.
+ * A plain selection has one area; a Ctrl-click selection has several.
+ * The top-level values/formulas/rowCount/columnCount mirror the first area.
+ */
+export interface CapturedRange extends CapturedArea {
+  /** Original address (e.g., "A1:C10" or "A1:A5,C1:C5") */
+  address: string;
+  /** Sheet name where the range was captured */
+  sourceSheet: string;
+  /** Every area in the capture, in selection order */
+  areas: CapturedArea[];
+}
+
+/**
+ * A single cell from a CapturedRange, with its absolute position
+ */
+export interface CapturedCell {
+  /** Cell reference (e.g., "B3") */
+  ref: string;
+  /** 1-based row number */
+  row: number;
+  /** 1-based column number */
+  column: number;
+  value: string | number | boolean | null;
+  /** Formula text (empty string if no formula) */
+  formula: string;
+  /** Displayed text, when captured with `display` */
+  text?: string;
+  /** Number format, when captured with `display` */
+  numberFormat?: string;
+  /** Excel value type, when captured with `valueTypes` */
+  valueType?: string;
+}
+
+/**
+ * Rectangular bounds of a range (1-based, inclusive)
+ */
+export interface RangeBounds {
+  startRow: number;
+  startColumn: number;
+  endRow: number;
+  endColumn: number;
+}
+
+/**
+ * A reference found inside a formula
+ */
+export interface FormulaReference {
+  /** Sheet name if the reference is sheet-qualified */
+  sheet?: string;
+  /** Address without the sheet prefix (e.g., "B2:B10", "$A$1", "C:C") */
+  address: string;
+}
+
+/**
+ * Options for tracing formula precedents/dependents
+ */
+export interface TraceOptions {
+  /** How many levels to follow from the captured cells (default: 2) */
+  depth?: number;
+  /** Follow the cells each formula reads from (default: true) */
+  precedents?: boolean;
+  /** Follow the cells whose formulas read the captured cells (default: false) */
+  dependents?: boolean;
+  /** Stop adding nodes after this many (default: 500) */
+  maxNodes?: number;
+  /** Ranges larger than this are kept as a single unexpanded node (default: 200) */
+  maxRangeCells?: number;
+}
+
+/**
+ * A cell (or unexpanded range) in a dependency graph
+ */
+export interface DependencyNode {
+  /** Sheet-qualified address (e.g., "Sheet1!B2") — unique within the graph */
+  id: string;
+  sheet: string;
+  address: string;
+  /** Levels away from the captured cells (0 = captured, negative = dependents) */
+  depth: number;
+  value?: string | number | boolean | null;
+  formula?: string;
+  /** True when the node is a range too large to expand cell by cell */
+  collapsed?: boolean;
+}
+
+/**
+ * A "feeds into" edge: the `from` node is read by the formula in the `to` node
+ */
+export interface DependencyEdge {
+  from: string;
+  to: string;
+}
+
+/**
+ * Precedent/dependent graph for a set of captured cells
+ */
+export interface DependencyGraph {
+  nodes: DependencyNode[];
+  edges: DependencyEdge[];
+  /** True if maxNodes was hit before tracing finished */
+  truncated: boolean;
+  /** References that could not be followed (external workbooks, missing sheets, etc.) */
+  warnings: string[];
+}
+
+/**
+ * A single cell in a context payload
+ */
+export interface CellData {
+  ref: string;
+  value: string | number | boolean | null;
+  formula: string | null;
+  /** Displayed text, when it differs from the value (e.g., "31/12/2023" for 45291, "(1,200)" for -1200) */
+  text?: string;
+  /** Number format behind `text` (e.g., "dd/mm/yyyy") */
+  numberFormat?: string;
+  /** "Error" for error cells like #REF!; every filled cell's type when captured with `valueTypes` */
+  valueType?: string;
+}
+
+/**
+ * Context sent to the AI for a selection
+ */
+export interface ContextPayload {
+  /** Selected address (comma-separated when there are several areas) */
+  selection: string;
+  sheet: string;
+  timestamp: string;
+  /** Every selected cell, area by area */
+  cells: CellData[];
+  /** Area addresses, only present when the selection has more than one */
+  areas?: string[];
+  /** Precedent/dependent graph (only when tracing is enabled) */
+  dependencies?: DependencyGraph;
+  /** What a token budget removed (only when truncation was applied) */
+  omissions?: ContextOmission[];
+  /** Statistics for numeric columns replaced by summarizeColumns */
+  summaries?: ColumnSummary[];
+  /** Detected table — its cells appear here as records instead of in `cells` */
+  table?: ContextTable;
+  /** Defined names used by the captured formulas */
+  names?: NamedRangeInfo[];
+  /** Changes since a snapshot — `cells` then holds the changed cells as they are now */
+  diff?: SnapshotDiff;
+  /** Formulas shared by contiguous cells — those cells have `formula: null` in `cells` */
+  formulaRegions?: FormulaRegion[];
+  /** Headers above the captured columns, for header redaction rules (dropped by redactPayload) */
+  columnHeaders?: ColumnHeader[];
+}
+
+/**
+ * A column header found on the sheet (the top row of a table or of the used
+ * range), so header rules apply when the header itself wasn't captured
+ */
+export interface ColumnHeader {
+  sheet: string;
+  /** Header cell (e.g., "B1") */
+  ref: string;
+  text: string;
+  /** Last row the header covers (a table's last row; absent for the used range) */
+  lastRow?: number;
+}
+
+/**
+ * What to hide before a payload leaves the add-in. Matches are replaced by
+ * stable placeholders such as "[ID-1]" — the same text always gets the same one.
+ */
+export interface RedactionRule {
+  /** Placeholder label: letters, digits and underscores (e.g., "ID" gives "[ID-1]") */
+  label: string;
+  /** Regular expression — every match in a value or formula is replaced */
+  pattern?: string;
+  /** Column headers (case-insensitive) whose values below are replaced whole */
+  headers?: string[];
+  /** Sheets whose values are all replaced whole */
+  sheets?: string[];
+}
+
+/**
+ * Placeholder → original text, kept locally to de-anonymize AI replies
+ */
+export type RedactionMap = Record<string, string>;
+
+/**
+ * Contiguous cells that share one formula pattern (e.g., a filled-down column)
+ */
+export interface FormulaRegion {
+  /** Cells covered by the pattern (e.g., "D2:D501") */
+  range: string;
+  /** The shared formula in R1C1 notation (e.g., "=RC[-2]*RC[-1]") */
+  formula: string;
+  /** Cells inside the range that break the pattern — a different formula or a typed-in value */
+  inconsistent?: string[];
+}
+
+/**
+ * Several pinned context payloads sent together (e.g., from different sheets)
+ */
+export interface BasketPayload {
+  timestamp: string;
+  /** Pinned payloads in basket order, each labelled with its sheet and address */
+  ranges: (ContextPayload & { label: string })[];
+}
+
+/**
+ * A named copy of a range, saved with the document to compare against later
+ */
+export interface RangeSnapshot {
+  name: string;
+  /** When the snapshot was taken (ISO 8601) */
+  takenAt: string;
+  /** Values and formulas at the time (formatting is not kept) */
+  captured: CapturedRange;
+}
+
+/**
+ * How a cell differs from its snapshot
+ */
+export type SnapshotChangeKind = 'valueChanged' | 'formulaChanged' | 'added' | 'cleared';
+
+/**
+ * One cell that differs from its snapshot
+ */
+export interface SnapshotChange {
+  ref: string;
+  kind: SnapshotChangeKind;
+  before: Pick<CellData, 'value' | 'formula'>;
+  after: Pick<CellData, 'value' | 'formula'>;
+}
+
+/**
+ * Cell-by-cell differences between a snapshot and the range now
+ */
+export interface SnapshotDiff {
+  snapshot: string;
+  sheet: string;
+  address: string;
+  takenAt: string;
+  comparedAt: string;
+  /** Changed cells, area by area, row by row */
+  changes: SnapshotChange[];
+}
+
+/**
+ * One sheet in a workbook overview
+ */
+export interface SheetOverview {
+  name: string;
+  /** Zero-based tab position */
+  position: number;
+  visibility: 'Visible' | 'Hidden' | 'VeryHidden';
+  /** Used range without sheet prefix, or null for an empty sheet */
+  usedRange: string | null;
+  rowCount: number;
+  columnCount: number;
+  tables: { name: string; address: string }[];
+  charts: { name: string; type: string }[];
+  /** Sheet-scoped defined names */
+  names: string[];
+  /** First rows of the used range (usually the headers) */
+  preview?: CellData['value'][][];
+}
+
+/**
+ * The shape of a whole workbook, for the AI to orient itself
+ */
+export interface WorkbookOverview {
+  timestamp: string;
+  activeSheet: string;
+  sheets: SheetOverview[];
+  /** Workbook-scoped defined names with what they refer to */
+  names: { name: string; definition: string }[];
+  /** What was left out to keep the overview within its size bound */
+  omissions?: string[];
+}
+
+/**
+ * Options for capturing a workbook overview
+ */
+export interface OverviewOptions {
+  /** Rows of each sheet's preview (default: 3, 0 for none) */
+  previewRows?: number;
+  /** Columns of each sheet's preview (default: 8) */
+  previewColumns?: number;
+  /** Estimated token limit for the serialized overview (default: no limit) */
+  maxTokens?: number;
+  /** Format the limit is measured in (default: "json") */
+  format?: OutputFormat;
+}
+
+/**
+ * Options for building a context payload
+ */
+export interface ContextOptions {
+  /** Include formula text for formula cells (default: true) */
+  includeFormulas?: boolean;
+  /** Emit this table's cells as records (see detectTable) */
+  table?: ContextTable | null;
+  /** Group cells that share a formula pattern into `formulaRegions` (default: true) */
+  formulaRegions?: boolean;
+  /** Include displayed text and number formats where they differ from the value, when captured with `display` (default: true) */
+  display?: boolean;
+}
+
+/**
+ * Inferred type of a table column
+ */
+export type ColumnType = 'number' | 'string' | 'boolean' | 'empty' | 'mixed';
+
+/**
+ * A column of a detected table
+ */
+export interface TableColumn {
+  name: string;
+  type: ColumnType;
+}
+
+/**
+ * A table found in (or around) a selection, with rows as records
+ */
+export interface ContextTable {
+  /** Excel table name — absent for heuristic detection */
+  name?: string;
+  /** "table" for an Excel table (ListObject), "heuristic" for a header-row block */
+  source: 'table' | 'heuristic';
+  /** Selected part of the table, including the header row if it was selected */
+  address: string;
+  columns: TableColumn[];
+  /** Sheet row number of the first record */
+  firstRow: number;
+  /** One object per row, keyed by column name */
+  records: Record<string, string | number | boolean | null>[];
+  /** Sheet row of each record — only present once records were sampled */
+  recordRows?: number[];
+  /** Formula text keyed by cell ref (formula cells only) */
+  formulas?: Record<string, string>;
+}
+
+/**
+ * Supported context output formats
+ */
+export type OutputFormat = 'json' | 'compact' | 'markdown' | 'csv' | 'tsv';
+
+/**
+ * A defined name and what it currently resolves to
+ */
+export interface NamedRangeInfo {
+  name: string;
+  /** "workbook", or the sheet name for sheet-scoped names */
+  scope: string;
+  /** Definition as shown in Name Manager (e.g., "=Data!$B$2:$B$13") */
+  definition: string;
+  /** Excel's NamedItemType (e.g., "Range", "Double", "String") */
+  type: string;
+  /** Sheet-qualified address when the name refers to a range */
+  address?: string;
+  /** Current value(s) — a 2D array for ranges, a scalar otherwise */
+  value?: unknown;
+  comment?: string;
+  /** True when the range was too large and its values were left out */
+  truncated?: boolean;
+}
+
+/**
+ * Ways to shrink a payload that is over its token budget
+ */
+export type TruncationStrategy = 'dropEmpty' | 'collapseFormulas' | 'sampleRows' | 'summarizeColumns';
+
+/**
+ * Options for fitting a payload into a token budget
+ */
+export interface BudgetOptions {
+  /** Maximum estimated tokens for the serialized payload */
+  maxTokens: number;
+  /** Format the budget is measured in (default: "json") */
+  format?: OutputFormat;
+  /** Strategies to try, in order, until the payload fits (default: all four) */
+  strategies?: TruncationStrategy[];
+  /** Rows kept at the top of each area by sampleRows (default: 20) */
+  headRows?: number;
+  /** Rows kept at the bottom of each area by sampleRows (default: 5) */
+  tailRows?: number;
+}
+
+/**
+ * A record of cells removed (or stripped) by a truncation strategy
+ */
+export interface ContextOmission {
+  strategy: TruncationStrategy;
+  /** Exactly which cells were affected */
+  ranges: string[];
+  cellCount: number;
+  note: string;
+}
+
+/**
+ * Summary of a numeric column whose cells were dropped
+ */
+export interface ColumnSummary {
+  /** Range the statistics cover (header excluded) */
+  range: string;
+  header?: string;
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  mean: number;
 }
 
 /**
@@ -33,14 +548,87 @@ export interface CreateSheetOptions {
   position?: 'before' | 'after' | 'end';
 }
 
+/**
+ * How formulas are written when pasting
+ * - shiftRelative: relative references move with the paste, like Excel's copy/paste
+ * - asTyped: formulas are written exactly as captured (A1 text)
+ * - valuesOnly: values only, no formulas
+ */
+export type PasteMode = 'shiftRelative' | 'asTyped' | 'valuesOnly';
+
 /**
  * Options for pasting a range
  */
-export interface PasteOptions {
+export interface PasteOptions extends ChunkOptions {
   /** Target address to paste to (default: same as source) */
   targetAddress?: string;
-  /** Whether to paste values only (no formulas) */
+  /** Whether to paste values only (no formulas) — same as mode: 'valuesOnly' */
   valuesOnly?: boolean;
+  /** How formulas are written (default: "shiftRelative") */
+  mode?: PasteMode;
+  /** Which captured formatting to carry — `false` for none (default: everything captured) */
+  formatting?: boolean | FormattingParts;
+}
+
+/**
+ * One automation run recorded in the undo journal
+ */
+export interface JournalEntry {
+  /** Automation name (e.g., "duplicateSelection") */
+  automation: string;
+  /** When the automation ran (ISO 8601) */
+  timestamp: string;
+  /** Sheet that was active before the automation ran */
+  activeSheet?: string;
+  /** Cells as they were before being overwritten, oldest first */
+  snapshots: CapturedRange[];
+  /** Names of sheets the automation created, oldest first */
+  createdSheets: string[];
+}
+
+/**
+ * One proposed cell edit — give either a value or a formula
+ */
+export interface CellChange {
+  /** Cell reference keyed like CellData.ref (e.g., "B3", or "'Q1 Data'!B3" for another sheet) */
+  ref: string;
+  /** New constant value */
+  value?: string | number | boolean | null;
+  /** New formula (starts with "=") */
+  formula?: string;
+}
+
+/**
+ * A set of cell edits, e.g. proposed by the AI
+ */
+export interface ChangeSet {
+  /** Sheet for unqualified refs (default: the active sheet) */
+  sheet?: string;
+  /** What the changes do */
+  description?: string;
+  changes: CellChange[];
+}
+
+/**
+ * A cell's contents before and after a proposed change
+ */
+export interface CellDiff {
+  sheet: string;
+  ref: string;
+  before: Pick<CellData, 'value' | 'formula'>;
+  after: Pick<CellData, 'value' | 'formula'>;
+  /** False when the cell already holds the proposed contents */
+  changed: boolean;
+}
+
+/**
+ * Preview of a change set against the workbook
+ */
+export interface ChangeSetPreview {
+  /** One diff per change whose target exists, in change-set order */
+  diffs: CellDiff[];
+  /** Changes that can't be applied (e.g., missing sheets) */
+  errors: string[];
 }
 
 /**
@@ -50,4 +638,165 @@ export interface AutomationResult<T = void> {
   success: boolean;
   data?: T;
   error?: string;
+  /** How far a chunked run got before it was cancelled or failed */
+  progress?: ChunkProgress;
+}
+
+/**
+ * A one-line message about an automation's result, for a status line or notification
+ */
+export interface ResultNotice {
+  type: 'success' | 'error';
+  message: string;
+}
+
+/**
+ * Describes one option or parameter, so forms and validation can be generated
+ */
+export interface OptionSpec {
+  /** Value type; "capture" is a CapturedRange from an earlier step */
+  type: 'string' | 'number' | 'boolean' | 'select' | 'capture';
+  /** Short human label */
+  label?: string;
+  /** One-line explanation */
+  description?: string;
+  /** Must be given */
+  required?: boolean;
+  /** Allowed values for "select" */
+  choices?: string[];
+  /** Display text for "select" choices (defaults to the value) */
+  choiceLabels?: Record<string, string>;
+  /** Value used when not given */
+  default?: unknown;
+}
+
+/**
+ * A runnable automation with the options it takes, so UIs can be generated
+ */
+export interface AutomationDefinition<O extends object = Record<string, unknown>, R = unknown> {
+  /** Unique id (e.g., "copySelectionToNewSheet") */
+  id: string;
+  /** Button text */
+  label: string;
+  /** One-line explanation */
+  description?: string;
+  /** Options the automation takes, keyed by option name */
+  options: { [K in keyof O]?: OptionSpec };
+  /** Run the automation (a complete automation — handles its own Excel.run); `control` reports progress and cancels long runs */
+  run(options: O, control?: Pick<ChunkOptions, 'onProgress' | 'signal'>): Promise<AutomationResult<R>>;
+  /** Message for a successful run (default: "<label> done") */
+  describeResult?(data: R): string;
+}
+
+/**
+ * One step of a pipeline
+ */
+export interface PipelineStep {
+  /** Variable the step's output is stored in */
+  id?: string;
+  /** Action to run (e.g., "captureRange") */
+  action: string;
+  /** Parameters — "$name" or "$name.path" uses a variable, "${name}" inserts one into text */
+  with?: Record<string, unknown>;
+}
+
+/**
+ * A declarative automation: steps mapped to library primitives
+ */
+export interface Pipeline {
+  name: string;
+  description?: string;
+  /** Initial variables (can be overridden when running) */
+  variables?: Record<string, unknown>;
+  steps: PipelineStep[];
+}
+
+/**
+ * Outcome of one pipeline step
+ */
+export interface PipelineStepResult extends AutomationResult<unknown> {
+  /** Zero-based step index */
+  index: number;
+  action: string;
+  id?: string;
+}
+
+/**
+ * Outcome of a pipeline run; data holds the final variables
+ */
+export interface PipelineRunResult extends AutomationResult<Record<string, unknown>> {
+  /** Results of the steps that ran, in order */
+  steps: PipelineStepResult[];
+}
+
+/**
+ * One turn of an AI chat conversation
+ */
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  /** Sheet and selection the question was asked about (user turns only) */
+  selection?: string;
+}
+
+/**
+ * What a chat provider is asked to answer
+ */
+export interface ChatRequest {
+  /** Conversation so far, ending with the new question */
+  messages: Pick<ChatMessage, 'role' | 'content'>[];
+  /** Context for the current selection */
+  context?: ContextPayload;
+}
+
+/**
+ * Sends chat requests to a language model — swap implementations to change
+ * where questions go (a proxy, a local mock server, ...)
+ */
+export interface ChatProvider {
+  /** Short name shown in the UI */
+  name: string;
+  /**
+   * Answer a request, calling onDelta with each piece of the reply as it streams.
+   * Resolves with the full reply; rejects on failure or when the signal aborts.
+   */
+  send(request: ChatRequest, onDelta: (text: string) => void, signal?: AbortSignal): Promise<string>;
+}
+
+/**
+ * A named bundle of task pane settings — saved per user, pinned to a
+ * workbook, or shared with the team as JSON. Anything left out uses the default.
+ */
+export interface SettingsProfile {
+  /** Profile name (e.g., "Audit review") */
+  name: string;
+  /** Output format (default: "json") */
+  format?: OutputFormat;
+  /** Token budget for copied output, 0 for none (default: 20000) */
+  maxTokens?: number;
+  /** Include formulas (default: true) */
+  includeFormulas?: boolean;
+  /** Group repeated formulas into regions (default: true) */
+  formulaRegions?: boolean;
+  /** Include displayed text and number formats (default: true) */
+  display?: boolean;
+  /** Detect tables and emit rows as records (default: true) */
+  detectTables?: boolean;
+  /** Resolve defined names used by formulas (default: true) */
+  resolveNames?: boolean;
+  /** Trace precedents (default: false) */
+  tracePrecedents?: boolean;
+  /** Trace dependents (default: false) */
+  traceDependents?: boolean;
+  /** Levels to trace, 1–10 (default: 2) */
+  traceDepth?: number;
+  /** Follow the selection as it changes (default: true) */
+  liveUpdate?: boolean;
+  /** Also refresh when the selected cells change (default: false) */
+  watchValues?: boolean;
+  /** Redaction rules applied before anything is copied or sent (default: none) */
+  redactionRules?: RedactionRule[];
+  /** Option values automations start with, keyed by automation id */
+  automationOptions?: Record<string, Record<string, unknown>>;
 }
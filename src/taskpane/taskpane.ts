@@ -4,59 +4,302 @@
  * + Automation library for composable Excel tasks
  */
 
-import { copySelectionToNewSheet } from '../lib';
-
-interface CellData {
-  ref: string;
-  value: string | number | boolean | null;
-  formula: string | null;
-}
-
-interface ContextPayload {
-  selection: string;
-  sheet: string;
-  timestamp: string;
-  cells: CellData[];
-}
+import {
+  applyBasketBudget,
+  applyBudget,
+  applyChangeSet,
+  AutomationDefinition,
+  BudgetResult,
+  captureSelection,
+  captureSelectionContext,
+  captureWorkbookOverview,
+  CellData,
+  CellDiff,
+  ChangeSet,
+  ChatMessage,
+  ChunkProgress,
+  clearChatHistory,
+  clearRedactionMap,
+  createHttpChatProvider,
+  ContextPayload,
+  deleteSnapshot,
+  describeAutomationResult,
+  diffSnapshot,
+  diffToContextPayload,
+  exportProfiles,
+  getActiveProfile,
+  getAutomations,
+  getBasketLabel,
+  getDefaultOptions,
+  getJournal,
+  getSnapshot,
+  getSnapshots,
+  getUserSettingsStorage,
+  getWorkbookKey,
+  getWorkbookProfile,
+  loadChatHistory,
+  loadRedactionMap,
+  loadUserSettings,
+  moveContext,
+  OUTPUT_FORMATS,
+  OptionSpec,
+  OutputFormat,
+  parseChangeSet,
+  parseProfiles,
+  pinContext,
+  parsePipeline,
+  Pipeline,
+  previewChangeSet,
+  PipelineStepResult,
+  parseRedactionRules,
+  RedactionMap,
+  RedactionRule,
+  redactOverview,
+  redactPayload,
+  removeProfile,
+  resolveProfile,
+  restorePlaceholders,
+  runExclusive,
+  runPipeline,
+  saveChatHistory,
+  saveRedactionMap,
+  saveSnapshot,
+  saveUserSettings,
+  SelectionTracker,
+  sendChatMessage,
+  serializeBasket,
+  serializeContext,
+  serializeOverview,
+  setWorkbookProfile,
+  SettingsProfile,
+  SettingsStorage,
+  SnapshotChange,
+  SnapshotDiff,
+  trackSelection,
+  undoLastAutomation,
+  unpinContext,
+  upsertProfile,
+  UserSettings,
+  validateOptions,
+  WorkbookOverview
+} from '../lib';
+import { COMMAND_RESULT_EVENT, CommandResultEvent } from '../commands/events';
 
 // State
 let currentContext: ContextPayload | null = null;
-let selectionHandler: OfficeExtension.EventHandlerResult<Excel.WorksheetSelectionChangedEventArgs> | null = null;
+let basket: ContextPayload[] = [];
+let selectionTracker: SelectionTracker | null = null;
+let chatHistory: ChatMessage[] = [];
+let chatAbort: AbortController | null = null;
+let pendingChanges: { changeSet: ChangeSet; diffs: CellDiff[] } | null = null;
+let lastSnapshotDiff: SnapshotDiff | null = null;
+let redactionRules: RedactionRule[] = [];
+let redactionMap: RedactionMap = {};
+let settingsStorage: SettingsStorage;
+let userSettings: UserSettings;
 
 // DOM Elements
 const selectionAddressEl = document.getElementById('selectionAddress') as HTMLDivElement;
 const cellCountEl = document.getElementById('cellCount') as HTMLDivElement;
+const tokenEstimateEl = document.getElementById('tokenEstimate') as HTMLDivElement;
 const contextJsonEl = document.getElementById('contextJson') as HTMLPreElement;
 const copyBtn = document.getElementById('copyBtn') as HTMLButtonElement;
 const refreshBtn = document.getElementById('refreshBtn') as HTMLButtonElement;
+const pinBtn = document.getElementById('pinBtn') as HTMLButtonElement;
+const overviewBtn = document.getElementById('overviewBtn') as HTMLButtonElement;
+const basketEl = document.getElementById('basket') as HTMLDivElement;
+const basketTitleEl = document.getElementById('basketTitle') as HTMLSpanElement;
+const basketListEl = document.getElementById('basketList') as HTMLOListElement;
+const clearBasketBtn = document.getElementById('clearBasketBtn') as HTMLButtonElement;
 const statusEl = document.getElementById('status') as HTMLDivElement;
 const includeFormulasCheckbox = document.getElementById('includeFormulas') as HTMLInputElement;
+const groupFormulasCheckbox = document.getElementById('groupFormulas') as HTMLInputElement;
+const includeDisplayCheckbox = document.getElementById('includeDisplay') as HTMLInputElement;
 const liveUpdateCheckbox = document.getElementById('liveUpdate') as HTMLInputElement;
+const watchValuesCheckbox = document.getElementById('watchValues') as HTMLInputElement;
+const tracePrecedentsCheckbox = document.getElementById('tracePrecedents') as HTMLInputElement;
+const traceDependentsCheckbox = document.getElementById('traceDependents') as HTMLInputElement;
+const traceDepthInput = document.getElementById('traceDepth') as HTMLInputElement;
+const detectTablesCheckbox = document.getElementById('detectTables') as HTMLInputElement;
+const resolveNamesCheckbox = document.getElementById('resolveNames') as HTMLInputElement;
+const outputFormatSelect = document.getElementById('outputFormat') as HTMLSelectElement;
+const tokenBudgetInput = document.getElementById('tokenBudget') as HTMLInputElement;
+
+// Profile DOM Elements
+const profileSelect = document.getElementById('profileSelect') as HTMLSelectElement;
+const deleteProfileBtn = document.getElementById('deleteProfileBtn') as HTMLButtonElement;
+const profileNameInput = document.getElementById('profileName') as HTMLInputElement;
+const saveProfileBtn = document.getElementById('saveProfileBtn') as HTMLButtonElement;
+const pinProfileCheckbox = document.getElementById('pinProfile') as HTMLInputElement;
+const exportProfilesBtn = document.getElementById('exportProfilesBtn') as HTMLButtonElement;
+const importProfilesBtn = document.getElementById('importProfilesBtn') as HTMLButtonElement;
+const profilesFileInput = document.getElementById('profilesFile') as HTMLInputElement;
+
+// Redaction DOM Elements
+const redactionRulesEditor = document.getElementById('redactionRules') as HTMLTextAreaElement;
+const keepRedactionMapCheckbox = document.getElementById('keepRedactionMap') as HTMLInputElement;
+const saveRedactionBtn = document.getElementById('saveRedactionBtn') as HTMLButtonElement;
+const forgetRedactionMapBtn = document.getElementById('forgetRedactionMapBtn') as HTMLButtonElement;
+
+// Chat DOM Elements
+const chatEndpointInput = document.getElementById('chatEndpoint') as HTMLInputElement;
+const chatLogEl = document.getElementById('chatLog') as HTMLDivElement;
+const chatInput = document.getElementById('chatInput') as HTMLTextAreaElement;
+const sendChatBtn = document.getElementById('sendChatBtn') as HTMLButtonElement;
+const stopChatBtn = document.getElementById('stopChatBtn') as HTMLButtonElement;
+const clearChatBtn = document.getElementById('clearChatBtn') as HTMLButtonElement;
+
+// Change set DOM Elements
+const changeSetEditor = document.getElementById('changeSetEditor') as HTMLTextAreaElement;
+const previewChangesBtn = document.getElementById('previewChangesBtn') as HTMLButtonElement;
+const applyChangesBtn = document.getElementById('applyChangesBtn') as HTMLButtonElement;
+const changeDiffEl = document.getElementById('changeDiff') as HTMLTableElement;
+const changeDiffBody = document.getElementById('changeDiffBody') as HTMLTableSectionElement;
+
+// Snapshot DOM Elements
+const snapshotNameInput = document.getElementById('snapshotName') as HTMLInputElement;
+const saveSnapshotBtn = document.getElementById('saveSnapshotBtn') as HTMLButtonElement;
+const snapshotSelect = document.getElementById('snapshotSelect') as HTMLSelectElement;
+const diffSnapshotBtn = document.getElementById('diffSnapshotBtn') as HTMLButtonElement;
+const deleteSnapshotBtn = document.getElementById('deleteSnapshotBtn') as HTMLButtonElement;
+const snapshotDiffEl = document.getElementById('snapshotDiff') as HTMLDivElement;
+const snapshotSummaryEl = document.getElementById('snapshotSummary') as HTMLDivElement;
+const snapshotChangesEl = document.getElementById('snapshotChanges') as HTMLOListElement;
+const copyDiffBtn = document.getElementById('copyDiffBtn') as HTMLButtonElement;
 
 // Automation DOM Elements
-const copyToNewSheetBtn = document.getElementById('copyToNewSheetBtn') as HTMLButtonElement;
-const automationValuesOnlyCheckbox = document.getElementById('automationValuesOnly') as HTMLInputElement;
+const automationListEl = document.getElementById('automationList') as HTMLDivElement;
+const undoBtn = document.getElementById('undoBtn') as HTMLButtonElement;
+
+// Pipeline DOM Elements
+const pipelineSelect = document.getElementById('pipelineSelect') as HTMLSelectElement;
+const pipelineFileInput = document.getElementById('pipelineFile') as HTMLInputElement;
+const pipelineEditor = document.getElementById('pipelineEditor') as HTMLTextAreaElement;
+const pipelineResultsEl = document.getElementById('pipelineResults') as HTMLOListElement;
+const openPipelineBtn = document.getElementById('openPipelineBtn') as HTMLButtonElement;
+const validatePipelineBtn = document.getElementById('validatePipelineBtn') as HTMLButtonElement;
+const savePipelineBtn = document.getElementById('savePipelineBtn') as HTMLButtonElement;
+const deletePipelineBtn = document.getElementById('deletePipelineBtn') as HTMLButtonElement;
+const runPipelineBtn = document.getElementById('runPipelineBtn') as HTMLButtonElement;
+
+/** localStorage key holding saved pipelines (name → source text) */
+const PIPELINES_KEY = 'draftworx.pipelines';
+
+/** localStorage key holding the chat provider endpoint */
+const CHAT_ENDPOINT_KEY = 'draftworx.chatEndpoint';
+
+/** localStorage key the redaction rules were kept under before profiles (moved into the profile on load) */
+const REDACTION_RULES_KEY = 'draftworx.redactionRules';
+
+/** Quiet period after the last selection or edit before the pane refreshes */
+const SELECTION_DEBOUNCE_MS = 300;
 
 // Initialize Office
 Office.onReady(async (info) => {
   if (info.host === Office.HostType.Excel) {
     console.log('Draftworx Context initialized');
     
+    // Populate the output format picker
+    for (const format of OUTPUT_FORMATS) {
+      outputFormatSelect.add(new Option(format.label, format.id));
+    }
+    
     // Set up event listeners
     copyBtn.addEventListener('click', copyToClipboard);
     refreshBtn.addEventListener('click', () => extractSelectionData());
+    pinBtn.addEventListener('click', handlePin);
+    overviewBtn.addEventListener('click', copyWorkbookOverview);
+    clearBasketBtn.addEventListener('click', () => setBasket([]));
     liveUpdateCheckbox.addEventListener('change', toggleLiveUpdate);
+    watchValuesCheckbox.addEventListener('change', toggleLiveUpdate);
     includeFormulasCheckbox.addEventListener('change', () => extractSelectionData());
+    groupFormulasCheckbox.addEventListener('change', () => extractSelectionData());
+    includeDisplayCheckbox.addEventListener('change', () => extractSelectionData());
+    tracePrecedentsCheckbox.addEventListener('change', () => extractSelectionData());
+    traceDependentsCheckbox.addEventListener('change', () => extractSelectionData());
+    traceDepthInput.addEventListener('change', () => extractSelectionData());
+    detectTablesCheckbox.addEventListener('change', () => extractSelectionData());
+    resolveNamesCheckbox.addEventListener('change', () => extractSelectionData());
+    outputFormatSelect.addEventListener('change', updateUI);
+    tokenBudgetInput.addEventListener('change', updateUI);
+    
+    // Profile event listeners — restores the settings above and the redaction rules
+    await loadProfiles();
+    for (const control of getProfileControls()) {
+      control.addEventListener('change', () => saveCurrentProfile());
+    }
+    profileSelect.addEventListener('change', handleProfileSelect);
+    saveProfileBtn.addEventListener('click', handleSaveProfileAs);
+    deleteProfileBtn.addEventListener('click', handleDeleteProfile);
+    pinProfileCheckbox.addEventListener('change', handlePinProfile);
+    exportProfilesBtn.addEventListener('click', handleExportProfiles);
+    importProfilesBtn.addEventListener('click', () => profilesFileInput.click());
+    profilesFileInput.addEventListener('change', handleImportProfiles);
+    
+    // Redaction event listeners (before the chat log, which restores placeholders)
+    redactionMap = loadRedactionMap(localStorage, getWorkbookKey());
+    saveRedactionBtn.addEventListener('click', handleSaveRedactionRules);
+    keepRedactionMapCheckbox.addEventListener('change', () => {
+      if (!keepRedactionMapCheckbox.checked) {
+        handleForgetRedactionMap();
+      }
+    });
+    forgetRedactionMapBtn.addEventListener('click', handleForgetRedactionMap);
+    
+    // Chat event listeners
+    chatEndpointInput.value = localStorage.getItem(CHAT_ENDPOINT_KEY) ?? '';
+    chatEndpointInput.addEventListener('change', () => localStorage.setItem(CHAT_ENDPOINT_KEY, chatEndpointInput.value.trim()));
+    chatHistory = loadChatHistory(localStorage, getWorkbookKey());
+    renderChatLog();
+    sendChatBtn.addEventListener('click', handleSendChat);
+    stopChatBtn.addEventListener('click', () => chatAbort?.abort());
+    clearChatBtn.addEventListener('click', handleClearChat);
+    chatInput.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+        event.preventDefault();
+        handleSendChat();
+      }
+    });
+    
+    // Change set event listeners
+    previewChangesBtn.addEventListener('click', handlePreviewChanges);
+    applyChangesBtn.addEventListener('click', handleApplyChanges);
+    changeSetEditor.addEventListener('input', clearChangePreview);
+    
+    // Snapshot event listeners
+    renderSnapshotList();
+    saveSnapshotBtn.addEventListener('click', handleSaveSnapshot);
+    diffSnapshotBtn.addEventListener('click', handleDiffSnapshot);
+    deleteSnapshotBtn.addEventListener('click', handleDeleteSnapshot);
+    copyDiffBtn.addEventListener('click', handleCopyDiff);
+    snapshotSelect.addEventListener('change', () => (snapshotDiffEl.hidden = true));
+    
+    // Automation event listeners (buttons were rendered with the profile's options)
+    undoBtn.addEventListener('click', handleUndo);
+    
+    // Ribbon commands and shortcuts report here while the pane is open
+    window.addEventListener(COMMAND_RESULT_EVENT, (event) => {
+      const { message, type } = (event as CommandResultEvent).detail;
+      showStatus(message, type);
+      updateUndoButton();
+    });
     
-    // Automation event listeners
-    copyToNewSheetBtn.addEventListener('click', handleCopyToNewSheet);
+    // Pipeline event listeners
+    renderPipelineList();
+    pipelineSelect.addEventListener('change', handlePipelineSelect);
+    openPipelineBtn.addEventListener('click', () => pipelineFileInput.click());
+    pipelineFileInput.addEventListener('change', handlePipelineFile);
+    validatePipelineBtn.addEventListener('click', () => readPipeline());
+    savePipelineBtn.addEventListener('click', handleSavePipeline);
+    deletePipelineBtn.addEventListener('click', handleDeletePipeline);
+    runPipelineBtn.addEventListener('click', handleRunPipeline);
     
     // Initial extraction
     await extractSelectionData();
     
     // Set up live updates if enabled
     if (liveUpdateCheckbox.checked) {
-      await setupSelectionHandler();
+      await startSelectionTracking();
     }
   }
 });
@@ -65,65 +308,23 @@ Office.onReady(async (info) => {
  * Extract data from the current selection
  */
 async function extractSelectionData(): Promise<void> {
-  try {
-    await Excel.run(async (context) => {
-      const range = context.workbook.getSelectedRange();
-      const sheet = context.workbook.worksheets.getActiveWorksheet();
-      
-      // Load all needed properties
-      range.load(['address', 'values', 'formulas', 'rowCount', 'columnCount']);
-      sheet.load('name');
-      
-      await context.sync();
-      
-      const includeFormulas = includeFormulasCheckbox.checked;
-      const cells: CellData[] = [];
-      
-      // Parse the address to get column/row info
-      const fullAddress = range.address; // e.g., "Sheet1!A1:C3"
-      const addressPart = fullAddress.includes('!') 
-        ? fullAddress.split('!')[1] 
-        : fullAddress;
-      
-      // Get starting cell reference
-      const startCell = addressPart.split(':')[0];
-      const startCol = startCell.match(/[A-Z]+/)?.[0] || 'A';
-      const startRow = parseInt(startCell.match(/\d+/)?.[0] || '1');
-      
-      // Process each cell
-      for (let row = 0; row < range.rowCount; row++) {
-        for (let col = 0; col < range.columnCount; col++) {
-          const colLetter = getColumnLetter(columnToNumber(startCol) + col);
-          const rowNum = startRow + row;
-          const cellRef = `${colLetter}${rowNum}`;
-          
-          const value = range.values[row][col];
-          const formula = range.formulas[row][col];
-          
-          // Only include formula if it's different from the value (i.e., it's an actual formula)
-          const hasFormula = typeof formula === 'string' && formula.startsWith('=');
-          
-          cells.push({
-            ref: cellRef,
-            value: value,
-            formula: includeFormulas && hasFormula ? formula : null
-          });
-        }
-      }
-      
-      // Build context payload
-      currentContext = {
-        selection: addressPart,
-        sheet: sheet.name,
-        timestamp: new Date().toISOString(),
-        cells: cells
-      };
-      
-      // Update UI
-      updateUI();
-    });
-  } catch (error) {
-    console.error('Error extracting selection:', error);
+  const result = await captureSelectionContext({
+    includeFormulas: includeFormulasCheckbox.checked,
+    formulaRegions: groupFormulasCheckbox.checked,
+    display: includeDisplayCheckbox.checked,
+    tracePrecedents: tracePrecedentsCheckbox.checked,
+    traceDependents: traceDependentsCheckbox.checked,
+    traceDepth: Math.max(1, parseInt(traceDepthInput.value, 10) || 1),
+    detectTables: detectTablesCheckbox.checked,
+    resolveNames: resolveNamesCheckbox.checked,
+    redactionRules
+  });
+  
+  if (result.success && result.data) {
+    currentContext = result.data;
+    updateUI();
+  } else {
+    console.error('Error extracting selection:', result.error);
     showStatus('Error extracting selection data', 'error');
   }
 }
@@ -138,9 +339,78 @@ function updateUI(): void {
   selectionAddressEl.textContent = `${currentContext.sheet}!${currentContext.selection}`;
   cellCountEl.textContent = `${currentContext.cells.length} cell${currentContext.cells.length !== 1 ? 's' : ''}`;
   
-  // Update JSON display with syntax highlighting
-  const jsonString = JSON.stringify(currentContext, null, 2);
-  contextJsonEl.innerHTML = syntaxHighlight(jsonString);
+  // Update output display — JSON formats get syntax highlighting
+  const format = getOutputFormat();
+  const { text, tokens, truncated, withinBudget } = renderCopyOutput(currentContext);
+  contextJsonEl.innerHTML = format === 'json' || format === 'compact'
+    ? syntaxHighlight(text)
+    : escapeHtml(text);
+  
+  // Token estimate, flagged when the budget forced truncation or still doesn't fit
+  tokenEstimateEl.textContent = `~${tokens.toLocaleString()} tokens`
+    + (basket.length > 0 ? ` for ${basket.length} pinned` : '')
+    + (truncated ? ' (truncated)' : '')
+    + (withinBudget ? '' : ' — over budget');
+  tokenEstimateEl.className = `token-estimate${truncated || !withinBudget ? ' warning' : ''}`;
+}
+
+/**
+ * Serialize the context in the selected format, fitted to the token budget
+ */
+function renderOutput(payload: ContextPayload): { text: string; budget: BudgetResult } {
+  const format = getOutputFormat();
+  const budget = applyBudget(redact(payload), { maxTokens: getTokenBudget(), format });
+  
+  return { text: serializeContext(budget.payload, format), budget };
+}
+
+/**
+ * Serialize what Copy emits: the basket when anything is pinned, otherwise the selection
+ */
+function renderCopyOutput(payload: ContextPayload): { text: string; tokens: number; truncated: boolean; withinBudget: boolean } {
+  if (basket.length === 0) {
+    const { text, budget } = renderOutput(payload);
+    return {
+      text,
+      tokens: budget.tokens,
+      truncated: Boolean(budget.payload.omissions?.length),
+      withinBudget: budget.withinBudget
+    };
+  }
+  
+  const format = getOutputFormat();
+  const fitted = applyBasketBudget(redactBasket(basket), { maxTokens: getTokenBudget(), format });
+  return {
+    text: serializeBasket(fitted.basket, format),
+    tokens: fitted.tokens,
+    truncated: fitted.basket.some(pinned => pinned.omissions?.length),
+    withinBudget: fitted.withinBudget
+  };
+}
+
+/**
+ * Token budget from the settings (0 or blank means no limit)
+ */
+function getTokenBudget(): number {
+  const maxTokens = parseInt(tokenBudgetInput.value, 10);
+  return maxTokens > 0 ? maxTokens : Infinity;
+}
+
+/**
+ * Get the selected output format
+ */
+function getOutputFormat(): OutputFormat {
+  return outputFormatSelect.value as OutputFormat;
+}
+
+/**
+ * Escape text for display inside the output <pre>
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
 }
 
 /**
@@ -167,7 +437,7 @@ function syntaxHighlight(json: string): string {
 }
 
 /**
- * Copy context JSON to clipboard
+ * Copy context to clipboard in the selected output format
  */
 async function copyToClipboard(): Promise<void> {
   if (!currentContext) {
@@ -175,14 +445,15 @@ async function copyToClipboard(): Promise<void> {
     return;
   }
   
+  const output = renderCopyOutput(currentContext).text;
+  
   try {
-    const jsonString = JSON.stringify(currentContext, null, 2);
-    await navigator.clipboard.writeText(jsonString);
+    await navigator.clipboard.writeText(output);
     showStatus('Copied to clipboard!', 'success');
   } catch (error) {
     // Fallback for older browsers
     const textarea = document.createElement('textarea');
-    textarea.value = JSON.stringify(currentContext, null, 2);
+    textarea.value = output;
     document.body.appendChild(textarea);
     textarea.select();
     document.execCommand('copy');
@@ -191,6 +462,26 @@ async function copyToClipboard(): Promise<void> {
   }
 }
 
+/**
+ * Copy an overview of the whole workbook in the selected format, within the token budget
+ */
+async function copyWorkbookOverview(): Promise<void> {
+  const format = getOutputFormat();
+  
+  try {
+    const captured = await Excel.run(context =>
+      captureWorkbookOverview(context, { maxTokens: getTokenBudget(), format })
+    );
+    const overview = redactionRules.length > 0 ? redactOverviewForExport(captured) : captured;
+    await navigator.clipboard.writeText(serializeOverview(overview, format));
+    const trimmed = overview.omissions?.length ? ' (trimmed to fit the budget)' : '';
+    showStatus(`Copied overview of ${overview.sheets.length} sheets${trimmed}`, 'success');
+  } catch (error) {
+    console.error('Error capturing workbook overview:', error);
+    showStatus('Error capturing workbook overview', 'error');
+  }
+}
+
 /**
  * Show status message
  */
@@ -204,108 +495,1083 @@ function showStatus(message: string, type: 'success' | 'error'): void {
 }
 
 /**
- * Toggle live update on selection change
+ * Toggle live update on selection change (restarts tracking when the
+ * value-watching option changes)
  */
 async function toggleLiveUpdate(): Promise<void> {
+  await stopSelectionTracking();
+  watchValuesCheckbox.disabled = !liveUpdateCheckbox.checked;
   if (liveUpdateCheckbox.checked) {
-    await setupSelectionHandler();
-  } else {
-    await removeSelectionHandler();
+    await startSelectionTracking();
   }
 }
 
 /**
- * Set up selection change handler
+ * Track the selection across every sheet, refreshing once it settles
  */
-async function setupSelectionHandler(): Promise<void> {
+async function startSelectionTracking(): Promise<void> {
   try {
-    await Excel.run(async (context) => {
-      const sheet = context.workbook.worksheets.getActiveWorksheet();
-      selectionHandler = sheet.onSelectionChanged.add(async () => {
-        await extractSelectionData();
-      });
-      await context.sync();
-      console.log('Selection handler registered');
+    selectionTracker = await trackSelection(() => extractSelectionData(), {
+      debounceMs: SELECTION_DEBOUNCE_MS,
+      watchValues: watchValuesCheckbox.checked,
+      onError: error => console.error('Error refreshing selection:', error),
     });
+    console.log('Selection tracking started');
   } catch (error) {
-    console.error('Error setting up selection handler:', error);
+    console.error('Error starting selection tracking:', error);
   }
 }
 
 /**
- * Remove selection change handler
+ * Stop tracking the selection
  */
-async function removeSelectionHandler(): Promise<void> {
-  if (selectionHandler) {
+async function stopSelectionTracking(): Promise<void> {
+  if (selectionTracker) {
     try {
-      await Excel.run(selectionHandler.context, async (context) => {
-        selectionHandler!.remove();
-        await context.sync();
-        selectionHandler = null;
-        console.log('Selection handler removed');
-      });
+      await selectionTracker.stop();
+      console.log('Selection tracking stopped');
     } catch (error) {
-      console.error('Error removing selection handler:', error);
+      console.error('Error stopping selection tracking:', error);
+    } finally {
+      selectionTracker = null;
+    }
+  }
+}
+
+// ============================================================================
+// BASKET
+// ============================================================================
+
+/**
+ * Pin the current selection's context to the basket
+ */
+function handlePin(): void {
+  if (!currentContext) {
+    showStatus('No data to pin', 'error');
+    return;
+  }
+  setBasket(pinContext(basket, currentContext));
+  showStatus(`Pinned ${getBasketLabel(currentContext)}`, 'success');
+}
+
+function setBasket(next: ContextPayload[]): void {
+  basket = next;
+  renderBasket();
+  updateUI();
+}
+
+/**
+ * List pinned ranges with move up/down and remove controls
+ */
+function renderBasket(): void {
+  basketListEl.innerHTML = '';
+  basketEl.hidden = basket.length === 0;
+  basketTitleEl.textContent = `Basket (${basket.length})`;
+  
+  basket.forEach((payload, index) => {
+    const item = document.createElement('li');
+    
+    const label = document.createElement('span');
+    label.className = 'basket-label';
+    label.textContent = getBasketLabel(payload);
+    const meta = document.createElement('span');
+    meta.className = 'basket-meta';
+    meta.textContent = `${payload.cells.length} cells`;
+    item.append(label, meta);
+    
+    const controls: [string, string, () => ContextPayload[], boolean][] = [
+      ['↑', 'Move up', () => moveContext(basket, index, index - 1), index === 0],
+      ['↓', 'Move down', () => moveContext(basket, index, index + 1), index === basket.length - 1],
+      ['✕', 'Remove', () => unpinContext(basket, index), false]
+    ];
+    for (const [text, title, change, disabled] of controls) {
+      const button = document.createElement('button');
+      button.className = 'secondary';
+      button.textContent = text;
+      button.title = title;
+      button.disabled = disabled;
+      button.addEventListener('click', () => setBasket(change()));
+      item.appendChild(button);
+    }
+    
+    basketListEl.appendChild(item);
+  });
+}
+
+// ============================================================================
+// PROFILES
+// ============================================================================
+
+/**
+ * Controls whose values are saved to the profile as they change
+ */
+function getProfileControls(): HTMLElement[] {
+  return [
+    outputFormatSelect,
+    tokenBudgetInput,
+    includeFormulasCheckbox,
+    groupFormulasCheckbox,
+    includeDisplayCheckbox,
+    liveUpdateCheckbox,
+    watchValuesCheckbox,
+    detectTablesCheckbox,
+    resolveNamesCheckbox,
+    tracePrecedentsCheckbox,
+    traceDependentsCheckbox,
+    traceDepthInput,
+  ];
+}
+
+/**
+ * Load the user's profiles and switch to the one pinned to this workbook, if any
+ */
+async function loadProfiles(): Promise<void> {
+  settingsStorage = getUserSettingsStorage();
+  userSettings = await loadUserSettings(settingsStorage);
+  
+  // Rules saved before profiles existed join the profile in use
+  const legacyRules = localStorage.getItem(REDACTION_RULES_KEY);
+  if (legacyRules !== null) {
+    try {
+      const active = getActiveProfile(userSettings);
+      if (!active.redactionRules?.length && legacyRules.trim()) {
+        userSettings = upsertProfile(userSettings, { ...active, redactionRules: parseRedactionRules(legacyRules) });
+        await saveUserSettings(settingsStorage, userSettings);
+      }
+      localStorage.removeItem(REDACTION_RULES_KEY);
+    } catch (error) {
+      console.error('Could not move the saved redaction rules into the profile:', error);
+    }
+  }
+  
+  const pinned = getWorkbookProfile(Office.context.document.settings);
+  if (pinned) {
+    userSettings = upsertProfile(userSettings, pinned);
+  }
+  pinProfileCheckbox.checked = !!pinned;
+  applyProfile(getActiveProfile(userSettings));
+  renderProfileList();
+}
+
+/**
+ * Set the controls, redaction rules and automation options from a profile
+ */
+function applyProfile(profile: SettingsProfile): void {
+  const settings = resolveProfile(profile);
+  outputFormatSelect.value = settings.format;
+  tokenBudgetInput.value = String(settings.maxTokens);
+  includeFormulasCheckbox.checked = settings.includeFormulas;
+  groupFormulasCheckbox.checked = settings.formulaRegions;
+  includeDisplayCheckbox.checked = settings.display;
+  liveUpdateCheckbox.checked = settings.liveUpdate;
+  watchValuesCheckbox.checked = settings.watchValues;
+  watchValuesCheckbox.disabled = !settings.liveUpdate;
+  detectTablesCheckbox.checked = settings.detectTables;
+  resolveNamesCheckbox.checked = settings.resolveNames;
+  tracePrecedentsCheckbox.checked = settings.tracePrecedents;
+  traceDependentsCheckbox.checked = settings.traceDependents;
+  traceDepthInput.value = String(settings.traceDepth);
+  redactionRules = settings.redactionRules;
+  redactionRulesEditor.value = redactionRules.length > 0 ? JSON.stringify(redactionRules, null, 2) : '';
+  renderAutomations();
+}
+
+/**
+ * The profile in use with the controls' current values
+ */
+function readProfile(): SettingsProfile {
+  return {
+    ...getActiveProfile(userSettings),
+    format: getOutputFormat(),
+    maxTokens: Math.max(0, parseInt(tokenBudgetInput.value, 10) || 0),
+    includeFormulas: includeFormulasCheckbox.checked,
+    formulaRegions: groupFormulasCheckbox.checked,
+    display: includeDisplayCheckbox.checked,
+    liveUpdate: liveUpdateCheckbox.checked,
+    watchValues: watchValuesCheckbox.checked,
+    detectTables: detectTablesCheckbox.checked,
+    resolveNames: resolveNamesCheckbox.checked,
+    tracePrecedents: tracePrecedentsCheckbox.checked,
+    traceDependents: traceDependentsCheckbox.checked,
+    traceDepth: Math.min(10, Math.max(1, parseInt(traceDepthInput.value, 10) || 1)),
+    redactionRules,
+  };
+}
+
+/**
+ * Save a profile as the one in use — to the user's profiles, and to the
+ * workbook when it is pinned there
+ */
+async function saveCurrentProfile(profile: SettingsProfile = readProfile()): Promise<void> {
+  userSettings = upsertProfile(userSettings, profile);
+  try {
+    await saveUserSettings(settingsStorage, userSettings);
+    if (pinProfileCheckbox.checked) {
+      await setWorkbookProfile(Office.context.document.settings, profile);
     }
+  } catch (error) {
+    showStatus(error instanceof Error ? error.message : 'Could not save the profile', 'error');
   }
 }
 
 /**
- * Convert column letter to number (A=1, B=2, ..., Z=26, AA=27, etc.)
+ * Remember the options an automation last ran with as its defaults
  */
-function columnToNumber(col: string): number {
-  let num = 0;
-  for (let i = 0; i < col.length; i++) {
-    num = num * 26 + (col.charCodeAt(i) - 64);
+async function rememberAutomationOptions(id: string, options: Record<string, unknown>): Promise<void> {
+  const profile = getActiveProfile(userSettings);
+  await saveCurrentProfile({
+    ...profile,
+    automationOptions: { ...profile.automationOptions, [id]: options },
+  });
+}
+
+function renderProfileList(): void {
+  profileSelect.innerHTML = '';
+  for (const profile of userSettings.profiles) {
+    profileSelect.add(new Option(profile.name, profile.name));
   }
-  return num;
+  profileSelect.value = userSettings.activeProfile;
+  deleteProfileBtn.disabled = userSettings.profiles.length === 1;
+}
+
+/**
+ * Switch to another profile and refresh with its settings
+ */
+async function switchProfile(name: string): Promise<void> {
+  userSettings = { ...userSettings, activeProfile: name };
+  const profile = getActiveProfile(userSettings);
+  applyProfile(profile);
+  renderProfileList();
+  await saveCurrentProfile(profile);
+  await toggleLiveUpdate();
+  await extractSelectionData();
+}
+
+async function handleProfileSelect(): Promise<void> {
+  await switchProfile(profileSelect.value);
+  showStatus(`Using profile "${profileSelect.value}"`, 'success');
 }
 
 /**
- * Convert column number to letter
+ * Save the current settings under a new name and switch to it
  */
-function getColumnLetter(num: number): string {
-  let letter = '';
-  while (num > 0) {
-    const mod = (num - 1) % 26;
-    letter = String.fromCharCode(65 + mod) + letter;
-    num = Math.floor((num - 1) / 26);
+async function handleSaveProfileAs(): Promise<void> {
+  const name = profileNameInput.value.trim();
+  if (!name) {
+    showStatus('Name the profile first', 'error');
+    return;
+  }
+  await saveCurrentProfile({ ...readProfile(), name });
+  profileNameInput.value = '';
+  renderProfileList();
+  showStatus(`Saved profile "${name}"`, 'success');
+}
+
+async function handleDeleteProfile(): Promise<void> {
+  const name = profileSelect.value;
+  if (!confirm(`Delete profile "${name}"?`)) {
+    return;
+  }
+  try {
+    userSettings = removeProfile(userSettings, name);
+  } catch (error) {
+    showStatus(error instanceof Error ? error.message : String(error), 'error');
+    return;
+  }
+  await switchProfile(userSettings.activeProfile);
+  showStatus(`Deleted profile "${name}"`, 'success');
+}
+
+/**
+ * Save the profile in use with the workbook, or stop doing so
+ */
+async function handlePinProfile(): Promise<void> {
+  const profile = getActiveProfile(userSettings);
+  try {
+    await setWorkbookProfile(Office.context.document.settings, pinProfileCheckbox.checked ? profile : null);
+    showStatus(pinProfileCheckbox.checked ? `This workbook now uses "${profile.name}"` : 'Profile unpinned from this workbook', 'success');
+  } catch (error) {
+    pinProfileCheckbox.checked = !pinProfileCheckbox.checked;
+    showStatus(error instanceof Error ? error.message : 'Could not save the workbook profile', 'error');
+  }
+}
+
+async function handleExportProfiles(): Promise<void> {
+  try {
+    await navigator.clipboard.writeText(exportProfiles(userSettings.profiles));
+    showStatus(`Copied ${userSettings.profiles.length} profile${userSettings.profiles.length !== 1 ? 's' : ''} as JSON`, 'success');
+  } catch {
+    showStatus('Could not copy the profiles', 'error');
+  }
+}
+
+/**
+ * Add profiles from a shared JSON file (same names are replaced) and switch to the last one
+ */
+async function handleImportProfiles(): Promise<void> {
+  const file = profilesFileInput.files?.[0];
+  if (!file) {
+    return;
+  }
+  profilesFileInput.value = '';
+  try {
+    const imported = parseProfiles(await file.text());
+    userSettings = imported.reduce(upsertProfile, userSettings);
+    await switchProfile(userSettings.activeProfile);
+    showStatus(`Imported ${imported.length} profile${imported.length !== 1 ? 's' : ''}`, 'success');
+  } catch (error) {
+    showStatus(error instanceof Error ? error.message : 'Import failed', 'error');
   }
-  return letter;
 }
 
 // ============================================================================
-// AUTOMATIONS
+// REDACTION
+// ============================================================================
+
+/**
+ * Redact a payload with the saved rules before it is shown, copied or sent.
+ * New placeholders join the mapping when it is kept.
+ */
+function redact(payload: ContextPayload): ContextPayload {
+  return redactBasket([payload])[0];
+}
+
+/**
+ * Redact every pinned payload with one running mapping, so placeholders
+ * don't restart for each payload when the mapping isn't kept
+ */
+function redactBasket(payloads: ContextPayload[]): ContextPayload[] {
+  if (redactionRules.length === 0 && !payloads.some(payload => payload.columnHeaders)) {
+    return payloads;
+  }
+  const { redacted, map } = payloads.reduce<{ redacted: ContextPayload[]; map: RedactionMap }>((acc, payload) => {
+    const result = redactPayload(payload, redactionRules, acc.map);
+    return { redacted: [...acc.redacted, result.redacted], map: result.map };
+  }, { redacted: [], map: getRedactionMap() });
+  rememberPlaceholders(map);
+  return redacted;
+}
+
+function redactOverviewForExport(overview: WorkbookOverview): WorkbookOverview {
+  const { redacted, map } = redactOverview(overview, redactionRules, getRedactionMap());
+  rememberPlaceholders(map);
+  return redacted;
+}
+
+/**
+ * The mapping to continue: the stored one when it is kept, since the ribbon
+ * commands and worksheet functions add to it too
+ */
+function getRedactionMap(): RedactionMap {
+  if (keepRedactionMapCheckbox.checked) {
+    redactionMap = loadRedactionMap(localStorage, getWorkbookKey());
+  }
+  return redactionMap;
+}
+
+/**
+ * Keep the mapping for this workbook (only when "Keep a local mapping" is ticked)
+ */
+function rememberPlaceholders(map: RedactionMap): void {
+  if (!keepRedactionMapCheckbox.checked || Object.keys(map).length === Object.keys(redactionMap).length) {
+    return;
+  }
+  redactionMap = map;
+  saveRedactionMap(localStorage, getWorkbookKey(), map);
+}
+
+/**
+ * Read the rules from the editor (blank means no redaction).
+ * Invalid rules leave the previous ones in force.
+ */
+function loadRedactionRules(): boolean {
+  const text = redactionRulesEditor.value.trim();
+  try {
+    redactionRules = text ? parseRedactionRules(text) : [];
+    return true;
+  } catch (error) {
+    showStatus(error instanceof Error ? error.message : String(error), 'error');
+    return false;
+  }
+}
+
+async function handleSaveRedactionRules(): Promise<void> {
+  if (!loadRedactionRules()) {
+    return;
+  }
+  await saveCurrentProfile();
+  // Capture again so header rules can look up the selection's column headers
+  await extractSelectionData();
+  showStatus(`Saved ${redactionRules.length} redaction rule${redactionRules.length !== 1 ? 's' : ''}`, 'success');
+}
+
+/**
+ * Drop this workbook's placeholder mapping (replies can no longer be restored)
+ */
+function handleForgetRedactionMap(): void {
+  redactionMap = {};
+  clearRedactionMap(localStorage, getWorkbookKey());
+  renderChatLog();
+}
+
+// ============================================================================
+// CHAT
 // ============================================================================
 
 /**
- * Handle the "Copy Selection to New Sheet" automation
+ * Show the conversation for this workbook
+ */
+function renderChatLog(): void {
+  chatLogEl.innerHTML = '';
+  for (const message of chatHistory) {
+    const content = restorePlaceholders(message.content, redactionMap);
+    const text = addChatMessage(message.role, content, message.selection);
+    if (message.role === 'assistant' && hasChangeSet(content)) {
+      const review = document.createElement('button');
+      review.className = 'secondary';
+      review.textContent = '🛠️ Review changes';
+      review.addEventListener('click', () => {
+        changeSetEditor.value = content;
+        handlePreviewChanges();
+      });
+      text.parentElement!.appendChild(review);
+    }
+  }
+  chatLogEl.scrollTop = chatLogEl.scrollHeight;
+}
+
+/**
+ * Append one message bubble, returning the element its text lives in
+ */
+function addChatMessage(role: ChatMessage['role'], content: string, selection?: string): HTMLElement {
+  const bubble = document.createElement('div');
+  bubble.className = `chat-message ${role}`;
+  if (selection) {
+    const label = document.createElement('span');
+    label.className = 'chat-selection';
+    label.textContent = selection;
+    bubble.appendChild(label);
+  }
+  const text = document.createElement('span');
+  text.textContent = content;
+  bubble.appendChild(text);
+  chatLogEl.appendChild(bubble);
+  return text;
+}
+
+/**
+ * Send the question with the current context (fitted to the token budget),
+ * streaming the reply into the log
  */
-async function handleCopyToNewSheet(): Promise<void> {
-  const valuesOnly = automationValuesOnlyCheckbox.checked;
+async function handleSendChat(): Promise<void> {
+  const question = chatInput.value.trim();
+  const endpoint = chatEndpointInput.value.trim();
+  if (!question || chatAbort) {
+    return;
+  }
+  if (!endpoint) {
+    showStatus('Set the chat endpoint first', 'error');
+    return;
+  }
   
-  // Disable button during operation
-  copyToNewSheetBtn.disabled = true;
-  copyToNewSheetBtn.textContent = '⏳ Working...';
+  const context = currentContext ? renderOutput(currentContext).budget.payload : undefined;
+  addChatMessage('user', question, context && `${context.sheet}!${context.selection}`);
+  const reply = addChatMessage('assistant', '…');
+  let streamed = '';
+  
+  chatInput.value = '';
+  chatAbort = new AbortController();
+  sendChatBtn.disabled = true;
+  stopChatBtn.disabled = false;
   
   try {
-    const result = await copySelectionToNewSheet({
-      valuesOnly,
-      activateNewSheet: true
+    const result = await sendChatMessage(createHttpChatProvider({ endpoint }), chatHistory, question, context, {
+      signal: chatAbort.signal,
+      onDelta: (text) => {
+        streamed += text;
+        reply.textContent = restorePlaceholders(streamed, redactionMap);
+        chatLogEl.scrollTop = chatLogEl.scrollHeight;
+      }
     });
     
-    if (result.success && result.data) {
-      showStatus(
-        `Created "${result.data.newSheetName}" with ${result.data.captured.rowCount * result.data.captured.columnCount} cells`,
-        'success'
-      );
+    if (result.success) {
+      chatHistory = result.data!;
+      saveChatHistory(localStorage, getWorkbookKey(), chatHistory);
     } else {
-      showStatus(result.error || 'Unknown error', 'error');
+      // Put the question back so it can be retried
+      chatInput.value = question;
+      showStatus(result.error || 'Chat failed', 'error');
+    }
+  } finally {
+    chatAbort = null;
+    sendChatBtn.disabled = false;
+    stopChatBtn.disabled = true;
+    renderChatLog();
+  }
+}
+
+function handleClearChat(): void {
+  chatHistory = [];
+  clearChatHistory(localStorage, getWorkbookKey());
+  renderChatLog();
+}
+
+/**
+ * Whether a reply contains a change set that could be reviewed
+ */
+function hasChangeSet(content: string): boolean {
+  try {
+    parseChangeSet(content);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// CHANGE SETS
+// ============================================================================
+
+/**
+ * Parse the change set and show a before/after diff with a checkbox per cell
+ */
+async function handlePreviewChanges(): Promise<void> {
+  clearChangePreview();
+  
+  let changeSet: ChangeSet;
+  try {
+    changeSet = parseChangeSet(changeSetEditor.value);
+  } catch (error) {
+    showStatus(error instanceof Error ? error.message.split('\n')[0] : 'Invalid change set', 'error');
+    return;
+  }
+  
+  try {
+    const preview = await Excel.run(context => previewChangeSet(context, changeSet));
+    if (preview.errors.length > 0) {
+      showStatus(preview.errors.join('; '), 'error');
+      return;
+    }
+    
+    pendingChanges = { changeSet, diffs: preview.diffs };
+    preview.diffs.forEach(renderDiffRow);
+    changeDiffEl.hidden = false;
+    applyChangesBtn.disabled = !preview.diffs.some(diff => diff.changed);
+  } catch (error) {
+    showStatus(error instanceof Error ? error.message : 'Preview failed', 'error');
+  }
+}
+
+function renderDiffRow(diff: CellDiff, index: number): void {
+  const row = changeDiffBody.insertRow();
+  row.className = diff.changed ? '' : 'unchanged';
+  
+  const approve = document.createElement('input');
+  approve.type = 'checkbox';
+  approve.dataset.index = String(index);
+  approve.checked = diff.changed;
+  approve.disabled = !diff.changed;
+  row.insertCell().appendChild(approve);
+  
+  row.insertCell().textContent = `${diff.sheet}!${diff.ref}`;
+  const before = row.insertCell();
+  before.className = diff.changed ? 'before' : '';
+  before.textContent = describeCell(diff.before);
+  const after = row.insertCell();
+  after.className = diff.changed ? 'after' : '';
+  after.textContent = diff.changed ? describeCell(diff.after) : 'unchanged';
+}
+
+function describeCell(cell: Pick<CellData, 'value' | 'formula'>): string {
+  if (cell.formula) {
+    return cell.formula;
+  }
+  return cell.value === null || cell.value === '' ? '(empty)' : String(cell.value);
+}
+
+/**
+ * Apply the approved rows of the previewed change set
+ */
+async function handleApplyChanges(): Promise<void> {
+  if (!pendingChanges) {
+    return;
+  }
+  
+  const approved = Array.from(changeDiffBody.querySelectorAll<HTMLInputElement>('input:checked'))
+    .map(input => pendingChanges!.changeSet.changes[Number(input.dataset.index)]);
+  if (approved.length === 0) {
+    showStatus('No changes selected', 'error');
+    return;
+  }
+  
+  applyChangesBtn.disabled = true;
+  applyChangesBtn.textContent = '⏳ Applying...';
+  
+  try {
+    const changeSet = { ...pendingChanges.changeSet, changes: approved };
+    const result = await runExclusive('Applying changes', () => applyChangeSet(changeSet));
+    
+    if (result.success) {
+      showStatus(`Changed ${result.data!.applied.length} cell${result.data!.applied.length !== 1 ? 's' : ''}`, 'success');
+      clearChangePreview();
+      await extractSelectionData();
+    } else {
+      showStatus(result.error || 'Applying changes failed', 'error');
+    }
+  } catch (error) {
+    showStatus(error instanceof Error ? error.message : 'Applying changes failed', 'error');
+  } finally {
+    applyChangesBtn.textContent = '✅ Apply selected';
+    applyChangesBtn.disabled = !pendingChanges;
+    updateUndoButton();
+  }
+}
+
+function clearChangePreview(): void {
+  pendingChanges = null;
+  changeDiffBody.innerHTML = '';
+  changeDiffEl.hidden = true;
+  applyChangesBtn.disabled = true;
+}
+
+// ============================================================================
+// SNAPSHOTS
+// ============================================================================
+
+/** Snapshot change kinds as shown in the diff list */
+const CHANGE_KIND_LABELS: Record<SnapshotChange['kind'], string> = {
+  valueChanged: 'value changed',
+  formulaChanged: 'formula changed',
+  added: 'added',
+  cleared: 'cleared'
+};
+
+/**
+ * Fill the snapshot picker from the document's saved snapshots
+ */
+function renderSnapshotList(selected = ''): void {
+  snapshotSelect.innerHTML = '';
+  const snapshots = getSnapshots(Office.context.document.settings);
+  if (snapshots.length === 0) {
+    snapshotSelect.add(new Option('No snapshots yet', ''));
+  }
+  for (const snapshot of snapshots) {
+    const taken = new Date(snapshot.takenAt).toLocaleString();
+    snapshotSelect.add(new Option(`${snapshot.name} — ${snapshot.captured.sourceSheet}!${snapshot.captured.address} (${taken})`, snapshot.name));
+  }
+  snapshotSelect.value = selected || snapshotSelect.value;
+}
+
+/**
+ * Snapshot the current selection under the given name
+ */
+async function handleSaveSnapshot(): Promise<void> {
+  const name = snapshotNameInput.value.trim();
+  if (!name) {
+    showStatus('Name the snapshot first', 'error');
+    return;
+  }
+  
+  try {
+    const captured = await Excel.run(context => captureSelection(context));
+    const snapshot = await saveSnapshot(Office.context.document.settings, name, captured);
+    snapshotNameInput.value = '';
+    renderSnapshotList(snapshot.name);
+    showStatus(`Saved snapshot "${snapshot.name}" of ${captured.sourceSheet}!${captured.address}`, 'success');
+  } catch (error) {
+    showStatus(error instanceof Error ? error.message : 'Snapshot failed', 'error');
+  }
+}
+
+/**
+ * Diff the chosen snapshot against the range now and list the changes
+ */
+async function handleDiffSnapshot(): Promise<void> {
+  const snapshot = getSnapshot(Office.context.document.settings, snapshotSelect.value);
+  if (!snapshot) {
+    showStatus('Choose a snapshot first', 'error');
+    return;
+  }
+  
+  try {
+    const diff = await Excel.run(context => diffSnapshot(context, snapshot));
+    lastSnapshotDiff = diff;
+    
+    snapshotSummaryEl.textContent = diff.changes.length === 0
+      ? `No changes in ${diff.sheet}!${diff.address} since "${diff.snapshot}"`
+      : `${diff.changes.length} cell${diff.changes.length !== 1 ? 's' : ''} changed in ${diff.sheet}!${diff.address} since "${diff.snapshot}"`;
+    snapshotChangesEl.innerHTML = '';
+    diff.changes.forEach(addSnapshotChange);
+    copyDiffBtn.disabled = diff.changes.length === 0;
+    snapshotDiffEl.hidden = false;
+  } catch (error) {
+    showStatus(error instanceof Error ? error.message : 'Diff failed', 'error');
+  }
+}
+
+function addSnapshotChange(change: SnapshotChange): void {
+  const item = document.createElement('li');
+  const before = document.createElement('code');
+  before.textContent = describeCell(change.before);
+  const after = document.createElement('code');
+  after.textContent = describeCell(change.after);
+  item.append(`${change.ref} ${CHANGE_KIND_LABELS[change.kind]}: `, before, ' → ', after);
+  snapshotChangesEl.appendChild(item);
+}
+
+async function handleDeleteSnapshot(): Promise<void> {
+  const name = snapshotSelect.value;
+  if (!name) {
+    return;
+  }
+  try {
+    await deleteSnapshot(Office.context.document.settings, name);
+    renderSnapshotList();
+    snapshotDiffEl.hidden = true;
+    showStatus(`Deleted snapshot "${name}"`, 'success');
+  } catch (error) {
+    showStatus(error instanceof Error ? error.message : 'Delete failed', 'error');
+  }
+}
+
+/**
+ * Copy the last diff as a context payload in the selected output format
+ */
+async function handleCopyDiff(): Promise<void> {
+  if (!lastSnapshotDiff) {
+    return;
+  }
+  try {
+    await navigator.clipboard.writeText(renderOutput(diffToContextPayload(lastSnapshotDiff)).text);
+    showStatus('Diff copied to clipboard!', 'success');
+  } catch {
+    showStatus('Could not copy the diff', 'error');
+  }
+}
+
+// ============================================================================
+// AUTOMATIONS
+// ============================================================================
+
+/**
+ * Render a button and option form for every registered automation
+ */
+function renderAutomations(): void {
+  automationListEl.innerHTML = '';
+  
+  for (const automation of getAutomations()) {
+    const container = document.createElement('div');
+    container.className = 'automation';
+    
+    const button = document.createElement('button');
+    button.className = 'automation-btn';
+    button.textContent = automation.label;
+    button.title = automation.description ?? '';
+    container.appendChild(button);
+    
+    const form = document.createElement('div');
+    form.className = 'automation-options';
+    const defaults = { ...getDefaultOptions(automation), ...getActiveProfile(userSettings).automationOptions?.[automation.id] };
+    for (const [name, spec] of Object.entries<OptionSpec | undefined>(automation.options)) {
+      if (spec && spec.type !== 'capture') {
+        form.appendChild(renderOptionInput(name, spec, defaults[name]));
+      }
+    }
+    if (form.childElementCount > 0) {
+      container.appendChild(form);
+    }
+    
+    button.addEventListener('click', () => handleAutomation(automation, button, form));
+    automationListEl.appendChild(container);
+  }
+}
+
+/**
+ * Build the labelled input for one automation option
+ */
+function renderOptionInput(name: string, spec: OptionSpec, value: unknown): HTMLLabelElement {
+  const label = document.createElement('label');
+  const text = spec.label ?? name;
+  label.title = spec.description ?? '';
+  
+  if (spec.type === 'boolean') {
+    const input = document.createElement('input');
+    input.type = 'checkbox';
+    input.name = name;
+    input.checked = value === true;
+    label.append(input, text);
+  } else if (spec.type === 'select') {
+    const select = document.createElement('select');
+    select.name = name;
+    for (const choice of spec.choices ?? []) {
+      select.add(new Option(spec.choiceLabels?.[choice] ?? choice, choice));
+    }
+    select.value = value === undefined ? '' : String(value);
+    label.append(text, select);
+  } else {
+    const input = document.createElement('input');
+    input.type = spec.type === 'number' ? 'number' : 'text';
+    input.name = name;
+    input.placeholder = spec.description ?? '';
+    input.value = value === undefined ? '' : String(value);
+    label.append(text, input);
+  }
+  
+  return label;
+}
+
+/**
+ * Read option values back from a generated form (blank fields are left out)
+ */
+function readOptionValues(automation: AutomationDefinition, form: HTMLElement): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const [name, spec] of Object.entries<OptionSpec | undefined>(automation.options)) {
+    const input = form.querySelector<HTMLInputElement | HTMLSelectElement>(`[name="${name}"]`);
+    if (!spec || !input) {
+      continue;
+    }
+    if (spec.type === 'boolean') {
+      values[name] = (input as HTMLInputElement).checked;
+    } else if (input.value.trim() !== '') {
+      values[name] = spec.type === 'number' ? Number(input.value) : input.value.trim();
+    }
+  }
+  return values;
+}
+
+/**
+ * Run a registered automation with shared busy state and status reporting
+ */
+async function handleAutomation(
+  automation: AutomationDefinition,
+  button: HTMLButtonElement,
+  form: HTMLElement
+): Promise<void> {
+  const options = readOptionValues(automation, form);
+  const errors = validateOptions(automation.options, options);
+  if (errors.length > 0) {
+    showStatus(errors.join('; '), 'error');
+    return;
+  }
+  
+  // Only one automation at a time
+  const buttons = automationListEl.querySelectorAll('button');
+  buttons.forEach(b => (b.disabled = true));
+  button.textContent = '⏳ Working...';
+  
+  // Long runs go in blocks of rows — show how far they are and let them be stopped
+  const controller = new AbortController();
+  const stopButton = document.createElement('button');
+  stopButton.className = 'automation-btn';
+  stopButton.textContent = '⏹ Stop';
+  stopButton.addEventListener('click', () => {
+    controller.abort();
+    stopButton.disabled = true;
+  });
+  button.after(stopButton);
+  const onProgress = ({ phase, completedRows, totalRows }: ChunkProgress) => {
+    const verb = phase === 'capture' ? 'Reading' : 'Writing';
+    button.textContent = `⏳ ${verb} ${completedRows.toLocaleString()} / ${totalRows.toLocaleString()} rows`;
+  };
+  
+  try {
+    const result = await runExclusive(automation.label, () =>
+      automation.run(options, { onProgress, signal: controller.signal })
+    );
+    const notice = describeAutomationResult(automation, result);
+    showStatus(notice.message, notice.type);
+    
+    if (result.success) {
+      await rememberAutomationOptions(automation.id, options);
+      await extractSelectionData();
     }
   } catch (error) {
     showStatus(error instanceof Error ? error.message : 'Automation failed', 'error');
   } finally {
-    copyToNewSheetBtn.disabled = false;
-    copyToNewSheetBtn.textContent = '📄 Copy Selection to New Sheet';
+    stopButton.remove();
+    buttons.forEach(b => (b.disabled = false));
+    button.textContent = automation.label;
+    updateUndoButton();
+  }
+}
+
+/**
+ * Handle the "Undo last automation" button
+ */
+async function handleUndo(): Promise<void> {
+  undoBtn.disabled = true;
+  
+  try {
+    const result = await runExclusive('Undo', undoLastAutomation);
+    
+    if (result.success && result.data) {
+      showStatus(`Undid ${result.data.automation}`, 'success');
+      await extractSelectionData();
+    } else {
+      showStatus(result.error || 'Undo failed', 'error');
+    }
+  } catch (error) {
+    showStatus(error instanceof Error ? error.message : 'Undo failed', 'error');
+  } finally {
+    updateUndoButton();
+  }
+}
+
+/**
+ * Enable the undo button while there is something to undo
+ */
+function updateUndoButton(): void {
+  const journal = getJournal();
+  const last = journal[journal.length - 1];
+  undoBtn.disabled = !last;
+  undoBtn.title = last ? `Undo ${last.automation}` : 'Nothing to undo';
+}
+
+// ============================================================================
+// Pipelines
+// ============================================================================
+
+/**
+ * Saved pipelines, keyed by pipeline name
+ */
+function getSavedPipelines(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(PIPELINES_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+function setSavedPipelines(pipelines: Record<string, string>): void {
+  localStorage.setItem(PIPELINES_KEY, JSON.stringify(pipelines));
+}
+
+/**
+ * Fill the saved-pipeline picker
+ */
+function renderPipelineList(selected = ''): void {
+  pipelineSelect.innerHTML = '';
+  pipelineSelect.add(new Option('New pipeline…', ''));
+  for (const name of Object.keys(getSavedPipelines()).sort()) {
+    pipelineSelect.add(new Option(name, name));
+  }
+  pipelineSelect.value = selected;
+}
+
+function handlePipelineSelect(): void {
+  pipelineEditor.value = getSavedPipelines()[pipelineSelect.value] ?? '';
+  pipelineResultsEl.innerHTML = '';
+}
+
+/**
+ * Load a .yaml/.yml/.json pipeline file into the editor
+ */
+async function handlePipelineFile(): Promise<void> {
+  const file = pipelineFileInput.files?.[0];
+  if (!file) {
+    return;
+  }
+  pipelineEditor.value = await file.text();
+  pipelineFileInput.value = '';
+  pipelineSelect.value = '';
+  readPipeline();
+}
+
+/**
+ * Parse the editor contents, listing any problems under the editor
+ */
+function readPipeline(): Pipeline | null {
+  pipelineResultsEl.innerHTML = '';
+  try {
+    const pipeline = parsePipeline(pipelineEditor.value);
+    showStatus(`"${pipeline.name}" is valid (${pipeline.steps.length} steps)`, 'success');
+    return pipeline;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    message.split('\n').forEach(line => addPipelineResult(line, false));
+    showStatus('Pipeline has problems', 'error');
+    return null;
+  }
+}
+
+function handleSavePipeline(): void {
+  const pipeline = readPipeline();
+  if (!pipeline) {
+    return;
+  }
+  const saved = getSavedPipelines();
+  saved[pipeline.name] = pipelineEditor.value;
+  setSavedPipelines(saved);
+  renderPipelineList(pipeline.name);
+  showStatus(`Saved "${pipeline.name}"`, 'success');
+}
+
+function handleDeletePipeline(): void {
+  const name = pipelineSelect.value;
+  if (!name) {
+    return;
+  }
+  const saved = getSavedPipelines();
+  delete saved[name];
+  setSavedPipelines(saved);
+  renderPipelineList();
+  pipelineEditor.value = '';
+  showStatus(`Deleted "${name}"`, 'success');
+}
+
+/**
+ * Run the pipeline in the editor and list each step's outcome
+ */
+async function handleRunPipeline(): Promise<void> {
+  const pipeline = readPipeline();
+  if (!pipeline) {
+    return;
+  }
+  
+  runPipelineBtn.disabled = true;
+  runPipelineBtn.textContent = '⏳ Running...';
+  
+  try {
+    const result = await runExclusive(`Pipeline "${pipeline.name}"`, () => runPipeline(pipeline));
+    pipelineResultsEl.innerHTML = '';
+    result.steps.forEach(step => addPipelineResult(describeStep(step), step.success));
+    
+    if (result.success) {
+      showStatus(`Ran "${pipeline.name}"`, 'success');
+    } else {
+      if (result.steps.length === 0) {
+        addPipelineResult(result.error || 'Pipeline failed', false);
+      }
+      showStatus(result.error || 'Pipeline failed', 'error');
+    }
+    await extractSelectionData();
+  } catch (error) {
+    showStatus(error instanceof Error ? error.message : 'Pipeline failed', 'error');
+  } finally {
+    runPipelineBtn.disabled = false;
+    runPipelineBtn.textContent = '▶️ Run';
+    updateUndoButton();
   }
 }
+
+function describeStep(step: PipelineStepResult): string {
+  const label = `${step.action}${step.id ? ` → $${step.id}` : ''}`;
+  if (!step.success) {
+    return `${label}: ${step.error}`;
+  }
+  const data = step.data as { address?: string; sourceSheet?: string } | string | undefined;
+  if (typeof data === 'string') {
+    return `${label}: ${data}`;
+  }
+  if (data?.address) {
+    return `${label}: ${data.sourceSheet}!${data.address}`;
+  }
+  return label;
+}
+
+function addPipelineResult(text: string, ok: boolean): void {
+  const item = document.createElement('li');
+  item.className = ok ? 'ok' : 'failed';
+  item.textContent = text;
+  pipelineResultsEl.appendChild(item);
+}
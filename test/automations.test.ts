@@ -0,0 +1,138 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeWorkbook, installFakeExcel, uninstallFakeExcel } from './fake-excel';
+import { captureSelectionContext, copySelectionToNewSheet, duplicateSelection } from '../src/lib/automations';
+
+describe('copySelectionToNewSheet', () => {
+  let workbook: FakeWorkbook;
+
+  beforeEach(() => {
+    workbook = new FakeWorkbook({
+      sheets: [
+        { name: 'Data', cells: { B2: 100, C2: '=B2*1.15' } },
+        { name: 'Notes' },
+      ],
+      selection: 'B2:C2',
+    });
+    installFakeExcel(workbook);
+  });
+
+  afterEach(() => uninstallFakeExcel());
+
+  it('copies the selection to the same cells on a new sheet after the source', async () => {
+    const result = await copySelectionToNewSheet();
+
+    assert.equal(result.success, true);
+    assert.equal(result.data?.newSheetName, 'Copy of Data');
+    assert.equal(result.data?.pastedAddress, 'B2:C2');
+    assert.deepEqual(workbook.sheetNames(), ['Data', 'Copy of Data', 'Notes']);
+    assert.equal(workbook.getCell('Copy of Data', 'B2')?.value, 100);
+    assert.equal(workbook.getCell('Copy of Data', 'C2')?.formula, '=B2*1.15');
+    assert.equal(workbook.activeSheet.name, 'Copy of Data');
+  });
+
+  it('picks a unique name on repeat runs', async () => {
+    await copySelectionToNewSheet({ activateNewSheet: false });
+    const result = await copySelectionToNewSheet({ activateNewSheet: false });
+
+    assert.equal(result.data?.newSheetName, 'Copy of Data (2)');
+    assert.equal(workbook.activeSheet.name, 'Data');
+  });
+
+  it('honours a custom name and values only', async () => {
+    const result = await copySelectionToNewSheet({ sheetName: 'Backup', valuesOnly: true });
+
+    assert.equal(result.data?.newSheetName, 'Backup');
+    assert.equal(workbook.getCell('Backup', 'C2')?.formula, undefined);
+  });
+
+  it('reports failures instead of throwing', async () => {
+    const result = await copySelectionToNewSheet({ sheetName: 'Bad:Name' });
+
+    assert.equal(result.success, false);
+    assert.match(result.error ?? '', /Invalid sheet name/);
+    assert.deepEqual(workbook.sheetNames(), ['Data', 'Notes']);
+  });
+
+  it('copies a 100,000-row selection in blocks', async () => {
+    const cells = Object.fromEntries(Array.from({ length: 100000 }, (_, index) => [`A${index + 1}`, index + 1]));
+    installFakeExcel(workbook = new FakeWorkbook({ sheets: [{ name: 'Ledger', cells }], selection: 'A1:A100000' }));
+    const phases = new Set<string>();
+
+    const result = await copySelectionToNewSheet({ onProgress: ({ phase }) => phases.add(phase) });
+
+    assert.equal(result.success, true);
+    assert.deepEqual([...phases], ['capture', 'paste']);
+    assert.equal(workbook.getCell('Copy of Ledger', 'A100000')?.value, 100000);
+  });
+
+  it('rolls back a cancelled copy and reports how far it got', async () => {
+    const controller = new AbortController();
+    workbook.select('B2:C4');
+
+    const result = await copySelectionToNewSheet({
+      chunkRows: 1,
+      signal: controller.signal,
+      onProgress: ({ phase }) => {
+        if (phase === 'paste') {
+          controller.abort();
+        }
+      },
+    });
+
+    assert.equal(result.success, false);
+    assert.match(result.error ?? '', /^Cancelled after 1 of 3 rows \(changes rolled back\)$/);
+    assert.deepEqual(result.progress, { phase: 'paste', completedRows: 1, totalRows: 3 });
+    assert.deepEqual(workbook.sheetNames(), ['Data', 'Notes']);
+  });
+});
+
+describe('duplicateSelection', () => {
+  let workbook: FakeWorkbook;
+
+  beforeEach(() => {
+    workbook = new FakeWorkbook({
+      sheets: [{ name: 'Data', cells: { A1: 3, B1: '=A1*2' } }],
+      selection: 'A1:B1',
+    });
+    installFakeExcel(workbook);
+  });
+
+  afterEach(() => uninstallFakeExcel());
+
+  it('duplicates within the sheet, shifting relative references', async () => {
+    const result = await duplicateSelection('D1');
+
+    assert.deepEqual(result, { success: true, data: { sourceAddress: 'A1:B1', targetAddress: 'D1' } });
+    assert.equal(workbook.getCell('Data', 'D1')?.value, 3);
+    assert.equal(workbook.getCell('Data', 'E1')?.formula, '=D1*2');
+  });
+
+  it('keeps formulas as typed when asked', async () => {
+    await duplicateSelection('A5', { mode: 'asTyped' });
+    assert.equal(workbook.getCell('Data', 'B5')?.formula, '=A1*2');
+  });
+});
+
+describe('captureSelectionContext', () => {
+  beforeEach(() => {
+    installFakeExcel(new FakeWorkbook({
+      sheets: [{ name: 'Data', cells: { A1: 3, B1: '=A1*2' } }],
+      selection: 'A1:B1',
+    }));
+  });
+
+  afterEach(() => uninstallFakeExcel());
+
+  it('builds the payload for the selection with the options given', async () => {
+    const options = { detectTables: false, resolveNames: false };
+    const withFormulas = await captureSelectionContext(options);
+    const valuesOnly = await captureSelectionContext({ ...options, includeFormulas: false });
+
+    assert.equal(withFormulas.success, true);
+    assert.equal(withFormulas.data?.sheet, 'Data');
+    assert.equal(withFormulas.data?.selection, 'A1:B1');
+    assert.equal(withFormulas.data?.cells.find(cell => cell.ref === 'B1')?.formula, '=A1*2');
+    assert.equal(valuesOnly.data?.cells.find(cell => cell.ref === 'B1')?.formula, null);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  applyBasketBudget,
+  combineContexts,
+  getBasketLabel,
+  moveContext,
+  pinContext,
+  serializeBasket,
+  unpinContext
+} from '../src/lib/basket';
+import { ContextPayload } from '../src/lib/types';
+
+function payload(sheet: string, selection: string, cells: ContextPayload['cells']): ContextPayload {
+  return { sheet, selection, timestamp: '2024-01-01T00:00:00.000Z', cells };
+}
+
+const income = payload('Income', 'A1:B1', [
+  { ref: 'A1', value: 'Revenue', formula: null },
+  { ref: 'B1', value: 1200, formula: "='Note 4'!B2" },
+]);
+const note = payload('Note 4', 'B2', [{ ref: 'B2', value: 1200, formula: null }]);
+
+describe('context basket', () => {
+  it('labels payloads by sheet and address', () => {
+    assert.equal(getBasketLabel(income), 'Income!A1:B1');
+    assert.equal(getBasketLabel(note), "'Note 4'!B2");
+  });
+
+  it('appends new ranges and replaces a re-pinned one in place', () => {
+    const updated = payload('Income', 'A1:B1', [{ ref: 'A1', value: 'Sales', formula: null }]);
+
+    let basket = pinContext([], income);
+    basket = pinContext(basket, note);
+    basket = pinContext(basket, updated);
+
+    assert.deepEqual(basket, [updated, note]);
+  });
+
+  it('removes and reorders without changing the original', () => {
+    const basket = [income, note];
+
+    assert.deepEqual(moveContext(basket, 1, 0), [note, income]);
+    assert.deepEqual(moveContext(basket, 0, 5), [note, income]);
+    assert.deepEqual(unpinContext(basket, 0), [note]);
+    assert.deepEqual(basket, [income, note]);
+  });
+
+  it('combines pinned payloads into one labelled payload', () => {
+    const combined = combineContexts([income, note]);
+
+    assert.deepEqual(combined.ranges.map(range => range.label), ['Income!A1:B1', "'Note 4'!B2"]);
+    assert.deepEqual(combined.ranges[1].cells, note.cells);
+  });
+
+  it('serializes one labelled section per range', () => {
+    const markdown = serializeBasket([income, note], 'markdown');
+    assert.match(markdown, /^## Income!A1:B1\n\n### Income!A1:B1/);
+    assert.match(markdown, /## 'Note 4'!B2\n\n### Note 4!B2/);
+
+    assert.equal(serializeBasket([income, note], 'csv'), "Income!A1:B1\nRevenue,1200\n\n'Note 4'!B2\n1200");
+
+    const compact = JSON.parse(serializeBasket([income, note], 'compact'));
+    assert.deepEqual(compact.ranges.map((range: { label: string }) => range.label), ['Income!A1:B1', "'Note 4'!B2"]);
+  });
+
+  it('shares a tight budget out by size, recording omissions', () => {
+    const big = payload('Data', 'A1:A200', Array.from({ length: 200 }, (_, i) => ({
+      ref: `A${i + 1}`, value: i, formula: null,
+    })));
+
+    const result = applyBasketBudget([note, big], { maxTokens: 1500, format: 'json' });
+
+    assert.equal(result.withinBudget, true);
+    assert.ok(result.tokens <= 1500);
+    assert.equal(result.basket[0], note);
+    assert.ok(result.basket[1].omissions?.length);
+  });
+
+  it('leaves a basket that fits untouched', () => {
+    const result = applyBasketBudget([income, note], { maxTokens: 10000 });
+
+    assert.deepEqual(result.basket, [income, note]);
+    assert.equal(result.withinBudget, true);
+  });
+});
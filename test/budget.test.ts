@@ -0,0 +1,28 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyBudget } from '../src/lib/budget';
+import { serializeContext } from '../src/lib/serializers';
+import { ContextPayload } from '../src/lib/types';
+
+/** A1:A200 of text labels */
+const column: ContextPayload = {
+  selection: 'A1:A200',
+  sheet: 'Data',
+  timestamp: '2024-01-01T00:00:00.000Z',
+  cells: Array.from({ length: 200 }, (_, index) => ({ ref: `A${index + 1}`, value: `Row ${index + 1}`, formula: null })),
+};
+
+describe('token budget', () => {
+  for (const format of ['csv', 'tsv'] as const) {
+    it(`says in ${format} output which rows were sampled out`, () => {
+      const { payload } = applyBudget(column, { maxTokens: 50, format });
+      const text = serializeContext(payload, format);
+      const lines = text.split('\n');
+
+      assert.deepEqual(payload.omissions?.map(omission => omission.ranges), [['A21:A195']]);
+      assert.deepEqual(lines.slice(19, 22), ['Row 20', '…', 'Row 196']);
+      assert.ok(lines.includes('# omissions:'));
+      assert.match(text, /^# +"A21:A195"/m);
+    });
+  }
+});
@@ -0,0 +1,121 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeWorkbook, installFakeExcel, uninstallFakeExcel } from './fake-excel';
+import { applyChangeSet, parseChangeSet, previewChangeSet, validateChangeSet } from '../src/lib/changes';
+import { clearJournal, undoLastAutomation } from '../src/lib/journal';
+
+describe('parseChangeSet', () => {
+  it('reads a ref → contents map, treating "=" strings as formulas', () => {
+    assert.deepEqual(parseChangeSet('{"B3": "=B2*1.15", "C3": 42}'), {
+      changes: [
+        { ref: 'B3', formula: '=B2*1.15' },
+        { ref: 'C3', value: 42 },
+      ],
+    });
+  });
+
+  it('finds the JSON in a fenced block of a chat reply', () => {
+    const reply = 'Try this:\n```json\n{ "sheet": "Data", "changes": [{ "ref": "A1", "value": "x" }] }\n```\nThen recalc.';
+
+    assert.deepEqual(parseChangeSet(reply), { sheet: 'Data', changes: [{ ref: 'A1', value: 'x' }] });
+  });
+
+  it('lists every problem', () => {
+    assert.throws(
+      () => parseChangeSet([{ ref: 'A1:B2', value: 1 }, { ref: 'C1' }, { ref: 'D1', formula: 'SUM(A1)' }]),
+      {
+        message: [
+          'Change 1 (A1:B2): ref must be a single cell like "B3" or "Sheet1!B3"',
+          'Change 2 (C1): give either a value or a formula',
+          'Change 3 (D1): formula must start with "="',
+        ].join('\n'),
+      }
+    );
+    assert.throws(() => parseChangeSet('not json'), /Invalid change set JSON/);
+  });
+
+  it('rejects a cell changed twice', () => {
+    assert.deepEqual(validateChangeSet({ changes: [{ ref: 'A1', value: 1 }, { ref: '$a$1', value: 2 }] }), [
+      'Change 2 ($a$1): cell is changed more than once',
+    ]);
+  });
+
+  it('rejects a formula given as a value', () => {
+    assert.deepEqual(validateChangeSet({ changes: [{ ref: 'A1', value: '=SUM(B1:B3)' }] }), [
+      'Change 1 (A1): value starts with "=" — give it as a formula',
+    ]);
+  });
+});
+
+describe('change sets against a workbook', () => {
+  let workbook: FakeWorkbook;
+
+  beforeEach(() => {
+    workbook = new FakeWorkbook({
+      sheets: [
+        { name: 'Data', cells: { A1: 100, B1: { value: 200, formula: '=A1*2' }, C1: 'old' } },
+        { name: 'Q1 Data', cells: { A1: 5 } },
+      ],
+    });
+    installFakeExcel(workbook);
+  });
+
+  afterEach(() => {
+    clearJournal();
+    uninstallFakeExcel();
+  });
+
+  it('previews before/after contents, flagging cells that would not change', async () => {
+    const changeSet = parseChangeSet({ B1: '=A1*3', C1: 'old', "'Q1 Data'!A1": 6, D1: 'new' });
+
+    const preview = await Excel.run(context => previewChangeSet(context, changeSet));
+
+    assert.deepEqual(preview.errors, []);
+    assert.deepEqual(
+      preview.diffs.map(diff => [diff.sheet, diff.ref, diff.before, diff.after, diff.changed]),
+      [
+        ['Data', 'B1', { value: 200, formula: '=A1*2' }, { value: null, formula: '=A1*3' }, true],
+        ['Data', 'C1', { value: 'old', formula: null }, { value: 'old', formula: null }, false],
+        ['Q1 Data', 'A1', { value: 5, formula: null }, { value: 6, formula: null }, true],
+        ['Data', 'D1', { value: '', formula: null }, { value: 'new', formula: null }, true],
+      ]
+    );
+  });
+
+  it('applies the changes and reports what was written', async () => {
+    const result = await applyChangeSet(parseChangeSet({ B1: '=A1*3', C1: 'old', "'Q1 Data'!A1": '007' }));
+
+    assert.deepEqual(result, {
+      success: true,
+      data: { applied: ['Data!B1', 'Q1 Data!A1'], unchanged: ['Data!C1'] },
+    });
+    assert.equal(workbook.getCell('Data', 'B1')?.formula, '=A1*3');
+    assert.equal(workbook.getCell('Q1 Data', 'A1')?.value, '007');
+  });
+
+  it('writes nothing when a target sheet is missing', async () => {
+    const result = await applyChangeSet(parseChangeSet({ B1: 1, 'Nope!A1': 2 }));
+
+    assert.equal(result.success, false);
+    assert.equal(result.error, 'Nope!A1: sheet "Nope" not found');
+    assert.equal(workbook.getCell('Data', 'B1')?.formula, '=A1*2');
+  });
+
+  it('rejects a bare ref and a qualified ref to the same cell on the active sheet', async () => {
+    const result = await applyChangeSet(parseChangeSet({ B1: 1, 'data!$B$1': 2 }));
+
+    assert.equal(result.success, false);
+    assert.equal(result.error, 'data!$B$1: cell is changed more than once');
+    assert.equal(workbook.getCell('Data', 'B1')?.formula, '=A1*2');
+  });
+
+  it('is undone by undoLastAutomation', async () => {
+    await applyChangeSet(parseChangeSet({ B1: 1, C1: null }));
+    assert.equal(workbook.getCell('Data', 'B1')?.value, 1);
+
+    await undoLastAutomation();
+
+    assert.equal(workbook.getCell('Data', 'B1')?.formula, '=A1*2');
+    assert.equal(workbook.getCell('Data', 'C1')?.value, 'old');
+  });
+});
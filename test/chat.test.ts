@@ -0,0 +1,201 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, IncomingMessage, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import {
+  ChatHistoryStorage,
+  clearChatHistory,
+  createHttpChatProvider,
+  loadChatHistory,
+  saveChatHistory,
+  sendChatMessage
+} from '../src/lib/chat';
+import { ChatProvider, ChatRequest, ContextPayload } from '../src/lib/types';
+
+const context: ContextPayload = {
+  selection: 'A1:B1',
+  sheet: 'Data',
+  timestamp: '2024-01-01T00:00:00.000Z',
+  cells: [
+    { ref: 'A1', value: 100, formula: null },
+    { ref: 'B1', value: 115, formula: '=A1*1.15' },
+  ],
+};
+
+/**
+ * Local stand-in for the production proxy. Routes:
+ * /sse streams server-sent events split mid-line, /sse-tail ends on an event
+ * with no newline after it, /text streams plain text, /fail answers 500,
+ * /hang never answers.
+ */
+function startMockServer(received: ChatRequest[]): Promise<Server> {
+  const server = createServer(async (req, res) => {
+    const body = JSON.parse(await readBody(req));
+    received.push(body);
+
+    if (req.url === '/sse') {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('data: {"text":"B1 is "}\n\nda');
+      await tick();
+      res.write('ta: {"text":"A1 plus 15%."}\n\n');
+      res.end('data: [DONE]\n\n');
+    } else if (req.url === '/sse-tail') {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('data: {"type":"ping"}\n\ndata: null\n\ndata: 42\n\n');
+      res.end('data: {"text":" apples"}');
+    } else if (req.url === '/text') {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.write('Hello');
+      await tick();
+      res.end(', world');
+    } else if (req.url === '/fail') {
+      res.writeHead(500);
+      res.end('model overloaded');
+    }
+    // /hang: leave the response open
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise(resolve => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => resolve(body));
+  });
+}
+
+function tick(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 10));
+}
+
+function memoryStorage(): ChatHistoryStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: key => void items.delete(key),
+  };
+}
+
+describe('createHttpChatProvider', () => {
+  const received: ChatRequest[] = [];
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    server = await startMockServer(received);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  it('sends the context and question, streaming server-sent events', async () => {
+    const provider = createHttpChatProvider({ endpoint: `${baseUrl}/sse`, model: 'test-model' });
+    const deltas: string[] = [];
+
+    const result = await sendChatMessage(provider, [], 'What is B1?', context, { onDelta: text => deltas.push(text) });
+
+    assert.equal(result.success, true);
+    assert.deepEqual(deltas, ['B1 is ', 'A1 plus 15%.']);
+    assert.deepEqual(result.data?.map(message => [message.role, message.content]), [
+      ['user', 'What is B1?'],
+      ['assistant', 'B1 is A1 plus 15%.'],
+    ]);
+    assert.equal(result.data?.[0].selection, 'Data!A1:B1');
+
+    const request = received[received.length - 1] as ChatRequest & { model: string };
+    assert.equal(request.model, 'test-model');
+    assert.deepEqual(request.messages, [{ role: 'user', content: 'What is B1?' }]);
+    assert.deepEqual(request.context, context);
+  });
+
+  it('keeps the last event when the stream ends without a newline, and skips events without text', async () => {
+    const provider = createHttpChatProvider({ endpoint: `${baseUrl}/sse-tail` });
+    const deltas: string[] = [];
+
+    const reply = await provider.send({ messages: [{ role: 'user', content: 'How many?' }] }, text => deltas.push(text));
+
+    assert.equal(reply, '42 apples');
+    assert.deepEqual(deltas, ['42', ' apples']);
+  });
+
+  it('streams a plain text body', async () => {
+    const provider = createHttpChatProvider({ endpoint: `${baseUrl}/text` });
+    const deltas: string[] = [];
+
+    const reply = await provider.send({ messages: [{ role: 'user', content: 'Hi' }] }, text => deltas.push(text));
+
+    assert.equal(reply, 'Hello, world');
+    assert.ok(deltas.length >= 1);
+  });
+
+  it('reports provider errors without touching the history', async () => {
+    const provider = createHttpChatProvider({ endpoint: `${baseUrl}/fail` });
+
+    const result = await sendChatMessage(provider, [], 'Hi');
+
+    assert.equal(result.success, false);
+    assert.equal(result.error, 'Chat provider returned 500: model overloaded');
+  });
+
+  it('stops when the signal aborts', async () => {
+    const provider = createHttpChatProvider({ endpoint: `${baseUrl}/hang` });
+    const controller = new AbortController();
+
+    const pending = sendChatMessage(provider, [], 'Hi', undefined, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 20);
+    const result = await pending;
+
+    assert.equal(result.success, false);
+    assert.match(result.error ?? '', /abort/i);
+  });
+});
+
+describe('sendChatMessage', () => {
+  it('sends earlier turns up to maxHistory with any provider', async () => {
+    const seen: ChatRequest[] = [];
+    const echo: ChatProvider = {
+      name: 'echo',
+      async send(request, onDelta) {
+        seen.push(request);
+        onDelta('ok');
+        return 'ok';
+      },
+    };
+
+    const first = await sendChatMessage(echo, [], 'one');
+    const second = await sendChatMessage(echo, first.data!, 'two', undefined, { maxHistory: 1 });
+
+    assert.equal(second.data?.length, 4);
+    assert.deepEqual(seen[1].messages, [
+      { role: 'assistant', content: 'ok' },
+      { role: 'user', content: 'two' },
+    ]);
+  });
+});
+
+describe('chat history', () => {
+  it('keeps one conversation per workbook', () => {
+    const storage = memoryStorage();
+    const message = { role: 'user' as const, content: 'Hi', timestamp: '2024-01-01T00:00:00.000Z' };
+
+    saveChatHistory(storage, 'https://host/Budget.xlsx', [message]);
+
+    assert.deepEqual(loadChatHistory(storage, 'https://host/Budget.xlsx'), [message]);
+    assert.deepEqual(loadChatHistory(storage, 'https://host/Forecast.xlsx'), []);
+
+    clearChatHistory(storage, 'https://host/Budget.xlsx');
+    assert.deepEqual(loadChatHistory(storage, 'https://host/Budget.xlsx'), []);
+  });
+
+  it('ignores unreadable stored history', () => {
+    const storage = memoryStorage();
+    storage.setItem('draftworx.chat.book', '{not json');
+
+    assert.deepEqual(loadChatHistory(storage, 'book'), []);
+  });
+});
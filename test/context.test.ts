@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildContextPayload, groupFormulaRegions } from '../src/lib/context';
+import { serializeContext } from '../src/lib/serializers';
+import { CapturedArea, CapturedRange } from '../src/lib/types';
+
+/** D2:D7 = B*C filled down; D5 typed over with a value */
+const area: CapturedArea = {
+  address: 'B2:D7',
+  rowCount: 6,
+  columnCount: 3,
+  values: [
+    [2, 3, 6],
+    [4, 5, 20],
+    [1, 1, 1],
+    [7, 2, 999],
+    [3, 3, 9],
+    [2, 2, 4],
+  ],
+  formulas: [
+    [2, 3, '=B2*C2'],
+    [4, 5, '=B3*C3'],
+    [1, 1, '=B4*C4'],
+    [7, 2, 999],
+    [3, 3, '=B6*C6'],
+    [2, 2, '=B7*C7'],
+  ].map(row => row.map(String)),
+};
+const captured: CapturedRange = { ...area, sourceSheet: 'Sales', areas: [area] };
+
+describe('formula regions', () => {
+  it('groups a filled-down column and flags the cell that breaks it', () => {
+    const payload = buildContextPayload(captured);
+
+    assert.deepEqual(payload.formulaRegions, [
+      { range: 'D2:D7', formula: '=RC[-2]*RC[-1]', inconsistent: ['D5'] },
+    ]);
+    assert.ok(payload.cells.every(cell => cell.formula === null));
+    assert.deepEqual(payload.cells.find(cell => cell.ref === 'D3'), { ref: 'D3', value: 20, formula: null });
+  });
+
+  it('keeps the formula of a cell with a different pattern', () => {
+    const { cells, regions } = groupFormulaRegions([
+      { ref: 'A1', value: 1, formula: '=X1+1' },
+      { ref: 'A2', value: 2, formula: '=X1+2' },
+      { ref: 'A3', value: 3, formula: '=X3+1' },
+    ]);
+
+    assert.deepEqual(regions, [{ range: 'A1:A3', formula: '=RC[23]+1', inconsistent: ['A2'] }]);
+    assert.equal(cells[1].formula, '=X1+2');
+  });
+
+  it('merges side-by-side columns and groups rows that are filled right', () => {
+    const { cells, regions } = groupFormulaRegions([
+      { ref: 'B1', value: 1, formula: '=A1+1' },
+      { ref: 'C1', value: 2, formula: '=B1+1' },
+      { ref: 'B2', value: 1, formula: '=A2+1' },
+      { ref: 'C2', value: 2, formula: '=B2+1' },
+      { ref: 'B3', value: 2, formula: '=SUM(B1:B2)' },
+      { ref: 'C3', value: 4, formula: '=SUM(C1:C2)' },
+      { ref: 'D3', value: 4, formula: '=C3' },
+    ]);
+
+    assert.deepEqual(regions, [
+      { range: 'B1:C2', formula: '=RC[-1]+1' },
+      { range: 'B3:C3', formula: '=SUM(R[-2]C:R[-1]C)' },
+    ]);
+    assert.deepEqual(cells.filter(cell => cell.formula).map(cell => cell.ref), ['D3']);
+  });
+
+  it('leaves lone formulas alone and can be turned off', () => {
+    assert.equal(groupFormulaRegions([{ ref: 'A1', value: 1, formula: '=B1' }]).regions.length, 0);
+
+    const payload = buildContextPayload(captured, { formulaRegions: false });
+    assert.equal(payload.formulaRegions, undefined);
+    assert.equal(payload.cells.find(cell => cell.ref === 'D2')?.formula, '=B2*C2');
+  });
+
+  it('adds displayed text and formats where they differ, and types error cells', () => {
+    const display: CapturedArea = {
+      address: 'A1:D1',
+      rowCount: 1,
+      columnCount: 4,
+      values: [[45291, -1200, 'Rent', '#REF!']],
+      formulas: [['45291', '-1200', 'Rent', '=#REF!*2']],
+      text: [['31/12/2023', '(1,200)', 'Rent', '#REF!']],
+      numberFormat: [['dd/mm/yyyy', '#,##0;(#,##0)', 'General', 'General']],
+    };
+    const payload = buildContextPayload({ ...display, sourceSheet: 'Sales', areas: [display] });
+
+    assert.deepEqual(payload.cells, [
+      { ref: 'A1', value: 45291, formula: null, text: '31/12/2023', numberFormat: 'dd/mm/yyyy' },
+      { ref: 'B1', value: -1200, formula: null, text: '(1,200)', numberFormat: '#,##0;(#,##0)' },
+      { ref: 'C1', value: 'Rent', formula: null },
+      { ref: 'D1', value: '#REF!', formula: '=#REF!*2', valueType: 'Error' },
+    ]);
+    assert.match(serializeContext(payload, 'markdown'), /\| 1 \| 31\/12\/2023 \| \(1,200\) \| Rent \| #REF! \|/);
+  });
+
+  it('lists regions in markdown', () => {
+    const text = serializeContext(buildContextPayload(captured), 'markdown');
+    assert.match(text, /- D2:D7: `=RC\[-2\]\*RC\[-1\]` — \*\*breaks the pattern:\*\* D5/);
+  });
+});
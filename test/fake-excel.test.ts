@@ -0,0 +1,68 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeWorkbook, installFakeExcel, uninstallFakeExcel } from './fake-excel';
+
+describe('fake Excel host', () => {
+  let workbook: FakeWorkbook;
+
+  beforeEach(() => {
+    workbook = new FakeWorkbook({ sheets: [{ name: 'Data', cells: { A1: 1, B1: '=A1*2' } }] });
+    installFakeExcel(workbook);
+  });
+
+  afterEach(() => uninstallFakeExcel());
+
+  it('refuses reads before load and sync', async () => {
+    await Excel.run(async (context) => {
+      const range = context.workbook.worksheets.getItem('Data').getRange('A1:B1');
+      assert.throws(() => range.values, { code: 'PropertyNotLoaded' });
+
+      range.load('values');
+      assert.throws(() => range.values, { code: 'PropertyNotLoaded' });
+
+      await context.sync();
+      assert.deepEqual(range.values, [[1, '']]);
+    });
+  });
+
+  it('applies writes only on sync', async () => {
+    await Excel.run(async (context) => {
+      context.workbook.worksheets.getItem('Data').getRange('C1').values = [[5]];
+      assert.equal(workbook.getCell('Data', 'C1'), undefined);
+
+      await context.sync();
+      assert.deepEqual(workbook.getCell('Data', 'C1'), { value: 5 });
+    });
+  });
+
+  it('rejects writes whose shape does not match the range', async () => {
+    await assert.rejects(
+      Excel.run(async (context) => {
+        context.workbook.worksheets.getItem('Data').getRange('A1:B2').values = [[1, 2]];
+        await context.sync();
+      }),
+      { code: 'InvalidArgument' }
+    );
+  });
+
+  it('reports formulas in A1 and R1C1 notation', async () => {
+    await Excel.run(async (context) => {
+      const range = context.workbook.worksheets.getItem('Data').getRange('B1');
+      range.load(['formulas', 'formulasR1C1']);
+      await context.sync();
+
+      assert.deepEqual(range.formulas, [['=A1*2']]);
+      assert.deepEqual(range.formulasR1C1, [['=RC[-1]*2']]);
+    });
+  });
+
+  it('fails sync when a sheet does not exist', async () => {
+    await assert.rejects(
+      Excel.run(async (context) => {
+        context.workbook.worksheets.getItem('Missing').load('name');
+        await context.sync();
+      }),
+      { code: 'ItemNotFound' }
+    );
+  });
+});
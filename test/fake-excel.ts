@@ -0,0 +1,1388 @@
+/**
+ * Draftworx Automation Library - Fake Excel Host
+ *
+ * In-memory stand-in for the slice of the Excel JavaScript API used by
+ * src/lib: workbook, worksheets, ranges, the selection, load/sync, sheet
+ * positions, number formats, cell styles, merges, column widths and row
+ * heights, data validation, threaded comments,
+ * direct dependents (found by parsing the stored formulas), tables (with their header row, data body and columns), defined names and
+ * their ranges, listings of charts, and the
+ * selection, activation and change events. It keeps the
+ * Office.js rules that matter for correctness —
+ * properties must be loaded and synced before they are read, and writes
+ * only land on sync — so code that forgets a sync fails here as it would
+ * in Excel. Formulas are stored, not calculated, and a cell displays its
+ * raw value unless it is given `text`. Events fire for the user actions
+ * simulated by select() and edit(), not for writes made through the API.
+ *
+ * @example
+ * const workbook = new FakeWorkbook({
+ *   sheets: [{ name: 'Data', cells: { A1: 10, B1: '=A1*2' } }],
+ *   selection: 'A1:B1',
+ * });
+ * installFakeExcel(workbook);
+ * const result = await copySelectionToNewSheet();
+ * workbook.getCell('Copy of Data', 'B1'); // { value: '', formula: '=A1*2' }
+ */
+
+import {
+  intersectBounds,
+  parseCellRef,
+  parseRangeAddress,
+  qualifyAddress,
+  refsToRanges,
+  splitAreas,
+  splitSheetAddress,
+  stripSheetName,
+  toCellRef,
+  toRangeAddress,
+} from '../src/lib/address';
+import { extractReferences, isErrorValue, toR1C1 } from '../src/lib/formula';
+import { DocumentSettings } from '../src/lib/snapshots';
+import { RangeBounds } from '../src/lib/types';
+
+type CellValue = string | number | boolean;
+
+/** Excel's default column width and row height, in points */
+const DEFAULT_COLUMN_WIDTH = 48;
+const DEFAULT_ROW_HEIGHT = 15;
+
+type FakeEventName = 'selectionChanged' | 'activated' | 'changed';
+
+type FakeEventHandler = (args: object) => unknown;
+
+let nextSheetId = 1;
+
+/**
+ * One stored cell (empty cells are not stored)
+ */
+export interface FakeCell {
+  value: CellValue;
+  formula?: string;
+  numberFormat?: string;
+  /** Displayed text (default: the value as Excel would show it unformatted) */
+  text?: string;
+}
+
+/**
+ * A defined name (a formula like "=Data!$B$2:$B$9")
+ */
+export interface FakeName {
+  name: string;
+  formula: string;
+  /** Excel's NamedItemType (default: "Range") */
+  type?: string;
+  /** Value of a constant name (e.g., 0.15 for "=0.15") */
+  value?: CellValue;
+  comment?: string;
+  visible?: boolean;
+}
+
+/**
+ * A data validation rule set on a cell
+ */
+export interface FakeValidation {
+  /** Rule as Office.js takes it (e.g., { list: { inCellDropDown: true, source: 'Yes,No' } }) */
+  rule: object;
+  ignoreBlanks: boolean;
+  prompt: object;
+  errorAlert: object;
+}
+
+/**
+ * An Excel table (ListObject). Its column names come from the header row.
+ */
+export interface FakeTable {
+  name: string;
+  /** Whole table, header row included when there is one */
+  address: string;
+  /** Whether the first row is a header row (default: true) */
+  showHeaders?: boolean;
+}
+
+/**
+ * Initial contents of a sheet. String values starting with "=" are formulas.
+ * Charts are listed only; a name's range can be looked up.
+ */
+export interface FakeSheetSetup {
+  name: string;
+  cells?: Record<string, CellValue | FakeCell>;
+  visibility?: 'Visible' | 'Hidden' | 'VeryHidden';
+  tables?: FakeTable[];
+  charts?: { name: string; chartType: string }[];
+  /** Sheet-scoped names */
+  names?: FakeName[];
+  /** Merged areas (e.g., "A1:C1") */
+  merges?: string[];
+  /** Column widths in points by column letter (default: 48) */
+  columnWidths?: Record<string, number>;
+  /** Row heights in points by row number (default: 15) */
+  rowHeights?: Record<number, number>;
+  /** Cell styles by cell ref (e.g., { A1: { font: { bold: true } } }) */
+  styles?: Record<string, object>;
+  /** Data validation by cell ref */
+  validation?: Record<string, FakeValidation>;
+  comments?: { ref: string; content: string }[];
+}
+
+/**
+ * Initial state of a fake workbook
+ */
+export interface FakeWorkbookSetup {
+  sheets: FakeSheetSetup[];
+  /** Workbook-scoped names */
+  names?: FakeName[];
+  /** Active sheet name (default: first sheet) */
+  activeSheet?: string;
+  /** Selected address on the active sheet (default: "A1") */
+  selection?: string;
+}
+
+/**
+ * Error raised by the fake host, with an Office.js-style error code
+ */
+export class FakeExcelError extends Error {
+  constructor(readonly code: string, message: string) {
+    super(message);
+    this.name = 'FakeExcelError';
+  }
+}
+
+/**
+ * A worksheet's stored state
+ */
+export class FakeSheet {
+  readonly cells = new Map<string, FakeCell>();
+  visibility: 'Visible' | 'Hidden' | 'VeryHidden' = 'Visible';
+  tables: FakeTable[] = [];
+  charts: { name: string; chartType: string }[] = [];
+  names: FakeName[] = [];
+  merges: string[] = [];
+  /** Settable cell properties (font, fill, …) by cell ref */
+  readonly styles = new Map<string, object>();
+  /** Data validation by cell ref */
+  readonly validation = new Map<string, FakeValidation>();
+  /** Threaded comments (cell ref and text) */
+  comments: { ref: string; content: string }[] = [];
+  /** Sizes set away from the default, by column or row number */
+  readonly columnWidths = new Map<number, number>();
+  readonly rowHeights = new Map<number, number>();
+  /** Stable id, like Excel's worksheet GUIDs */
+  readonly id = `{sheet-${nextSheetId++}}`;
+
+  constructor(public name: string) {}
+}
+
+/**
+ * The workbook behind the fake host. Tests set it up, run code against it
+ * through the global Excel.run and inspect it afterwards.
+ */
+export class FakeWorkbook {
+  readonly sheets: FakeSheet[] = [];
+  readonly names: FakeName[];
+  activeSheet: FakeSheet;
+  selection: string;
+  /** Number of context.sync() calls so far */
+  syncCount = 0;
+  /** Called before every range write — throw from it to simulate a failing write */
+  beforeWrite?: (sheetName: string, address: string) => void;
+  /** Handlers added through the event APIs and not yet removed */
+  readonly handlers: Record<FakeEventName, Set<FakeEventHandler>> = {
+    selectionChanged: new Set(),
+    activated: new Set(),
+    changed: new Set(),
+  };
+
+  constructor(setup: FakeWorkbookSetup) {
+    for (const sheetSetup of setup.sheets) {
+      const sheet = new FakeSheet(sheetSetup.name);
+      Object.entries(sheetSetup.cells ?? {}).forEach(([ref, cell]) => writeCell(sheet, ref, cell));
+      sheet.visibility = sheetSetup.visibility ?? 'Visible';
+      sheet.tables = sheetSetup.tables ?? [];
+      sheet.charts = sheetSetup.charts ?? [];
+      sheet.names = sheetSetup.names ?? [];
+      sheet.merges = sheetSetup.merges ?? [];
+      Object.entries(sheetSetup.columnWidths ?? {}).forEach(([column, width]) =>
+        sheet.columnWidths.set(parseCellRef(`${column}1`).column, width)
+      );
+      Object.entries(sheetSetup.rowHeights ?? {}).forEach(([row, height]) => sheet.rowHeights.set(Number(row), height));
+      Object.entries(sheetSetup.styles ?? {}).forEach(([ref, style]) => sheet.styles.set(ref, style));
+      Object.entries(sheetSetup.validation ?? {}).forEach(([ref, validation]) => sheet.validation.set(ref, validation));
+      sheet.comments = sheetSetup.comments ?? [];
+      this.sheets.push(sheet);
+    }
+    if (this.sheets.length === 0) {
+      throw new Error('A fake workbook needs at least one sheet');
+    }
+    this.activeSheet = (setup.activeSheet && this.getSheet(setup.activeSheet)) || this.sheets[0];
+    this.selection = setup.selection ?? 'A1';
+    this.names = setup.names ?? [];
+  }
+
+  /** Find a sheet by name (case-insensitive, like Excel) */
+  getSheet(name: string): FakeSheet | undefined {
+    return this.sheets.find(sheet => sheet.name.toLowerCase() === name.toLowerCase());
+  }
+
+  /** Sheet names in tab order */
+  sheetNames(): string[] {
+    return this.sheets.map(sheet => sheet.name);
+  }
+
+  /** Stored cell, or undefined when empty or the sheet doesn't exist */
+  getCell(sheetName: string, ref: string): FakeCell | undefined {
+    return this.getSheet(sheetName)?.cells.get(ref);
+  }
+
+  /** Make a sheet active and select an address on it, as a user would */
+  select(address: string, sheetName?: string): void {
+    if (sheetName) {
+      const sheet = this.requireSheet(sheetName);
+      if (sheet !== this.activeSheet) {
+        this.activeSheet = sheet;
+        this.emit('activated', { type: 'WorksheetActivated', worksheetId: sheet.id });
+      }
+    }
+    this.selection = address;
+    this.emit('selectionChanged', { type: 'WorkbookSelectionChanged' });
+  }
+
+  /** Type into cells as a user would — one change event per cell */
+  edit(sheetName: string, cells: Record<string, CellValue | FakeCell | null>): void {
+    const sheet = this.requireSheet(sheetName);
+    for (const [ref, cell] of Object.entries(cells)) {
+      writeCell(sheet, ref, cell);
+      this.emit('changed', { type: 'WorksheetChanged', worksheetId: sheet.id, address: ref, changeType: 'RangeEdited' });
+    }
+  }
+
+  /** Call the handlers for an event after the current task, as Excel does */
+  private emit(event: FakeEventName, args: object): void {
+    for (const handler of this.handlers[event]) {
+      void Promise.resolve().then(() => handler(args));
+    }
+  }
+
+  private requireSheet(name: string): FakeSheet {
+    const sheet = this.getSheet(name);
+    if (!sheet) {
+      throw new Error(`No sheet named ${name}`);
+    }
+    return sheet;
+  }
+}
+
+/**
+ * Document settings that round-trip through JSON on save, like the real host
+ */
+export class FakeSettings implements DocumentSettings {
+  saved: Record<string, string> = {};
+  private pending: Record<string, unknown> = {};
+  failSave = false;
+
+  get(name: string): unknown {
+    return name in this.pending ? this.pending[name] : JSON.parse(this.saved[name] ?? 'null');
+  }
+
+  set(name: string, value: unknown): void {
+    this.pending[name] = value;
+  }
+
+  saveAsync(callback?: (result: Office.AsyncResult<void>) => void): void {
+    const error = this.failSave ? { message: 'Document is read-only' } : undefined;
+    if (!error) {
+      for (const [name, value] of Object.entries(this.pending)) {
+        this.saved[name] = JSON.stringify(value);
+      }
+      this.pending = {};
+    }
+    setTimeout(() => callback?.({ error } as Office.AsyncResult<void>));
+  }
+}
+
+/**
+ * Install the fake as the global `Excel` so library code runs against it.
+ */
+export function installFakeExcel(workbook: FakeWorkbook): void {
+  type Batch<T> = (context: Excel.RequestContext) => Promise<T>;
+  // Excel.run(batch), or Excel.run(context, batch) to reuse a context (e.g., an event handler's)
+  const run = async <T>(first: Batch<T> | FakeRequestContext, second?: Batch<T>): Promise<T> => {
+    const context = typeof first === 'function' ? new FakeRequestContext(workbook) : first;
+    const batch = typeof first === 'function' ? first : second!;
+    const result = await batch(context as unknown as Excel.RequestContext);
+    await context.sync();
+    return result;
+  };
+  Object.assign(globalThis, { Excel: { run } });
+}
+
+/**
+ * Remove the global `Excel` installed by installFakeExcel.
+ */
+export function uninstallFakeExcel(): void {
+  delete (globalThis as { Excel?: unknown }).Excel;
+}
+
+// ============================================================================
+// Request context and proxy objects
+// ============================================================================
+
+type Operation = () => void;
+
+class FakeRequestContext {
+  readonly workbook: FakeWorkbookProxy;
+  private queue: Operation[] = [];
+
+  constructor(readonly host: FakeWorkbook) {
+    this.workbook = new FakeWorkbookProxy(this);
+  }
+
+  enqueue(operation: Operation): void {
+    this.queue.push(operation);
+  }
+
+  async sync(): Promise<void> {
+    const operations = this.queue.splice(0);
+    this.host.syncCount++;
+    for (const operation of operations) {
+      operation();
+    }
+  }
+}
+
+/**
+ * Base for proxies: queued loads, and reads that fail until loaded.
+ */
+abstract class FakeClientObject {
+  private loaded = new Map<string, unknown>();
+
+  constructor(protected readonly context: FakeRequestContext) {}
+
+  load(properties?: string | string[]): this {
+    const names = normalizeProperties(properties);
+    this.context.enqueue(() => this.loadNow(names));
+    return this;
+  }
+
+  /** Load properties immediately — only call from inside a queued operation */
+  loadNow(names: string[]): void {
+    const all = names.length > 0 ? names : this.defaultProperties();
+    all.forEach(name => this.loaded.set(name, this.read(name)));
+  }
+
+  protected abstract read(property: string): unknown;
+
+  protected abstract defaultProperties(): string[];
+
+  protected get<T>(property: string): T {
+    if (!this.loaded.has(property)) {
+      throw new FakeExcelError(
+        'PropertyNotLoaded',
+        `The property '${property}' is not available. Call load() and context.sync() before reading it.`
+      );
+    }
+    return this.loaded.get(property) as T;
+  }
+}
+
+/**
+ * Base for collections: loading `items/x` loads `x` on every item.
+ */
+abstract class FakeCollection<T extends FakeClientObject> extends FakeClientObject {
+  get items(): T[] {
+    return this.get('items');
+  }
+
+  load(properties?: string | string[]): this {
+    const names = normalizeProperties(properties)
+      .map(name => name.replace(/^items\/?/, ''))
+      .filter(Boolean);
+    this.context.enqueue(() => {
+      this.created = this.createItems();
+      this.created.forEach(item => item.loadNow(names));
+      this.loadNow(['items']);
+    });
+    return this;
+  }
+
+  private created: T[] = [];
+
+  protected read(property: string): unknown {
+    if (property === 'items') {
+      return this.created;
+    }
+    throw unknownProperty(property);
+  }
+
+  protected defaultProperties(): string[] {
+    return ['items'];
+  }
+
+  protected abstract createItems(): T[];
+}
+
+/**
+ * An event's handler list: add() and remove() take effect on sync.
+ */
+class FakeEventHandlers {
+  constructor(private readonly context: FakeRequestContext, private readonly event: FakeEventName) {}
+
+  add(handler: FakeEventHandler): { context: FakeRequestContext; remove(): void } {
+    const { context, event } = this;
+    const handlers = context.host.handlers[event];
+    context.enqueue(() => handlers.add(handler));
+    return {
+      context,
+      remove: () => context.enqueue(() => handlers.delete(handler)),
+    };
+  }
+}
+
+class FakeWorkbookProxy {
+  readonly worksheets: FakeWorksheetCollection;
+  readonly names: FakeNamedItemCollection;
+  readonly onSelectionChanged: FakeEventHandlers;
+
+  constructor(private readonly context: FakeRequestContext) {
+    this.worksheets = new FakeWorksheetCollection(context);
+    this.names = new FakeNamedItemCollection(context, () => context.host.names);
+    this.onSelectionChanged = new FakeEventHandlers(context, 'selectionChanged');
+  }
+
+  getSelectedRange(): FakeRange {
+    return new FakeRange(this.context, () => {
+      const areas = splitAreas(this.context.host.selection);
+      if (areas.length > 1) {
+        throw new FakeExcelError('InvalidSelection', 'This operation is not supported on multiple selections.');
+      }
+      return { sheet: this.context.host.activeSheet, bounds: parseRangeAddress(areas[0]) };
+    });
+  }
+
+  getSelectedRanges(): FakeRangeAreas {
+    return new FakeRangeAreas(this.context, () => ({
+      sheet: this.context.host.activeSheet,
+      areas: splitAreas(this.context.host.selection).map(area => parseRangeAddress(area)),
+    }));
+  }
+}
+
+class FakeWorksheetCollection extends FakeCollection<FakeWorksheet> {
+  readonly onActivated = new FakeEventHandlers(this.context, 'activated');
+  readonly onChanged = new FakeEventHandlers(this.context, 'changed');
+
+  getActiveWorksheet(): FakeWorksheet {
+    return new FakeWorksheet(this.context, () => this.context.host.activeSheet);
+  }
+
+  getItem(name: string): FakeWorksheet {
+    return new FakeWorksheet(this.context, () => {
+      const sheet = this.context.host.getSheet(name);
+      if (!sheet) {
+        throw new FakeExcelError('ItemNotFound', `The requested resource doesn't exist: ${name}`);
+      }
+      return sheet;
+    });
+  }
+
+  getItemOrNullObject(name: string): FakeWorksheet {
+    const sheet = new FakeWorksheet(this.context, () => this.context.host.getSheet(name) ?? null);
+    this.context.enqueue(() => sheet.resolveNull());
+    return sheet;
+  }
+
+  add(name?: string): FakeWorksheet {
+    const host = this.context.host;
+    const sheet = new FakeSheet(name ?? '');
+
+    this.context.enqueue(() => {
+      if (!sheet.name) {
+        let n = host.sheets.length + 1;
+        while (host.getSheet(`Sheet${n}`)) {
+          n++;
+        }
+        sheet.name = `Sheet${n}`;
+      }
+      validateSheetName(host, sheet.name);
+      host.sheets.push(sheet);
+    });
+
+    return new FakeWorksheet(this.context, () => sheet);
+  }
+
+  protected createItems(): FakeWorksheet[] {
+    return this.context.host.sheets.map(sheet => new FakeWorksheet(this.context, () => sheet));
+  }
+}
+
+class FakeWorksheet extends FakeClientObject {
+  private resolvedNull: boolean | undefined;
+
+  readonly tables = new FakeListCollection(this.context, () =>
+    this.sheet().tables.map(table => {
+      const bounds = parseRangeAddress(table.address);
+      const showHeaders = table.showHeaders ?? true;
+      const body = showHeaders ? { ...bounds, startRow: bounds.startRow + 1 } : bounds;
+      return {
+        name: table.name,
+        showHeaders,
+        getRange: () => this.getRange(table.address),
+        getDataBodyRange: () => this.getRange(toRangeAddress(body)),
+        columns: new FakeListCollection(this.context, () =>
+          Array.from({ length: bounds.endColumn - bounds.startColumn + 1 }, (_, i) => ({
+            name: showHeaders
+              ? String(this.sheet().cells.get(toCellRef(bounds.startRow, bounds.startColumn + i))?.value ?? '')
+              : `Column${i + 1}`,
+          }))
+        ),
+      };
+    })
+  );
+
+  readonly charts = new FakeListCollection(this.context, () =>
+    this.sheet().charts.map(chart => ({ name: chart.name, chartType: chart.chartType }))
+  );
+
+  readonly names = new FakeNamedItemCollection(this.context, () => this.sheet().names);
+
+  readonly comments = new FakeCommentCollection(this.context, () => this.sheet(), ref => this.getRange(ref));
+
+  constructor(context: FakeRequestContext, private readonly locate: () => FakeSheet | null) {
+    super(context);
+  }
+
+  get isNullObject(): boolean {
+    if (this.resolvedNull === undefined) {
+      throw new FakeExcelError('PropertyNotLoaded', 'isNullObject is only available after context.sync()');
+    }
+    return this.resolvedNull;
+  }
+
+  get id(): string {
+    return this.get('id');
+  }
+
+  get name(): string {
+    return this.get('name');
+  }
+
+  set name(name: string) {
+    this.context.enqueue(() => {
+      validateSheetName(this.context.host, name, this.sheet());
+      this.sheet().name = name;
+    });
+  }
+
+  get position(): number {
+    return this.get('position');
+  }
+
+  set position(position: number) {
+    this.context.enqueue(() => {
+      const sheets = this.context.host.sheets;
+      const sheet = this.sheet();
+      const index = sheets.indexOf(sheet);
+      if (index === -1) {
+        throw new FakeExcelError('ItemNotFound', `Sheet ${sheet.name} is not in the workbook`);
+      }
+      sheets.splice(index, 1);
+      sheets.splice(Math.max(0, Math.min(position, sheets.length)), 0, sheet);
+    });
+  }
+
+  get visibility(): string {
+    return this.get('visibility');
+  }
+
+  activate(): void {
+    this.context.enqueue(() => {
+      this.context.host.activeSheet = this.sheet();
+    });
+  }
+
+  delete(): void {
+    this.context.enqueue(() => {
+      const host = this.context.host;
+      if (host.sheets.length === 1) {
+        throw new FakeExcelError('InvalidOperation', 'A workbook must contain at least one visible worksheet.');
+      }
+      const sheet = this.sheet();
+      const index = host.sheets.indexOf(sheet);
+      host.sheets.splice(index, 1);
+      if (host.activeSheet === sheet) {
+        host.activeSheet = host.sheets[Math.max(0, index - 1)];
+      }
+    });
+  }
+
+  getRange(address: string): FakeRange {
+    return new FakeRange(this.context, () => ({ sheet: this.sheet(), bounds: parseRangeAddress(address) }));
+  }
+
+  getRanges(address: string): FakeRangeAreas {
+    return new FakeRangeAreas(this.context, () => ({
+      sheet: this.sheet(),
+      areas: splitAreas(address).map(area => parseRangeAddress(area)),
+    }));
+  }
+
+  /** Bounds of the stored cells, or a null object for an empty sheet */
+  getUsedRangeOrNullObject(): FakeRange {
+    const locate = () => {
+      const sheet = this.sheet();
+      const cells = [...sheet.cells.keys()].map(ref => parseCellRef(ref));
+      if (cells.length === 0) {
+        return null;
+      }
+      const bounds = {
+        startRow: Math.min(...cells.map(cell => cell.row)),
+        startColumn: Math.min(...cells.map(cell => cell.column)),
+        endRow: Math.max(...cells.map(cell => cell.row)),
+        endColumn: Math.max(...cells.map(cell => cell.column)),
+      };
+      return { sheet, bounds };
+    };
+    const range = new FakeRange(this.context, locate);
+    this.context.enqueue(() => range.resolveNull());
+    return range;
+  }
+
+
+  /** Record whether a getItemOrNullObject lookup found a sheet */
+  resolveNull(): void {
+    this.resolvedNull = this.locate() === null;
+  }
+
+  protected read(property: string): unknown {
+    const sheet = this.sheet();
+    switch (property) {
+      case 'id':
+        return sheet.id;
+      case 'name':
+        return sheet.name;
+      case 'position':
+        return this.context.host.sheets.indexOf(sheet);
+      case 'visibility':
+        return sheet.visibility;
+      default:
+        throw unknownProperty(property);
+    }
+  }
+
+  protected defaultProperties(): string[] {
+    return ['id', 'name', 'position', 'visibility'];
+  }
+
+  private sheet(): FakeSheet {
+    const sheet = this.locate();
+    if (!sheet) {
+      throw new FakeExcelError('InvalidOperation', 'Cannot use a null object');
+    }
+    return sheet;
+  }
+}
+
+class FakeRange extends FakeClientObject {
+  private resolvedNull: boolean | undefined;
+
+  readonly dataValidation = new FakeDataValidation(this.context, () => this.locate());
+
+  constructor(
+    context: FakeRequestContext,
+    private readonly locateOrNull: () => { sheet: FakeSheet; bounds: RangeBounds } | null
+  ) {
+    super(context);
+  }
+
+  get isNullObject(): boolean {
+    if (this.resolvedNull === undefined) {
+      throw new FakeExcelError('PropertyNotLoaded', 'isNullObject is only available after context.sync()');
+    }
+    return this.resolvedNull;
+  }
+
+  /** Record whether an ...OrNullObject lookup found a range */
+  resolveNull(): void {
+    this.resolvedNull = this.locateOrNull() === null;
+  }
+
+  get worksheet(): FakeWorksheet {
+    return new FakeWorksheet(this.context, () => this.locate().sheet);
+  }
+
+  get address(): string {
+    return this.get('address');
+  }
+
+  get rowCount(): number {
+    return this.get('rowCount');
+  }
+
+  get columnCount(): number {
+    return this.get('columnCount');
+  }
+
+  get cellCount(): number {
+    return this.get('cellCount');
+  }
+
+  get values(): CellValue[][] {
+    return this.get('values');
+  }
+
+  set values(values: CellValue[][]) {
+    this.write(values, (sheet, ref, value) => writeCell(sheet, ref, value));
+  }
+
+  get formulas(): CellValue[][] {
+    return this.get('formulas');
+  }
+
+  set formulas(formulas: CellValue[][]) {
+    this.write(formulas, (sheet, ref, formula) => writeCell(sheet, ref, formula));
+  }
+
+  get formulasR1C1(): CellValue[][] {
+    return this.get('formulasR1C1');
+  }
+
+  set formulasR1C1(formulas: CellValue[][]) {
+    this.write(formulas, (sheet, ref, formula) => {
+      const { row, column } = parseCellRef(ref);
+      writeCell(sheet, ref, typeof formula === 'string' && formula.startsWith('=') ? fromR1C1(formula, row, column) : formula);
+    });
+  }
+
+  get numberFormat(): string[][] {
+    return this.get('numberFormat');
+  }
+
+  get text(): string[][] {
+    return this.get('text');
+  }
+
+  get valueTypes(): string[][] {
+    return this.get('valueTypes');
+  }
+
+  set numberFormat(formats: string[][]) {
+    this.write(formats, (sheet, ref, format) => {
+      const cell = sheet.cells.get(ref) ?? { value: '' };
+      sheet.cells.set(ref, { ...cell, numberFormat: String(format) });
+    });
+  }
+
+  /**
+   * Cells on any sheet whose formulas refer into the range, one entry per
+   * sheet. Syncing fails with ItemNotFound when there are none, as in Excel.
+   */
+  getDirectDependents(): FakeWorkbookRangeAreas {
+    return new FakeWorkbookRangeAreas(this.context, () => {
+      const { sheet: target, bounds } = this.locate();
+      return this.context.host.sheets.flatMap(sheet => {
+        const refs = [...sheet.cells.entries()]
+          .filter(([, cell]) => cell.formula && extractReferences(cell.formula).some(ref =>
+            (ref.sheet ?? sheet.name).toLowerCase() === target.name.toLowerCase()
+            && intersectBounds(parseRangeAddress(ref.address), bounds)
+          ))
+          .map(([ref]) => ref);
+        return refs.length > 0 ? [refsToRanges(refs).map(area => qualifyAddress(sheet.name, area)).join(',')] : [];
+      });
+    });
+  }
+
+  /** Merged areas overlapping the range, or a null object when there are none */
+  getMergedAreasOrNullObject(): FakeRangeAreas {
+    const merged = new FakeRangeAreas(this.context, () => {
+      const { sheet, bounds } = this.locate();
+      const areas = sheet.merges.map(merge => parseRangeAddress(merge)).filter(area => intersectBounds(area, bounds));
+      return areas.length > 0 ? { sheet, areas } : null;
+    });
+    this.context.enqueue(() => merged.resolveNull());
+    return merged;
+  }
+
+  merge(across = false): void {
+    if (across) {
+      throw new FakeExcelError('InvalidArgument', "The fake Excel host doesn't support merging across");
+    }
+    this.context.enqueue(() => {
+      const { sheet, bounds } = this.locate();
+      sheet.merges.push(toRangeAddress(bounds));
+    });
+  }
+
+  getColumnProperties(): FakeClientResult<{ format: { columnWidth: number } }[]> {
+    return new FakeClientResult(this.context, () => {
+      const { sheet, bounds } = this.locate();
+      return spanOf(bounds.startColumn, bounds.endColumn)
+        .map(column => ({ format: { columnWidth: sheet.columnWidths.get(column) ?? DEFAULT_COLUMN_WIDTH } }));
+    });
+  }
+
+  getRowProperties(): FakeClientResult<{ format: { rowHeight: number } }[]> {
+    return new FakeClientResult(this.context, () => {
+      const { sheet, bounds } = this.locate();
+      return spanOf(bounds.startRow, bounds.endRow)
+        .map(row => ({ format: { rowHeight: sheet.rowHeights.get(row) ?? DEFAULT_ROW_HEIGHT } }));
+    });
+  }
+
+  setColumnProperties(properties: { format?: { columnWidth?: number } }[]): void {
+    this.context.enqueue(() => {
+      const { sheet, bounds } = this.locate();
+      properties.forEach(({ format }, i) => {
+        if (format?.columnWidth !== undefined) {
+          sheet.columnWidths.set(bounds.startColumn + i, format.columnWidth);
+        }
+      });
+    });
+  }
+
+  setRowProperties(properties: { format?: { rowHeight?: number } }[]): void {
+    this.context.enqueue(() => {
+      const { sheet, bounds } = this.locate();
+      properties.forEach(({ format }, i) => {
+        if (format?.rowHeight !== undefined) {
+          sheet.rowHeights.set(bounds.startRow + i, format.rowHeight);
+        }
+      });
+    });
+  }
+
+  protected read(property: string): unknown {
+    // A null object's properties load as null, as in Excel
+    const located = this.locateOrNull();
+    if (!located) {
+      return null;
+    }
+    const { sheet, bounds } = located;
+    const rows = bounds.endRow - bounds.startRow + 1;
+    const columns = bounds.endColumn - bounds.startColumn + 1;
+
+    switch (property) {
+      case 'address':
+        return qualifyAddress(sheet.name, toRangeAddress(bounds));
+      case 'rowCount':
+        return rows;
+      case 'columnCount':
+        return columns;
+      case 'cellCount':
+        return rows * columns;
+      case 'values':
+        return grid(sheet, bounds, cell => cell?.value ?? '');
+      case 'formulas':
+        return grid(sheet, bounds, cell => cell?.formula ?? cell?.value ?? '');
+      case 'formulasR1C1':
+        return grid(sheet, bounds, (cell, row, column) =>
+          cell?.formula ? toR1C1(cell.formula, row, column) : cell?.value ?? ''
+        );
+      case 'numberFormat':
+        return grid(sheet, bounds, cell => cell?.numberFormat ?? 'General');
+      case 'text':
+        return grid(sheet, bounds, cell =>
+          cell?.text ?? (typeof cell?.value === 'boolean' ? String(cell.value).toUpperCase() : String(cell?.value ?? ''))
+        );
+      case 'valueTypes':
+        return grid(sheet, bounds, cell => getValueType(cell?.value ?? ''));
+      default:
+        throw unknownProperty(property);
+    }
+  }
+
+  protected defaultProperties(): string[] {
+    return [
+      'address', 'rowCount', 'columnCount', 'cellCount', 'values', 'formulas', 'formulasR1C1', 'numberFormat', 'text', 'valueTypes',
+    ];
+  }
+
+  /** Style of each cell, as getCellProperties returns it (only `format` is kept) */
+  getCellProperties(): FakeClientResult<{ format: object }[][]> {
+    return new FakeClientResult(this.context, () => {
+      const { sheet, bounds } = this.locate();
+      return spanOf(bounds.startRow, bounds.endRow).map(row =>
+        spanOf(bounds.startColumn, bounds.endColumn).map(column => ({ format: sheet.styles.get(toCellRef(row, column)) ?? {} }))
+      );
+    });
+  }
+
+  setCellProperties(properties: { format?: object }[][]): void {
+    this.context.enqueue(() => {
+      const { sheet, bounds } = this.locate();
+      properties.forEach((row, i) => row.forEach(({ format }, j) => {
+        const ref = toCellRef(bounds.startRow + i, bounds.startColumn + j);
+        sheet.styles.set(ref, { ...sheet.styles.get(ref), ...format });
+      }));
+    });
+  }
+
+  /** Where the range is — only call from inside a queued operation */
+  located(): { sheet: FakeSheet; bounds: RangeBounds } {
+    return this.locate();
+  }
+
+  private locate(): { sheet: FakeSheet; bounds: RangeBounds } {
+    const located = this.locateOrNull();
+    if (!located) {
+      throw new FakeExcelError('InvalidOperation', 'Cannot use a null object');
+    }
+    return located;
+  }
+
+  /**
+   * Queue a 2D write; a single value fills the whole range, like Excel.
+   */
+  private write<T>(data: T[][] | T, apply: (sheet: FakeSheet, ref: string, value: T) => void): void {
+    this.context.enqueue(() => {
+      const { sheet, bounds } = this.locate();
+      const rows = bounds.endRow - bounds.startRow + 1;
+      const columns = bounds.endColumn - bounds.startColumn + 1;
+      const isGrid = Array.isArray(data);
+
+      this.context.host.beforeWrite?.(sheet.name, toRangeAddress(bounds));
+
+      if (isGrid && (data.length !== rows || data.some(row => row.length !== columns))) {
+        throw new FakeExcelError(
+          'InvalidArgument',
+          `The number of rows or columns in the input array doesn't match the size of ${toRangeAddress(bounds)}.`
+        );
+      }
+
+      for (let i = 0; i < rows; i++) {
+        for (let j = 0; j < columns; j++) {
+          const value = isGrid ? (data as T[][])[i][j] : (data as T);
+          apply(sheet, toCellRef(bounds.startRow + i, bounds.startColumn + j), value);
+        }
+      }
+    });
+  }
+}
+
+class FakeRangeAreas extends FakeClientObject {
+  readonly areas: FakeRangeCollection;
+  private resolvedNull: boolean | undefined;
+
+  constructor(
+    context: FakeRequestContext,
+    private readonly locate: () => { sheet: FakeSheet; areas: RangeBounds[] } | null
+  ) {
+    super(context);
+    this.areas = new FakeRangeCollection(context, () => {
+      const located = this.locate();
+      return (located?.areas ?? []).map(bounds => new FakeRange(context, () => ({ sheet: located!.sheet, bounds })));
+    });
+  }
+
+  get isNullObject(): boolean {
+    if (this.resolvedNull === undefined) {
+      throw new FakeExcelError('PropertyNotLoaded', 'isNullObject is only available after context.sync()');
+    }
+    return this.resolvedNull;
+  }
+
+  /** Record whether an ...OrNullObject lookup found anything */
+  resolveNull(): void {
+    this.resolvedNull = this.locate() === null;
+  }
+
+  get address(): string {
+    return this.get('address');
+  }
+
+  get areaCount(): number {
+    return this.get('areaCount');
+  }
+
+  protected read(property: string): unknown {
+    const located = this.locate();
+    if (!located) {
+      return null;
+    }
+    const { sheet, areas } = located;
+    switch (property) {
+      case 'address':
+        return areas.map(bounds => qualifyAddress(sheet.name, toRangeAddress(bounds))).join(',');
+      case 'areaCount':
+        return areas.length;
+      default:
+        throw unknownProperty(property);
+    }
+  }
+
+  protected defaultProperties(): string[] {
+    return ['address', 'areaCount'];
+  }
+}
+
+/**
+ * Ranges on several sheets (Excel.WorkbookRangeAreas), as sheet-qualified addresses
+ */
+class FakeWorkbookRangeAreas extends FakeClientObject {
+  constructor(context: FakeRequestContext, private readonly locate: () => string[]) {
+    super(context);
+  }
+
+  get addresses(): string[] {
+    return this.get('addresses');
+  }
+
+  protected read(property: string): unknown {
+    if (property !== 'addresses') {
+      throw unknownProperty(property);
+    }
+    const addresses = this.locate();
+    if (addresses.length === 0) {
+      throw new FakeExcelError('ItemNotFound', 'No cells were found.');
+    }
+    return addresses;
+  }
+
+  protected defaultProperties(): string[] {
+    return ['addresses'];
+  }
+}
+
+/**
+ * A range's data validation. Reads report the rule shared by every cell —
+ * "None" when no cell has one, "Inconsistent" when they differ.
+ */
+class FakeDataValidation extends FakeClientObject {
+  constructor(
+    context: FakeRequestContext,
+    private readonly locate: () => { sheet: FakeSheet; bounds: RangeBounds }
+  ) {
+    super(context);
+  }
+
+  get type(): string {
+    return this.get('type');
+  }
+
+  get rule(): object {
+    return this.get('rule');
+  }
+
+  set rule(rule: object) {
+    this.update(validation => ({ ...validation, rule }));
+  }
+
+  get ignoreBlanks(): boolean {
+    return this.get('ignoreBlanks');
+  }
+
+  set ignoreBlanks(ignoreBlanks: boolean) {
+    this.update(validation => ({ ...validation, ignoreBlanks }));
+  }
+
+  get prompt(): object {
+    return this.get('prompt');
+  }
+
+  set prompt(prompt: object) {
+    this.update(validation => ({ ...validation, prompt }));
+  }
+
+  get errorAlert(): object {
+    return this.get('errorAlert');
+  }
+
+  set errorAlert(errorAlert: object) {
+    this.update(validation => ({ ...validation, errorAlert }));
+  }
+
+  clear(): void {
+    this.context.enqueue(() => this.refs().forEach(ref => this.locate().sheet.validation.delete(ref)));
+  }
+
+  protected read(property: string): unknown {
+    const { sheet } = this.locate();
+    const rules = this.refs().map(ref => sheet.validation.get(ref));
+    const first = rules[0];
+    const shared = rules.every(rule => JSON.stringify(rule) === JSON.stringify(first)) ? first : undefined;
+    switch (property) {
+      case 'type': {
+        if (!shared) {
+          return rules.some(Boolean) ? 'Inconsistent' : 'None';
+        }
+        const kind = Object.keys(shared.rule)[0] ?? 'none';
+        return kind[0].toUpperCase() + kind.slice(1);
+      }
+      case 'rule':
+        return shared?.rule ?? {};
+      case 'ignoreBlanks':
+        return shared?.ignoreBlanks ?? true;
+      case 'prompt':
+        return shared?.prompt ?? {};
+      case 'errorAlert':
+        return shared?.errorAlert ?? {};
+      default:
+        throw unknownProperty(property);
+    }
+  }
+
+  protected defaultProperties(): string[] {
+    return ['type', 'rule', 'ignoreBlanks', 'prompt', 'errorAlert'];
+  }
+
+  private refs(): string[] {
+    const { bounds } = this.locate();
+    return spanOf(bounds.startRow, bounds.endRow)
+      .flatMap(row => spanOf(bounds.startColumn, bounds.endColumn).map(column => toCellRef(row, column)));
+  }
+
+  private update(change: (validation: FakeValidation) => FakeValidation): void {
+    this.context.enqueue(() => {
+      const { sheet } = this.locate();
+      for (const ref of this.refs()) {
+        const current = sheet.validation.get(ref) ?? { rule: {}, ignoreBlanks: true, prompt: {}, errorAlert: {} };
+        sheet.validation.set(ref, change(current));
+      }
+    });
+  }
+}
+
+/**
+ * A value computed on the next sync, like Office.js ClientResult
+ */
+class FakeClientResult<T> {
+  private resolved = false;
+  private data: T | undefined;
+
+  constructor(context: FakeRequestContext, compute: () => T) {
+    context.enqueue(() => {
+      this.data = compute();
+      this.resolved = true;
+    });
+  }
+
+  get value(): T {
+    if (!this.resolved) {
+      throw new FakeExcelError('PropertyNotLoaded', 'The value is only available after context.sync()');
+    }
+    return this.data as T;
+  }
+}
+
+class FakeRangeCollection extends FakeCollection<FakeRange> {
+  constructor(context: FakeRequestContext, private readonly build: () => FakeRange[]) {
+    super(context);
+  }
+
+  protected createItems(): FakeRange[] {
+    return this.build();
+  }
+}
+
+/**
+ * A read-only object whose properties come straight from a plain record
+ * (tables, charts, names). Functions on the record become methods, and
+ * proxies (e.g., a table's columns) can be used without loading, as in Excel.
+ */
+class FakeListItem extends FakeClientObject {
+  constructor(context: FakeRequestContext, private readonly record: Record<string, unknown>) {
+    super(context);
+    for (const [key, value] of Object.entries(record)) {
+      Object.defineProperty(this, key, isNavigation(value)
+        ? { value }
+        : { get: () => this.get(key) });
+    }
+  }
+
+  protected read(property: string): unknown {
+    if (!(property in this.record) || isNavigation(this.record[property])) {
+      throw unknownProperty(property);
+    }
+    return this.record[property];
+  }
+
+  protected defaultProperties(): string[] {
+    return Object.keys(this.record).filter(key => !isNavigation(this.record[key]));
+  }
+}
+
+/** Methods and child proxies, as opposed to loadable properties */
+function isNavigation(value: unknown): boolean {
+  return typeof value === 'function' || value instanceof FakeClientObject;
+}
+
+class FakeListCollection extends FakeCollection<FakeListItem> {
+  constructor(context: FakeRequestContext, private readonly list: () => Record<string, unknown>[]) {
+    super(context);
+  }
+
+  protected createItems(): FakeListItem[] {
+    return this.list().map(record => new FakeListItem(this.context, record));
+  }
+}
+
+class FakeNamedItemCollection extends FakeListCollection {
+  constructor(context: FakeRequestContext, names: () => FakeName[]) {
+    super(context, () => names().map(name => ({
+      type: 'Range',
+      visible: true,
+      value: null,
+      comment: '',
+      ...name,
+      getRangeOrNullObject: () => {
+        const range = new FakeRange(context, () => locateName(context.host, name));
+        context.enqueue(() => range.resolveNull());
+        return range;
+      },
+    })));
+  }
+}
+
+/**
+ * A sheet's threaded comments; add() takes the cell as a range or an address
+ */
+class FakeCommentCollection extends FakeListCollection {
+  constructor(
+    context: FakeRequestContext,
+    private readonly sheet: () => FakeSheet,
+    getRange: (ref: string) => FakeRange
+  ) {
+    super(context, () => sheet().comments.map(comment => ({
+      content: comment.content,
+      getLocation: () => getRange(comment.ref),
+    })));
+  }
+
+  add(cell: FakeRange | string, content: string): void {
+    this.context.enqueue(() => {
+      const ref = typeof cell === 'string' ? stripSheetName(cell) : toRangeAddress(cell.located().bounds);
+      this.sheet().comments.push({ ref, content });
+    });
+  }
+}
+
+/**
+ * Where a Range name points — null for constants, formulas and missing sheets
+ */
+function locateName(host: FakeWorkbook, name: FakeName): { sheet: FakeSheet; bounds: RangeBounds } | null {
+  if ((name.type ?? 'Range') !== 'Range') {
+    return null;
+  }
+  const { sheet, address } = splitSheetAddress(name.formula.replace(/^=/, ''));
+  const found = sheet === undefined ? undefined : host.getSheet(sheet);
+  return found ? { sheet: found, bounds: parseRangeAddress(address) } : null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** The numbers from first to last */
+function spanOf(first: number, last: number): number[] {
+  return Array.from({ length: last - first + 1 }, (_, i) => first + i);
+}
+
+function normalizeProperties(properties?: string | string[]): string[] {
+  if (!properties) {
+    return [];
+  }
+  const list = Array.isArray(properties) ? properties : properties.split(',');
+  return list.map(name => name.trim()).filter(Boolean);
+}
+
+function unknownProperty(property: string): FakeExcelError {
+  return new FakeExcelError('InvalidArgument', `The fake Excel host doesn't support the property '${property}'`);
+}
+
+function validateSheetName(host: FakeWorkbook, name: string, self?: FakeSheet): void {
+  if (!name || name.length > 31 || /[\\/?*[\]:]/.test(name)) {
+    throw new FakeExcelError('InvalidArgument', `Invalid sheet name: ${name}`);
+  }
+  const existing = host.getSheet(name);
+  if (existing && existing !== self) {
+    throw new FakeExcelError('ItemAlreadyExists', `A sheet named ${name} already exists`);
+  }
+}
+
+/**
+ * Store one cell; strings starting with "=" become formulas and "" clears.
+ * Number formats survive value writes, as in Excel.
+ */
+function writeCell(sheet: FakeSheet, ref: string, input: CellValue | FakeCell | null): void {
+  const key = stripSheetName(ref);
+  const numberFormat = sheet.cells.get(key)?.numberFormat;
+
+  let cell: FakeCell;
+  if (input !== null && typeof input === 'object') {
+    cell = { ...input };
+  } else if (typeof input === 'string' && input.startsWith('=')) {
+    cell = { value: '', formula: input };
+  } else if (typeof input === 'string' && input.startsWith("'")) {
+    // A leading apostrophe keeps text as typed; Excel doesn't store it
+    cell = { value: input.slice(1) };
+  } else if (typeof input === 'string' && input.trim() !== '' && Number.isFinite(Number(input))) {
+    // Excel reads numeric text as a number, as if typed
+    cell = { value: Number(input) };
+  } else {
+    cell = { value: input ?? '' };
+  }
+
+  if (cell.value === '' && !cell.formula && !numberFormat) {
+    sheet.cells.delete(key);
+    return;
+  }
+  sheet.cells.set(key, numberFormat && !cell.numberFormat ? { ...cell, numberFormat } : cell);
+}
+
+function getValueType(value: CellValue): string {
+  if (value === '') {
+    return 'Empty';
+  }
+  if (typeof value === 'number') {
+    return 'Double';
+  }
+  if (typeof value === 'boolean') {
+    return 'Boolean';
+  }
+  return isErrorValue(value) ? 'Error' : 'String';
+}
+
+function grid<T>(
+  sheet: FakeSheet,
+  bounds: RangeBounds,
+  read: (cell: FakeCell | undefined, row: number, column: number) => T
+): T[][] {
+  const rows: T[][] = [];
+  for (let row = bounds.startRow; row <= bounds.endRow; row++) {
+    const values: T[] = [];
+    for (let column = bounds.startColumn; column <= bounds.endColumn; column++) {
+      values.push(read(sheet.cells.get(toCellRef(row, column)), row, column));
+    }
+    rows.push(values);
+  }
+  return rows;
+}
+
+/**
+ * Convert R1C1 cell references in a formula to A1 relative to a cell.
+ * String literals are left alone; whole-row/column references aren't supported.
+ */
+function fromR1C1(formula: string, row: number, column: number): string {
+  return formula
+    .split(/("(?:[^"]|"")*")/)
+    .map((part, index) => (index % 2 === 1 ? part : part.replace(
+      /(?<![A-Za-z0-9_.$])R(\[-?\d+\]|\d+)?C(\[-?\d+\]|\d+)?(?![A-Za-z0-9_(])/g,
+      (_, r?: string, c?: string) => {
+        const rowPart = resolveR1C1Part(r, row);
+        const columnPart = resolveR1C1Part(c, column);
+        const a1 = toCellRef(rowPart.index, columnPart.index);
+        const letters = a1.replace(/\d+$/, '');
+        return `${columnPart.absolute ? '$' : ''}${letters}${rowPart.absolute ? '$' : ''}${rowPart.index}`;
+      }
+    )))
+    .join('');
+}
+
+function resolveR1C1Part(part: string | undefined, base: number): { index: number; absolute: boolean } {
+  if (!part) {
+    return { index: base, absolute: false };
+  }
+  if (part.startsWith('[')) {
+    return { index: base + Number(part.slice(1, -1)), absolute: false };
+  }
+  return { index: Number(part), absolute: true };
+}
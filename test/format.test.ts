@@ -0,0 +1,87 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeWorkbook, installFakeExcel, uninstallFakeExcel } from './fake-excel';
+import { captureRange, pasteRange } from '../src/lib/range';
+import { resolveFormattingParts } from '../src/lib/format';
+import { FormattingParts, PasteOptions } from '../src/lib/types';
+
+const LAYOUT: FormattingParts = { numberFormats: true, merges: true, dimensions: true };
+
+describe('formatting round-trip', () => {
+  let workbook: FakeWorkbook;
+
+  beforeEach(() => {
+    workbook = new FakeWorkbook({
+      sheets: [
+        {
+          name: 'Report',
+          cells: {
+            A1: 'Revenue',
+            A2: { value: 1234.5, numberFormat: '#,##0.00' },
+            B2: { value: 0.15, numberFormat: '0%' },
+          },
+          merges: ['A1:B1'],
+          columnWidths: { A: 120 },
+          rowHeights: { 2: 30 },
+        },
+        { name: 'Copy' },
+      ],
+    });
+    installFakeExcel(workbook);
+  });
+
+  afterEach(() => uninstallFakeExcel());
+
+  function copyTo(address: string, options: PasteOptions = {}): Promise<void> {
+    return Excel.run(async (context) => {
+      const captured = await captureRange(context, 'A1:B2', 'Report', { formatting: LAYOUT });
+      await pasteRange(context, captured, context.workbook.worksheets.getItem('Copy'), address, options);
+    });
+  }
+
+  it('captures number formats, merges and sizes', async () => {
+    const captured = await Excel.run(context => captureRange(context, 'A1:B2', 'Report', { formatting: LAYOUT }));
+
+    assert.deepEqual(captured.formatting, {
+      numberFormats: [['General', 'General'], ['#,##0.00', '0%']],
+      merges: ['A1:B1'],
+      columnWidths: [120, 48],
+      rowHeights: [15, 30],
+    });
+  });
+
+  it('pastes them at the new position', async () => {
+    await copyTo('D5');
+
+    const copy = workbook.getSheet('Copy')!;
+    assert.deepEqual(workbook.getCell('Copy', 'D6'), { value: 1234.5, numberFormat: '#,##0.00' });
+    assert.equal(workbook.getCell('Copy', 'E6')?.numberFormat, '0%');
+    assert.deepEqual(copy.merges, ['D5:E5']);
+    assert.deepEqual([copy.columnWidths.get(4), copy.columnWidths.get(5)], [120, 48]);
+    assert.deepEqual([copy.rowHeights.get(5), copy.rowHeights.get(6)], [15, 30]);
+  });
+
+  it('carries only the parts the paste asks for', async () => {
+    await copyTo('A1', { formatting: { numberFormats: true } });
+
+    const copy = workbook.getSheet('Copy')!;
+    assert.equal(workbook.getCell('Copy', 'A2')?.numberFormat, '#,##0.00');
+    assert.deepEqual(copy.merges, []);
+    assert.equal(copy.columnWidths.size, 0);
+
+    await copyTo('H1', { formatting: false });
+    assert.deepEqual(workbook.getCell('Copy', 'H2'), { value: 1234.5 });
+  });
+
+  it('expands the formatting option into parts', () => {
+    assert.equal(resolveFormattingParts(false), null);
+    assert.deepEqual(resolveFormattingParts({ merges: true }), {
+      numberFormats: false,
+      styles: false,
+      merges: true,
+      dimensions: false,
+      comments: false,
+      validation: false,
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeWorkbook, installFakeExcel, uninstallFakeExcel } from './fake-excel';
+import { getFormulasR1C1, getRangeContext, parseOutputFormat } from '../src/lib/functions';
+import { RedactionMap } from '../src/lib/types';
+
+describe('worksheet functions', () => {
+  beforeEach(() => {
+    installFakeExcel(new FakeWorkbook({
+      sheets: [
+        { name: 'Notes' },
+        { name: 'Q1 Sales', cells: { B2: 2, C2: 3, D2: '=B2*C2', B3: 4, C3: 5, D3: '=B3*C3' } },
+      ],
+      selection: 'A1',
+    }));
+  });
+
+  afterEach(() => uninstallFakeExcel());
+
+  it('serializes the referenced range, not the selection', async () => {
+    const text = await Excel.run(context => getRangeContext(context, "'Q1 Sales'!B2:D3", { format: 'markdown' }));
+
+    assert.match(text, /Q1 Sales/);
+    assert.match(text, /\| 3 \| 4 \| 5 \|/);
+    assert.match(text, /D2:D3: `=RC\[-2\]\*RC\[-1\]`/);
+  });
+
+  it('trims to the token budget and refuses text too long for a cell', async () => {
+    const cells = Object.fromEntries(Array.from({ length: 2000 }, (_, index) => [`A${index + 1}`, `Row ${index + 1}`]));
+    installFakeExcel(new FakeWorkbook({ sheets: [{ name: 'Ledger', cells }], selection: 'A1' }));
+
+    const trimmed = await Excel.run(context => getRangeContext(context, 'Ledger!A1:A2000', { maxTokens: 500 }));
+    assert.ok(trimmed.length < 4000);
+    await assert.rejects(
+      Excel.run(context => getRangeContext(context, 'Ledger!A1:A2000')),
+      /a cell holds 32,767\. Set a token budget/
+    );
+  });
+
+  it('redacts with the given rules before serializing', async () => {
+    installFakeExcel(new FakeWorkbook({
+      sheets: [{ name: 'Debtors', cells: { A1: 'Client', B1: 'Balance', A2: 'J. Smith', B2: 120 } }],
+      selection: 'A1',
+    }));
+
+    const text = await Excel.run(context => getRangeContext(context, 'Debtors!A1:B2', {
+      format: 'csv',
+      redactionRules: [{ label: 'NAME', headers: ['Client'] }]
+    }));
+
+    assert.equal(text, 'Client,Balance\n[NAME-1],120');
+  });
+
+  it('continues the mapping passed in and hands back the new one', async () => {
+    installFakeExcel(new FakeWorkbook({
+      sheets: [{ name: 'Debtors', cells: { A1: 'Client', B1: 'Balance', A2: 'J. Smith', B2: 120 } }],
+      selection: 'A1',
+    }));
+    let stored: RedactionMap = { '[NAME-1]': 'A. Jones' };
+
+    const text = await Excel.run(context => getRangeContext(context, 'Debtors!A2', {
+      format: 'csv',
+      redactionRules: [{ label: 'NAME', headers: ['Client'] }],
+      redactionMap: stored,
+      onRedactionMap: map => (stored = map)
+    }));
+
+    assert.equal(text, '[NAME-2]');
+    assert.deepEqual(stored, { '[NAME-1]': 'A. Jones', '[NAME-2]': 'J. Smith' });
+  });
+
+  it('returns R1C1 formulas in the shape of the range', async () => {
+    const formulas = await Excel.run(context => getFormulasR1C1(context, "'Q1 Sales'!C2:D3"));
+
+    assert.deepEqual(formulas, [['', '=RC[-2]*RC[-1]'], ['', '=RC[-2]*RC[-1]']]);
+  });
+
+  it('reads formats typed into a formula', () => {
+    assert.equal(parseOutputFormat(' Markdown '), 'markdown');
+    assert.equal(parseOutputFormat(null), 'json');
+    assert.throws(() => parseOutputFormat('xml'), /Format must be one of json, compact, markdown, csv, tsv/);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeExcelError, FakeWorkbook, installFakeExcel, uninstallFakeExcel } from './fake-excel';
+import { copySelectionToNewSheet, duplicateSelection } from '../src/lib/automations';
+import { clearJournal, getJournal, runJournaled, snapshotRange, undoLastAutomation } from '../src/lib/journal';
+
+describe('undo journal', () => {
+  let workbook: FakeWorkbook;
+
+  beforeEach(() => {
+    workbook = new FakeWorkbook({
+      sheets: [{ name: 'Data', cells: { A1: 3, B1: '=A1*2', D1: 'keep me', E1: 7 } }],
+      selection: 'A1:B1',
+    });
+    installFakeExcel(workbook);
+  });
+
+  afterEach(() => {
+    clearJournal();
+    uninstallFakeExcel();
+  });
+
+  it('restores cells overwritten by duplicateSelection', async () => {
+    await duplicateSelection('D1');
+    assert.equal(workbook.getCell('Data', 'D1')?.value, 3);
+
+    const result = await undoLastAutomation();
+
+    assert.equal(result.success, true);
+    assert.equal(result.data?.automation, 'duplicateSelection');
+    assert.deepEqual(workbook.getCell('Data', 'D1'), { value: 'keep me' });
+    assert.deepEqual(workbook.getCell('Data', 'E1'), { value: 7 });
+    assert.equal(getJournal().length, 0);
+  });
+
+  it('removes the sheet created by copySelectionToNewSheet and returns to the source', async () => {
+    await copySelectionToNewSheet();
+    assert.deepEqual(workbook.sheetNames(), ['Data', 'Copy of Data']);
+
+    await undoLastAutomation();
+
+    assert.deepEqual(workbook.sheetNames(), ['Data']);
+    assert.equal(workbook.activeSheet.name, 'Data');
+  });
+
+  it('undoes the most recent automation first', async () => {
+    await duplicateSelection('D1');
+    await copySelectionToNewSheet({ activateNewSheet: false });
+
+    assert.equal((await undoLastAutomation()).data?.automation, 'copySelectionToNewSheet');
+    assert.equal(workbook.getCell('Data', 'D1')?.value, 3);
+    assert.equal((await undoLastAutomation()).data?.automation, 'duplicateSelection');
+    assert.equal(workbook.getCell('Data', 'D1')?.value, 'keep me');
+  });
+
+  it('reports when there is nothing to undo', async () => {
+    assert.deepEqual(await undoLastAutomation(), { success: false, error: 'Nothing to undo' });
+  });
+
+  it('rolls back a failed copy so no half-filled sheet is left behind', async () => {
+    workbook.beforeWrite = (sheet) => {
+      if (sheet === 'Copy of Data') {
+        throw new FakeExcelError('GeneralException', 'Write failed');
+      }
+    };
+
+    const result = await copySelectionToNewSheet();
+
+    assert.equal(result.success, false);
+    assert.equal(result.error, 'Write failed (changes rolled back)');
+    assert.deepEqual(workbook.sheetNames(), ['Data']);
+    assert.equal(getJournal().length, 0);
+  });
+
+  it('rolls back snapshots when an automation reports failure', async () => {
+    const result = await runJournaled('clearThenFail', async (context, entry) => {
+      await snapshotRange(context, entry, 'Data', 'D1:E1');
+      context.workbook.worksheets.getItem('Data').getRange('D1:E1').values = [['', '']];
+      await context.sync();
+      return { success: false, error: 'Validation failed' };
+    });
+
+    assert.equal(result.error, 'Validation failed (changes rolled back)');
+    assert.deepEqual(workbook.getCell('Data', 'D1'), { value: 'keep me' });
+  });
+});
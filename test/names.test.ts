@@ -0,0 +1,52 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeWorkbook, installFakeExcel, uninstallFakeExcel } from './fake-excel';
+import { captureRange } from '../src/lib/range';
+import { resolveNames } from '../src/lib/names';
+
+describe('resolveNames', () => {
+  beforeEach(() => {
+    installFakeExcel(new FakeWorkbook({
+      sheets: [
+        {
+          name: 'Data',
+          cells: { B2: 10, B3: 20, B4: 30, C2: '=B2*TaxRate' },
+          names: [{ name: 'TaxRate', formula: '=0.2', type: 'Double', value: 0.2 }],
+        },
+        { name: 'Summary', cells: { A1: '=SUM(Revenue)*taxrate', A2: '=Data!TaxRate+Big+Lost', A3: 'No formula' } },
+      ],
+      names: [
+        { name: 'Revenue', formula: '=Data!$B$2:$B$4' },
+        { name: 'TaxRate', formula: '=0.15', type: 'Double', value: 0.15, comment: 'Standard rate' },
+        { name: 'Big', formula: '=Data!$A$1:$A$200' },
+        { name: 'Lost', formula: '=Gone!$A$1' },
+      ],
+    }));
+  });
+
+  afterEach(() => uninstallFakeExcel());
+
+  it('prefers a name scoped to the formula\'s sheet', async () => {
+    const names = await Excel.run(async (context) => resolveNames(context, await captureRange(context, 'C2', 'Data')));
+
+    assert.deepEqual(names, [{ name: 'TaxRate', scope: 'Data', definition: '=0.2', type: 'Double', value: 0.2 }]);
+  });
+
+  it('resolves workbook names, sheet-qualified names and their ranges', async () => {
+    const names = await Excel.run(async (context) => resolveNames(context, await captureRange(context, 'A1:A3', 'Summary'), 3));
+
+    assert.deepEqual(names, [
+      { name: 'Revenue', scope: 'workbook', definition: '=Data!$B$2:$B$4', type: 'Range', address: 'Data!B2:B4', value: [[10], [20], [30]] },
+      { name: 'TaxRate', scope: 'workbook', definition: '=0.15', type: 'Double', value: 0.15, comment: 'Standard rate' },
+      { name: 'TaxRate', scope: 'Data', definition: '=0.2', type: 'Double', value: 0.2 },
+      { name: 'Big', scope: 'workbook', definition: '=Data!$A$1:$A$200', type: 'Range', address: 'Data!A1:A200', truncated: true },
+      { name: 'Lost', scope: 'workbook', definition: '=Gone!$A$1', type: 'Range' },
+    ]);
+  });
+
+  it('finds nothing when no formula uses a name', async () => {
+    const names = await Excel.run(async (context) => resolveNames(context, await captureRange(context, 'A3', 'Summary')));
+
+    assert.deepEqual(names, []);
+  });
+});
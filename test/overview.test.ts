@@ -0,0 +1,103 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeWorkbook, installFakeExcel, uninstallFakeExcel } from './fake-excel';
+import { applyOverviewBudget, captureWorkbookOverview } from '../src/lib/overview';
+import { serializeOverview } from '../src/lib/serializers';
+import { estimateTokens } from '../src/lib/budget';
+
+describe('captureWorkbookOverview', () => {
+  beforeEach(() => {
+    installFakeExcel(new FakeWorkbook({
+      sheets: [
+        {
+          name: 'Income',
+          cells: { B2: 'Line', C2: 'FY24', D2: 'FY23', B3: 'Revenue', C3: 1200, D3: 1100, B4: 'Costs', C4: 800 },
+          tables: [{ name: 'IncomeTable', address: 'B2:D4' }],
+          charts: [{ name: 'Revenue trend', chartType: 'Line' }],
+          names: [{ name: 'TaxRate', formula: '=0.28' }],
+        },
+        { name: 'Notes' },
+        { name: 'Lookups', visibility: 'Hidden', cells: { A1: 'Code' } },
+      ],
+      activeSheet: 'Notes',
+      names: [
+        { name: 'Revenue', formula: '=Income!$C$3' },
+        { name: '_xlfn_hidden', formula: '=1', visible: false },
+      ],
+    }));
+  });
+
+  afterEach(() => uninstallFakeExcel());
+
+  it('lists every sheet with its position, visibility, used range, tables, charts and names', async () => {
+    const overview = await Excel.run(context => captureWorkbookOverview(context, { previewRows: 2 }));
+
+    assert.equal(overview.activeSheet, 'Notes');
+    assert.deepEqual(overview.names, [{ name: 'Revenue', definition: '=Income!$C$3' }]);
+    assert.deepEqual(overview.sheets[0], {
+      name: 'Income',
+      position: 0,
+      visibility: 'Visible',
+      usedRange: 'B2:D4',
+      rowCount: 3,
+      columnCount: 3,
+      tables: [{ name: 'IncomeTable', address: 'B2:D4' }],
+      charts: [{ name: 'Revenue trend', type: 'Line' }],
+      names: ['TaxRate'],
+      preview: [['Line', 'FY24', 'FY23'], ['Revenue', 1200, 1100]],
+    });
+    assert.deepEqual(
+      overview.sheets.slice(1).map(sheet => [sheet.name, sheet.position, sheet.visibility, sheet.usedRange, sheet.preview]),
+      [
+        ['Notes', 1, 'Visible', null, undefined],
+        ['Lookups', 2, 'Hidden', 'A1', [['Code']]],
+      ]
+    );
+  });
+
+  it('serializes in the context formats', async () => {
+    const overview = await Excel.run(context => captureWorkbookOverview(context));
+
+    const markdown = serializeOverview(overview, 'markdown');
+    assert.match(markdown, /\| 1 \| Income \| Visible \| B2:D4 \| 3×3 \| IncomeTable \(B2:D4\) \| Revenue trend \(Line\) \| TaxRate \|/);
+    assert.match(markdown, /#### Income — first rows\n\n\|   \| B \| C \| D \|/);
+    assert.match(markdown, /- \*\*Revenue\*\*: `=Income!\$C\$3`/);
+
+    const csv = serializeOverview(overview, 'csv').split('\n');
+    assert.equal(csv[0], 'Position,Sheet,Visibility,Used range,Rows,Columns,Tables,Charts,Names,Headers');
+    assert.equal(csv[1], '1,Income,Visible,B2:D4,3,3,IncomeTable (B2:D4),Revenue trend,TaxRate,Line; FY24; FY23');
+
+    assert.deepEqual(JSON.parse(serializeOverview(overview, 'compact')), JSON.parse(serializeOverview(overview)));
+  });
+
+  it('stays within a token limit, noting what was left out', async () => {
+    const full = await Excel.run(context => captureWorkbookOverview(context));
+    const limit = estimateTokens(serializeOverview(full)) - 20;
+
+    const fitted = await Excel.run(context => captureWorkbookOverview(context, { maxTokens: limit }));
+
+    assert.ok(estimateTokens(serializeOverview(fitted)) <= limit);
+    assert.ok(fitted.omissions?.length);
+    assert.equal(fitted.sheets.length, 3);
+  });
+});
+
+describe('applyOverviewBudget', () => {
+  it('drops sheets from the end as a last resort', () => {
+    const overview = {
+      timestamp: '2024-01-01T00:00:00.000Z',
+      activeSheet: 'S1',
+      names: [],
+      sheets: Array.from({ length: 30 }, (_, i) => ({
+        name: `S${i + 1}`, position: i, visibility: 'Visible' as const, usedRange: 'A1:Z99',
+        rowCount: 99, columnCount: 26, tables: [], charts: [], names: [],
+      })),
+    };
+
+    const result = applyOverviewBudget(overview, 300);
+
+    assert.equal(result.withinBudget, true);
+    assert.ok(result.overview.sheets.length < 30);
+    assert.match(result.overview.omissions?.[0] ?? '', /sheets left out: S\d+/);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeWorkbook, installFakeExcel, uninstallFakeExcel } from './fake-excel';
+import { parsePipeline, runPipeline, validatePipeline } from '../src/lib/pipeline';
+import { clearJournal, getJournal } from '../src/lib/journal';
+
+const BACKUP_YAML = `
+name: Backup selection
+variables:
+  prefix: Backup
+steps:
+  - id: source
+    action: captureSelection
+  - id: sheet
+    action: createSheet
+    with: { name: "\${prefix} of \${source.sourceSheet}", position: end }
+  - action: pasteRange
+    with: { captured: $source, sheet: $sheet, targetAddress: A1, mode: valuesOnly }
+  - action: activateSheet
+    with: { sheet: $sheet }
+`;
+
+describe('parsePipeline', () => {
+  it('reads YAML', () => {
+    const pipeline = parsePipeline(BACKUP_YAML);
+    assert.equal(pipeline.name, 'Backup selection');
+    assert.deepEqual(pipeline.steps.map(step => step.action), ['captureSelection', 'createSheet', 'pasteRange', 'activateSheet']);
+  });
+
+  it('reads JSON', () => {
+    const pipeline = parsePipeline('{"name": "Where am I", "steps": [{"id": "sheet", "action": "getActiveSheet"}]}');
+    assert.equal(pipeline.steps[0].id, 'sheet');
+  });
+
+  it('throws with every problem listed', () => {
+    assert.throws(
+      () => parsePipeline('name: Broken\nsteps:\n  - action: explode\n  - action: activateSheet\n'),
+      (error: Error) => /unknown action "explode"/.test(error.message) && /missing "sheet"/.test(error.message)
+    );
+  });
+});
+
+describe('validatePipeline', () => {
+  it('accepts a valid pipeline', () => {
+    assert.deepEqual(validatePipeline(parsePipeline(BACKUP_YAML)), []);
+  });
+
+  it('flags variables used before they are defined', () => {
+    const errors = validatePipeline({
+      name: 'Out of order',
+      steps: [
+        { action: 'activateSheet', with: { sheet: '$sheet' } },
+        { id: 'sheet', action: 'createSheet' },
+      ],
+    });
+    assert.deepEqual(errors, ['Step 1 (activateSheet): "sheet" uses $sheet, which is not defined before this step']);
+  });
+
+  it('checks parameter names and types', () => {
+    const errors = validatePipeline({
+      name: 'Bad params',
+      steps: [
+        { action: 'createSheet', with: { position: 'middle', colour: 'red' } },
+        { action: 'captureRange', with: { address: 42 } },
+      ],
+    });
+    assert.deepEqual(errors, [
+      'Step 1 (createSheet): "position" must be one of before, after, end',
+      'Step 1 (createSheet): unknown parameter "colour"',
+      'Step 2 (captureRange): "address" must be a string',
+    ]);
+  });
+
+  it('rejects duplicate step ids', () => {
+    const errors = validatePipeline({
+      name: 'Twice',
+      steps: [{ id: 'a', action: 'getActiveSheet' }, { id: 'a', action: 'getActiveSheet' }],
+    });
+    assert.deepEqual(errors, ['Step 2 (getActiveSheet): "a" is already defined']);
+  });
+});
+
+describe('runPipeline', () => {
+  let workbook: FakeWorkbook;
+
+  beforeEach(() => {
+    workbook = new FakeWorkbook({
+      sheets: [{ name: 'Data', cells: { B2: 5, C2: '=B2*2' } }, { name: 'Notes' }],
+      selection: 'B2:C2',
+    });
+    installFakeExcel(workbook);
+  });
+
+  afterEach(() => {
+    clearJournal();
+    uninstallFakeExcel();
+  });
+
+  it('runs every step, passing variables between them', async () => {
+    const result = await runPipeline(parsePipeline(BACKUP_YAML));
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.steps.map(step => step.success), [true, true, true, true]);
+    assert.equal(result.data?.sheet, 'Backup of Data');
+    assert.deepEqual(workbook.sheetNames(), ['Data', 'Notes', 'Backup of Data']);
+    assert.deepEqual(workbook.getCell('Backup of Data', 'A1'), { value: 5 });
+    assert.equal(workbook.activeSheet.name, 'Backup of Data');
+    assert.equal(getJournal()[0].automation, 'pipeline: Backup selection');
+  });
+
+  it('lets callers override variables', async () => {
+    const result = await runPipeline(parsePipeline(BACKUP_YAML), { prefix: 'Review' });
+    assert.equal(result.data?.sheet, 'Review of Data');
+  });
+
+  it('stops at the failing step and rolls back earlier steps', async () => {
+    const pipeline = parsePipeline(`
+name: Paste to missing sheet
+steps:
+  - id: source
+    action: captureSelection
+  - id: sheet
+    action: createSheet
+    with: { name: Scratch }
+  - action: pasteRange
+    with: { captured: $source, sheet: Missing }
+  - action: activateSheet
+    with: { sheet: $sheet }
+`);
+    const result = await runPipeline(pipeline);
+
+    assert.equal(result.success, false);
+    assert.match(result.error ?? '', /^Step 3 \(pasteRange\) failed: .*\(changes rolled back\)$/);
+    assert.deepEqual(result.steps.map(step => step.success), [true, true, false]);
+    assert.deepEqual(workbook.sheetNames(), ['Data', 'Notes']);
+  });
+
+  it('refuses to run an invalid pipeline', async () => {
+    const result = await runPipeline({ name: 'Empty', steps: [] });
+    assert.deepEqual(result, { success: false, error: '"steps" must be a non-empty list', steps: [] });
+  });
+});
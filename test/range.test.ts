@@ -0,0 +1,167 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeWorkbook, installFakeExcel, uninstallFakeExcel } from './fake-excel';
+import { captureRange, captureSelection, getCapturedCellCount, pasteRange } from '../src/lib/range';
+
+describe('captureSelection', () => {
+  let workbook: FakeWorkbook;
+
+  beforeEach(() => {
+    workbook = new FakeWorkbook({
+      sheets: [
+        { name: 'Other' },
+        {
+          name: 'Data',
+          cells: {
+            A1: 'Item', B1: 'Amount', A2: 'Rent', B2: 1200, B3: '=SUM(B2:B2)',
+            C2: { value: 45291, numberFormat: 'dd/mm/yyyy', text: '31/12/2023' }, D2: '#REF!',
+          },
+        },
+      ],
+      activeSheet: 'Data',
+      selection: 'A1:B3',
+    });
+    installFakeExcel(workbook);
+  });
+
+  afterEach(() => uninstallFakeExcel());
+
+  it('captures values, formulas and the source sheet', async () => {
+    const captured = await Excel.run(context => captureSelection(context));
+
+    assert.equal(captured.address, 'A1:B3');
+    assert.equal(captured.sourceSheet, 'Data');
+    assert.equal(captured.rowCount, 3);
+    assert.equal(captured.columnCount, 2);
+    assert.deepEqual(captured.values, [['Item', 'Amount'], ['Rent', 1200], ['', '']]);
+    assert.equal(captured.formulas[2][1], '=SUM(B2:B2)');
+    assert.equal(captured.formulasR1C1?.[2][1], '=SUM(R[-1]C:R[-1]C)');
+  });
+
+  it('captures a non-contiguous selection area by area', async () => {
+    workbook.select('A1,B2:B3');
+    const captured = await Excel.run(context => captureSelection(context));
+
+    assert.equal(captured.address, 'A1,B2:B3');
+    assert.deepEqual(captured.areas.map(area => area.address), ['A1', 'B2:B3']);
+    assert.deepEqual(captured.values, [['Item']]);
+    assert.equal(getCapturedCellCount(captured), 3);
+  });
+
+  it('captures a range on another sheet by address', async () => {
+    const captured = await Excel.run(context => captureRange(context, 'B1:B2', 'Data'));
+    assert.deepEqual(captured.values, [['Amount'], [1200]]);
+  });
+
+  it('captures displayed text and number formats, and value types on request', async () => {
+    const captured = await Excel.run(context => captureRange(context, 'B2:D2', 'Data', { display: true, valueTypes: true }));
+    assert.deepEqual(captured.text, [['1200', '31/12/2023', '#REF!']]);
+    assert.deepEqual(captured.numberFormat, [['General', 'dd/mm/yyyy', 'General']]);
+    assert.deepEqual(captured.valueTypes, [['Double', 'Double', 'Error']]);
+
+    const plain = await Excel.run(context => captureRange(context, 'B2:D2', 'Data'));
+    assert.equal(plain.text, undefined);
+    assert.equal(plain.valueTypes, undefined);
+  });
+
+  it('captures in blocks of rows, reporting progress after each', async () => {
+    const progress: string[] = [];
+    let syncs = workbook.syncCount;
+    const whole = await Excel.run(context => captureSelection(context));
+    const wholeSyncs = workbook.syncCount - syncs;
+    syncs = workbook.syncCount;
+    const chunked = await Excel.run(context => captureSelection(context, {
+      chunkRows: 1,
+      onProgress: ({ phase, completedRows, totalRows }) => progress.push(`${phase} ${completedRows}/${totalRows}`),
+    }));
+
+    assert.deepEqual(chunked, whole);
+    assert.deepEqual(progress, ['capture 1/3', 'capture 2/3', 'capture 3/3']);
+    // Three blocks instead of one
+    assert.equal(workbook.syncCount - syncs, wholeSyncs + 2);
+  });
+
+  it('stops before the next block once cancelled', async () => {
+    const controller = new AbortController();
+    await assert.rejects(
+      Excel.run(context => captureSelection(context, { chunkRows: 2, signal: controller.signal, onProgress: () => controller.abort() })),
+      /Cancelled after 2 of 3 rows/
+    );
+    await assert.rejects(
+      Excel.run(context => captureSelection(context, { chunkRows: 0 })),
+      /chunkRows must be a positive whole number/
+    );
+  });
+});
+
+describe('pasteRange', () => {
+  let workbook: FakeWorkbook;
+
+  beforeEach(() => {
+    workbook = new FakeWorkbook({
+      sheets: [
+        { name: 'Data', cells: { A1: 10, B1: '=A1*2', C1: '=$A$1+1', A3: 'note' } },
+        { name: 'Target' },
+      ],
+      selection: 'A1:C1',
+    });
+    installFakeExcel(workbook);
+  });
+
+  afterEach(() => uninstallFakeExcel());
+
+  const pasteTo = (address?: string, options?: Parameters<typeof pasteRange>[4]) =>
+    Excel.run(async (context) => {
+      const captured = await captureSelection(context);
+      const target = context.workbook.worksheets.getItem('Target');
+      await pasteRange(context, captured, target, address, options);
+    });
+
+  it('pastes to the same location by default', async () => {
+    await pasteTo();
+    assert.equal(workbook.getCell('Target', 'A1')?.value, 10);
+    assert.equal(workbook.getCell('Target', 'B1')?.formula, '=A1*2');
+  });
+
+  it('shifts relative references and keeps absolute ones', async () => {
+    await pasteTo('D3');
+    assert.equal(workbook.getCell('Target', 'D3')?.value, 10);
+    assert.equal(workbook.getCell('Target', 'E3')?.formula, '=D3*2');
+    assert.equal(workbook.getCell('Target', 'F3')?.formula, '=$A$1+1');
+  });
+
+  it('keeps formulas as typed in asTyped mode', async () => {
+    await pasteTo('D3', { mode: 'asTyped' });
+    assert.equal(workbook.getCell('Target', 'E3')?.formula, '=A1*2');
+  });
+
+  it('writes values only when asked', async () => {
+    await pasteTo('D3', true);
+    assert.equal(workbook.getCell('Target', 'E3')?.formula, undefined);
+    assert.equal(workbook.getCell('Target', 'D3')?.value, 10);
+  });
+
+  it('keeps the layout of a non-contiguous capture', async () => {
+    workbook.select('A1,A3');
+    await pasteTo('C5');
+    assert.equal(workbook.getCell('Target', 'C5')?.value, 10);
+    assert.equal(workbook.getCell('Target', 'C7')?.value, 'note');
+    assert.equal(workbook.getCell('Target', 'C6'), undefined);
+  });
+
+  it('pastes in blocks of rows without changing the result', async () => {
+    workbook.select('A1:C3');
+    const progress: number[] = [];
+    await pasteTo('D3', { chunkRows: 2, onProgress: ({ completedRows }) => progress.push(completedRows) });
+
+    assert.deepEqual(progress, [2, 3]);
+    assert.equal(workbook.getCell('Target', 'E3')?.formula, '=D3*2');
+    assert.equal(workbook.getCell('Target', 'D5')?.value, 'note');
+  });
+
+  it('leaves the source sheet untouched', async () => {
+    await pasteTo('D3');
+    assert.equal(workbook.getCell('Data', 'D3'), undefined);
+    assert.equal(workbook.getCell('Data', 'B1')?.formula, '=A1*2');
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeWorkbook, installFakeExcel, uninstallFakeExcel } from './fake-excel';
+import { buildContextPayload } from '../src/lib/context';
+import { captureSelection } from '../src/lib/range';
+import { traceDependencies } from '../src/lib/trace';
+import { captureSelectionContext } from '../src/lib/automations';
+import {
+  clearRedactionMap,
+  loadRedactionMap,
+  parseRedactionRules,
+  redactOverview,
+  redactPayload,
+  RedactionMapStorage,
+  restorePlaceholders,
+  saveRedactionMap,
+  validateRedactionRules
+} from '../src/lib/redact';
+import { ContextPayload, RedactionRule, WorkbookOverview } from '../src/lib/types';
+
+const rules: RedactionRule[] = [
+  { label: 'ID', pattern: '\\b\\d{13}\\b' },
+  { label: 'name', headers: ['Client'] },
+];
+
+const payload: ContextPayload = {
+  selection: 'A1:B3',
+  sheet: 'Debtors',
+  timestamp: '2024-01-01T00:00:00.000Z',
+  cells: [
+    { ref: 'A1', value: 'Client', formula: null },
+    { ref: 'B1', value: 'Notes', formula: null },
+    { ref: 'A2', value: 'J. Smith', formula: null },
+    { ref: 'B2', value: 'ID 8001015009087 verified', formula: null },
+    { ref: 'A3', value: 'J. Smith', formula: null },
+    { ref: 'B3', value: 8001015009087, formula: null },
+  ],
+};
+
+describe('redaction', () => {
+  it('replaces values under a header and pattern matches with stable placeholders', () => {
+    const { redacted, map, count } = redactPayload(payload, rules);
+
+    assert.deepEqual(redacted.cells.map(cell => cell.value), [
+      'Client', 'Notes', '[NAME-1]', 'ID [ID-1] verified', '[NAME-1]', '[ID-1]',
+    ]);
+    assert.deepEqual(map, { '[ID-1]': '8001015009087', '[NAME-1]': 'J. Smith' });
+    assert.equal(count, 4);
+    assert.equal(payload.cells[2].value, 'J. Smith');
+  });
+
+  it('continues an existing mapping', () => {
+    const other: ContextPayload = {
+      ...payload,
+      cells: [
+        { ref: 'A1', value: 'Client', formula: null },
+        { ref: 'A2', value: 'A. Jones', formula: null },
+        { ref: 'A3', value: 'J. Smith', formula: null },
+      ],
+    };
+    const first = redactPayload(payload, rules);
+    const { redacted, map } = redactPayload(other, rules, first.map);
+
+    assert.deepEqual(redacted.cells.map(cell => cell.value), ['Client', '[NAME-2]', '[NAME-1]']);
+    assert.equal(map['[NAME-2]'], 'A. Jones');
+    assert.equal(Object.keys(first.map).length, 2);
+  });
+
+  it('replaces every value on a listed sheet, in cells, tables and formulas', () => {
+    const sheetRules: RedactionRule[] = [{ label: 'PAYROLL', sheets: ['debtors'] }, rules[0]];
+    const { redacted } = redactPayload({
+      ...payload,
+      cells: [{ ref: 'C1', value: 12000, formula: '=8001015009087*1' }],
+      table: {
+        source: 'heuristic',
+        address: 'A1:A2',
+        columns: [{ name: 'Client', type: 'string' }],
+        firstRow: 2,
+        records: [{ Client: 'J. Smith' }],
+      },
+    }, sheetRules);
+
+    assert.deepEqual(redacted.cells, [{ ref: 'C1', value: '[PAYROLL-1]', formula: '=[ID-1]*1' }]);
+    assert.deepEqual(redacted.table?.records, [{ Client: '[PAYROLL-2]' }]);
+  });
+
+  it('gives traced cells the same placeholder as the cells under the header', async () => {
+    installFakeExcel(new FakeWorkbook({
+      sheets: [
+        { name: 'Debtors', cells: { A1: 'Client', B1: 'Label', A2: 'J. Smith', B2: '=A2&" "&Lookup!A1' } },
+        { name: 'Lookup', cells: { A1: 'A. Jones' } },
+      ],
+      selection: 'A1:B2',
+    }));
+    try {
+      const payload = await Excel.run(async (context) => {
+        const captured = await captureSelection(context);
+        const dependencies = await traceDependencies(context, captured, { depth: 1 });
+        return { ...buildContextPayload(captured), dependencies };
+      });
+      const { redacted } = redactPayload(payload, [...rules, { label: 'NAME', pattern: 'Jones' }]);
+      const nodes = Object.fromEntries(redacted.dependencies!.nodes.map(node => [node.id, node.value]));
+
+      assert.equal(redacted.cells.find(cell => cell.ref === 'A2')?.value, '[NAME-1]');
+      assert.equal(nodes['Debtors!A2'], '[NAME-1]');
+      assert.equal(nodes['Lookup!A1'], 'A. [NAME-2]');
+    } finally {
+      uninstallFakeExcel();
+    }
+  });
+
+  it('looks up headers that were not selected, on the selection\'s sheet and on traced sheets', async () => {
+    installFakeExcel(new FakeWorkbook({
+      sheets: [
+        { name: 'Debtors', cells: { A1: 'Client', B1: 'Balance', A2: 'J. Smith', B2: '=Clients!B3' } },
+        { name: 'Clients', cells: { A1: 'Code', B1: 'Client', B3: 'A. Jones' } },
+      ],
+      selection: 'A2:B2',
+    }));
+    try {
+      const result = await captureSelectionContext({ tracePrecedents: true, traceDepth: 1, redactionRules: rules });
+      assert.ok(result.success && result.data);
+      const { redacted } = redactPayload(result.data, rules);
+      const nodes = Object.fromEntries(redacted.dependencies!.nodes.map(node => [node.id, node.value]));
+
+      assert.equal(redacted.cells.find(cell => cell.ref === 'A2')?.value, '[NAME-1]');
+      assert.equal(nodes['Clients!B3'], '[NAME-2]');
+      assert.equal(redacted.columnHeaders, undefined);
+    } finally {
+      uninstallFakeExcel();
+    }
+  });
+
+  it('redacts overview previews below matching headers', () => {
+    const overview: WorkbookOverview = {
+      timestamp: '2024-01-01T00:00:00.000Z',
+      activeSheet: 'Debtors',
+      names: [],
+      sheets: [{
+        name: 'Debtors', position: 0, visibility: 'Visible', usedRange: 'A1:B2', rowCount: 2, columnCount: 2,
+        tables: [], charts: [], names: [],
+        preview: [['Client', 'Balance'], ['J. Smith', 120]],
+      }],
+    };
+
+    assert.deepEqual(redactOverview(overview, rules).redacted.sheets[0].preview, [['Client', 'Balance'], ['[NAME-1]', 120]]);
+  });
+
+  it('restores placeholders in a reply', () => {
+    const { map } = redactPayload(payload, rules);
+    assert.equal(
+      restorePlaceholders('[NAME-1] (ID [ID-1]) owes more than [NAME-9]', map),
+      'J. Smith (ID 8001015009087) owes more than [NAME-9]'
+    );
+  });
+
+  it('keeps one mapping per workbook, continued by the next redaction', () => {
+    const items = new Map<string, string>();
+    const storage: RedactionMapStorage = {
+      getItem: key => items.get(key) ?? null,
+      setItem: (key, value) => void items.set(key, value),
+      removeItem: key => void items.delete(key),
+    };
+    saveRedactionMap(storage, 'book', redactPayload(payload, rules).map);
+    const { map } = redactPayload({ ...payload, cells: [{ ref: 'A3', value: 'A. Jones', formula: null }] }, [
+      { label: 'NAME', pattern: 'Jones' },
+    ], loadRedactionMap(storage, 'book'));
+
+    assert.equal(map['[NAME-2]'], 'Jones');
+    assert.deepEqual(loadRedactionMap(storage, 'other'), {});
+    clearRedactionMap(storage, 'book');
+    assert.deepEqual(loadRedactionMap(storage, 'book'), {});
+    items.set('draftworx.redaction.book', '{not json');
+    assert.deepEqual(loadRedactionMap(storage, 'book'), {});
+  });
+
+  it('rejects rules that cannot work', () => {
+    assert.deepEqual(validateRedactionRules([
+      { label: 'bad label' },
+      { label: 'EMPTY' },
+      { label: 'ANY', pattern: '.*' },
+      { label: 'BROKEN', pattern: '(' },
+    ]).length, 4);
+    assert.throws(() => parseRedactionRules('{}'), /must be a JSON array/);
+    assert.deepEqual(parseRedactionRules(JSON.stringify(rules)), rules);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeWorkbook, installFakeExcel, uninstallFakeExcel } from './fake-excel';
+import {
+  describeAutomationResult,
+  getAutomation,
+  getAutomations,
+  getDefaultOptions,
+  registerAutomation,
+  runExclusive,
+  validateOptions
+} from '../src/lib/registry';
+
+describe('automation registry', () => {
+  it('lists the built-in automations in order', () => {
+    const ids = getAutomations().map(automation => automation.id);
+
+    assert.deepEqual(ids.slice(0, 2), ['copySelectionToNewSheet', 'duplicateSelection']);
+  });
+
+  it('rejects a duplicate id', () => {
+    assert.throws(
+      () => registerAutomation({ id: 'duplicateSelection', label: 'Again', options: {}, run: async () => ({ success: true }) }),
+      /already registered: duplicateSelection/
+    );
+  });
+
+  it('collects option defaults', () => {
+    const copy = getAutomation('copySelectionToNewSheet')!;
+
+    assert.deepEqual(getDefaultOptions(copy), {
+      pasteMode: 'shiftRelative',
+      formatting: true,
+      activateNewSheet: true,
+    });
+  });
+
+  it('validates required options, types and choices', () => {
+    const duplicate = getAutomation('duplicateSelection')!;
+
+    assert.deepEqual(validateOptions(duplicate.options, {}), ['"Paste at" is required']);
+    assert.deepEqual(validateOptions(duplicate.options, { targetAddress: 5, mode: 'sideways' }), [
+      '"Paste at" must be a string',
+      '"Paste" must be one of shiftRelative, asTyped, valuesOnly',
+    ]);
+    assert.deepEqual(validateOptions(duplicate.options, { targetAddress: 'H1', mode: 'asTyped' }), []);
+  });
+
+  it('runs one thing at a time and frees the flag when a run fails', async () => {
+    let finish = () => {};
+    const first = runExclusive('📄 Copy', () => new Promise<void>(resolve => (finish = resolve)));
+
+    await assert.rejects(runExclusive('Undo', async () => 'undone'), /📄 Copy is still running/);
+    finish();
+    await first;
+
+    await assert.rejects(runExclusive('Broken', async () => { throw new Error('No cells selected'); }), /No cells selected/);
+    assert.equal(await runExclusive('Undo', async () => 'undone'), 'undone');
+  });
+
+  it('describes results for a status line or notification', () => {
+    const duplicate = getAutomation('duplicateSelection')!;
+
+    assert.deepEqual(
+      describeAutomationResult(duplicate, { success: true, data: { sourceAddress: 'A1', targetAddress: 'C1' } }),
+      { type: 'success', message: 'Duplicated A1 to C1' }
+    );
+    assert.deepEqual(describeAutomationResult({ label: 'Tidy' }, { success: true }), { type: 'success', message: 'Tidy done' });
+    assert.deepEqual(describeAutomationResult(duplicate, { success: false, error: 'No cells selected' }), {
+      type: 'error',
+      message: 'No cells selected',
+    });
+  });
+});
+
+describe('registered automations', () => {
+  let workbook: FakeWorkbook;
+
+  beforeEach(() => {
+    workbook = new FakeWorkbook({
+      sheets: [{
+        name: 'Data',
+        cells: { A1: { value: 1, numberFormat: '0.0' }, B1: '=A1*2' },
+        styles: { A1: { font: { bold: true } } },
+        comments: [{ ref: 'B1', content: 'Doubled' }],
+      }],
+      selection: 'A1:B1',
+    });
+    installFakeExcel(workbook);
+  });
+
+  afterEach(() => uninstallFakeExcel());
+
+  it('runs the copy automation with the options it is given', async () => {
+    const copy = getAutomation('copySelectionToNewSheet')!;
+    const result = await copy.run(getDefaultOptions(copy));
+
+    assert.equal(result.success, true);
+    assert.equal(copy.describeResult?.(result.data), 'Created "Copy of Data" with 2 cells');
+    assert.equal(workbook.getCell('Copy of Data', 'B1')?.formula, '=A1*2');
+
+    // Formatting is kept by default
+    const copySheet = workbook.getSheet('Copy of Data')!;
+    assert.equal(workbook.getCell('Copy of Data', 'A1')?.numberFormat, '0.0');
+    assert.deepEqual(copySheet.styles.get('A1'), { font: { bold: true } });
+    assert.deepEqual(copySheet.comments, [{ ref: 'B1', content: 'Doubled' }]);
+  });
+
+  it('runs the duplicate automation at the given address', async () => {
+    const duplicate = getAutomation('duplicateSelection')!;
+    const result = await duplicate.run({ targetAddress: 'A3' });
+
+    assert.equal(result.success, true);
+    assert.equal(duplicate.describeResult?.(result.data), 'Duplicated A1:B1 to A3');
+    assert.equal(workbook.getCell('Data', 'B3')?.formula, '=A3*2');
+  });
+});
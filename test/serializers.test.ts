@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { serializeContext } from '../src/lib/serializers';
+import { ContextPayload } from '../src/lib/types';
+
+const payload: ContextPayload = {
+  selection: 'A1:B2',
+  sheet: 'Sales',
+  timestamp: '2024-01-01T00:00:00.000Z',
+  cells: [
+    { ref: 'A1', value: 'Client', formula: null },
+    { ref: 'B1', value: 'Total', formula: null },
+    { ref: 'A2', value: 'Smith, J', formula: null },
+    { ref: 'B2', value: 1200, formula: '=B3*TaxRate', text: '1,200' },
+  ],
+  formulaRegions: [{ range: 'B2:B9', formula: '=R[1]C*TaxRate', inconsistent: ['B5'] }],
+  names: [{ name: 'TaxRate', scope: 'workbook', definition: '=0.15', type: 'Double', value: 0.15 }],
+  dependencies: { nodes: [], edges: [], truncated: true, warnings: [] },
+};
+
+describe('delimited serializers', () => {
+  it('writes displayed values as CSV with the rest of the payload as comments', () => {
+    assert.deepEqual(serializeContext(payload, 'csv').split('\n'), [
+      'Client,Total',
+      '"Smith, J","1,200"',
+      '',
+      '# Formula regions (R1C1):',
+      '#   B2:B9: =R[1]C*TaxRate (breaks the pattern: B5)',
+      '# Named ranges:',
+      '#   TaxRate (workbook): =0.15 -> 0.15',
+      '# dependencies:',
+      '#   {',
+      '#     "nodes": [],',
+      '#     "edges": [],',
+      '#     "truncated": true,',
+      '#     "warnings": []',
+      '#   }',
+    ]);
+  });
+
+  it('writes TSV without quoting and labels each area', () => {
+    const areas: ContextPayload = {
+      selection: 'A1:A2,C1',
+      sheet: 'Sales',
+      timestamp: payload.timestamp,
+      areas: ['A1:A2', 'C1'],
+      cells: [
+        { ref: 'A1', value: 'Smith, J', formula: null },
+        { ref: 'A2', value: 'line\tbreak', formula: null },
+        { ref: 'C1', value: 5, formula: null },
+      ],
+    };
+
+    assert.equal(serializeContext(areas, 'tsv'), 'Sales!A1:A2\nSmith, J\nline break\n\nSales!C1\n5');
+  });
+
+  it('marks sampled-out table records', () => {
+    const table: ContextPayload = {
+      ...payload,
+      cells: [],
+      formulaRegions: undefined,
+      names: undefined,
+      dependencies: undefined,
+      table: {
+        source: 'table',
+        name: 'Sales',
+        address: 'A1:B40',
+        columns: [{ name: 'Client', type: 'string' }, { name: 'Total', type: 'number' }],
+        firstRow: 2,
+        records: [{ Client: 'A', Total: 1 }, { Client: 'B', Total: 2 }],
+        recordRows: [2, 40],
+      },
+    };
+
+    assert.equal(serializeContext(table, 'tsv'), 'Client\tTotal\nA\t1\n…\t…\nB\t2');
+  });
+});
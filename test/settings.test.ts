@@ -0,0 +1,126 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeSettings } from './fake-excel';
+import {
+  DEFAULT_PROFILE,
+  exportProfiles,
+  getActiveProfile,
+  getProfileInUse,
+  getWorkbookProfile,
+  loadUserSettings,
+  parseProfiles,
+  removeProfile,
+  resolveProfile,
+  saveUserSettings,
+  setWorkbookProfile,
+  SettingsStorage,
+  upsertProfile
+} from '../src/lib/settings';
+import { SettingsProfile } from '../src/lib/types';
+
+/** Async storage, like OfficeRuntime.storage */
+class FakeStorage implements SettingsStorage {
+  items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+}
+
+const audit: SettingsProfile = {
+  name: 'Audit review',
+  format: 'markdown',
+  maxTokens: 8000,
+  includeFormulas: false,
+  redactionRules: [{ label: 'NAME', headers: ['Client'] }],
+  automationOptions: { copySelectionToNewSheet: { pasteMode: 'valuesOnly' } },
+};
+
+describe('settings profiles', () => {
+  it('starts a new user on the default profile and round-trips saved profiles', async () => {
+    const storage = new FakeStorage();
+    const fresh = await loadUserSettings(storage);
+    assert.deepEqual(fresh, { profiles: [{ name: 'Default' }], activeProfile: 'Default' });
+
+    await saveUserSettings(storage, upsertProfile(fresh, audit));
+    const loaded = await loadUserSettings(storage);
+
+    assert.equal(loaded.activeProfile, 'Audit review');
+    assert.deepEqual(getActiveProfile(loaded), audit);
+    assert.deepEqual(loaded.profiles.map(profile => profile.name), ['Default', 'Audit review']);
+  });
+
+  it('drops invalid stored profiles and unreadable settings', async () => {
+    const storage = new FakeStorage();
+    storage.items.set('draftworx.settings', JSON.stringify({
+      profiles: [{ name: 'Bad', traceDepth: 50 }, audit],
+      activeProfile: 'Bad',
+    }));
+    assert.deepEqual(await loadUserSettings(storage), { profiles: [audit], activeProfile: 'Audit review' });
+
+    storage.items.set('draftworx.settings', '{not json');
+    assert.equal((await loadUserSettings(storage)).activeProfile, 'Default');
+  });
+
+  it('fills unset values from the defaults', () => {
+    const resolved = resolveProfile(audit);
+    assert.equal(resolved.format, 'markdown');
+    assert.equal(resolved.includeFormulas, false);
+    assert.equal(resolved.liveUpdate, DEFAULT_PROFILE.liveUpdate);
+    assert.equal(resolveProfile({ name: 'X', traceDepth: undefined }).traceDepth, 2);
+  });
+
+  it('replaces profiles by name and keeps at least one', () => {
+    const settings = upsertProfile({ profiles: [{ name: 'Default' }], activeProfile: 'Default' }, audit);
+    const renamed = upsertProfile(settings, { ...audit, maxTokens: 0 });
+    assert.equal(renamed.profiles.length, 2);
+    assert.equal(getActiveProfile(renamed).maxTokens, 0);
+
+    assert.deepEqual(removeProfile(renamed, 'Audit review'), { profiles: [{ name: 'Default' }], activeProfile: 'Default' });
+    assert.throws(() => removeProfile({ profiles: [audit], activeProfile: audit.name }, audit.name), /at least one/);
+  });
+
+  it('pins a profile to the workbook through document settings', async () => {
+    const settings = new FakeSettings();
+    assert.equal(getWorkbookProfile(settings), undefined);
+
+    await setWorkbookProfile(settings, audit);
+    assert.deepEqual(getWorkbookProfile(settings), audit);
+
+    await setWorkbookProfile(settings, null);
+    assert.equal(getWorkbookProfile(settings), undefined);
+
+    settings.failSave = true;
+    await assert.rejects(setWorkbookProfile(settings, audit), /Could not save the workbook profile: Document is read-only/);
+  });
+
+  it('uses the pinned profile in preference to the user\'s', async () => {
+    const storage = new FakeStorage();
+    await saveUserSettings(storage, upsertProfile(await loadUserSettings(storage), audit));
+    const settings = new FakeSettings();
+    assert.equal((await getProfileInUse(settings, storage)).name, 'Audit review');
+
+    await setWorkbookProfile(settings, { name: 'Year end', format: 'csv' });
+    assert.deepEqual(await getProfileInUse(settings, storage), { name: 'Year end', format: 'csv' });
+  });
+
+  it('exports and imports profiles as JSON, rejecting bad ones', () => {
+    assert.deepEqual(parseProfiles(exportProfiles([audit, { name: 'Default' }])), [audit, { name: 'Default' }]);
+    assert.deepEqual(parseProfiles(JSON.stringify(audit)), [audit]);
+
+    assert.throws(() => parseProfiles('[{ "name": "A", "format": "xml", "liveUpdate": "yes" }]'), (error: Error) => {
+      assert.deepEqual(error.message.split('\n'), [
+        'Profile "A": format must be one of json, compact, markdown, csv, tsv',
+        'Profile "A": liveUpdate must be true or false',
+      ]);
+      return true;
+    });
+    assert.throws(() => parseProfiles('[{ "name": "A" }, { "name": "A" }]'), /appears more than once/);
+    assert.throws(() => parseProfiles('[{ "name": "A", "redactionRules": [{ "label": "ANY", "pattern": ".*" }] }]'), /must not match empty text/);
+    assert.throws(() => parseProfiles('{'), /not valid JSON/);
+  });
+});
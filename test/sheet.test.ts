@@ -0,0 +1,72 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeWorkbook, installFakeExcel, uninstallFakeExcel } from './fake-excel';
+import { createSheet, generateUniqueSheetName } from '../src/lib/sheet';
+
+describe('createSheet', () => {
+  let workbook: FakeWorkbook;
+
+  beforeEach(() => {
+    workbook = new FakeWorkbook({
+      sheets: [{ name: 'First' }, { name: 'Middle' }, { name: 'Last' }],
+      activeSheet: 'Middle',
+    });
+    installFakeExcel(workbook);
+  });
+
+  afterEach(() => uninstallFakeExcel());
+
+  it('inserts after the active sheet by default', async () => {
+    await Excel.run(context => createSheet(context, { name: 'New' }));
+    assert.deepEqual(workbook.sheetNames(), ['First', 'Middle', 'New', 'Last']);
+  });
+
+  it('inserts before the active sheet', async () => {
+    await Excel.run(context => createSheet(context, { name: 'New', position: 'before' }));
+    assert.deepEqual(workbook.sheetNames(), ['First', 'New', 'Middle', 'Last']);
+  });
+
+  it('appends at the end', async () => {
+    await Excel.run(context => createSheet(context, { name: 'New', position: 'end' }));
+    assert.deepEqual(workbook.sheetNames(), ['First', 'Middle', 'Last', 'New']);
+  });
+
+  it('returns a usable worksheet without changing the active sheet', async () => {
+    const name = await Excel.run(async (context) => {
+      const sheet = await createSheet(context, { name: 'New' });
+      sheet.load('name');
+      await context.sync();
+      return sheet.name;
+    });
+
+    assert.equal(name, 'New');
+    assert.equal(workbook.activeSheet.name, 'Middle');
+  });
+
+  it('names the sheet when no name is given', async () => {
+    await Excel.run(context => createSheet(context));
+    assert.deepEqual(workbook.sheetNames(), ['First', 'Middle', 'Sheet4', 'Last']);
+  });
+});
+
+describe('generateUniqueSheetName', () => {
+  beforeEach(() => {
+    installFakeExcel(new FakeWorkbook({
+      sheets: [{ name: 'Data' }, { name: 'Report' }, { name: 'report (2)' }],
+    }));
+  });
+
+  afterEach(() => uninstallFakeExcel());
+
+  it('returns the base name when it is free', async () => {
+    assert.equal(await Excel.run(context => generateUniqueSheetName(context, 'Summary')), 'Summary');
+  });
+
+  it('appends a counter when the name is taken', async () => {
+    assert.equal(await Excel.run(context => generateUniqueSheetName(context, 'Data')), 'Data (2)');
+  });
+
+  it('compares names case-insensitively and skips taken counters', async () => {
+    assert.equal(await Excel.run(context => generateUniqueSheetName(context, 'REPORT')), 'REPORT (3)');
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeSettings, FakeWorkbook, installFakeExcel, uninstallFakeExcel } from './fake-excel';
+import { captureRange } from '../src/lib/range';
+import { serializeContext } from '../src/lib/serializers';
+import {
+  deleteSnapshot,
+  diffSnapshot,
+  diffToContextPayload,
+  getSnapshot,
+  getSnapshots,
+  saveSnapshot
+} from '../src/lib/snapshots';
+
+describe('range snapshots', () => {
+  let workbook: FakeWorkbook;
+  let settings: FakeSettings;
+
+  beforeEach(() => {
+    workbook = new FakeWorkbook({
+      sheets: [{ name: 'TB', cells: { A1: 'Cash', B1: 100, A2: 'Debtors', B2: { value: 250, formula: '=B1*2.5' }, A3: 'Old' } }],
+    });
+    installFakeExcel(workbook);
+    settings = new FakeSettings();
+  });
+
+  afterEach(() => uninstallFakeExcel());
+
+  async function snapshot(name: string) {
+    const captured = await Excel.run(context => captureRange(context, 'A1:B4', 'TB'));
+    return saveSnapshot(settings, name, captured);
+  }
+
+  it('saves snapshots with the document and lists them oldest first', async () => {
+    await snapshot('Before adjustments');
+    await snapshot('After adjustments');
+
+    assert.ok(settings.saved['draftworx.snapshots']);
+    assert.deepEqual(getSnapshots(settings).map(s => s.name), ['Before adjustments', 'After adjustments']);
+    assert.equal(getSnapshot(settings, 'Before adjustments')?.captured.sourceSheet, 'TB');
+    assert.equal(getSnapshot(settings, 'Before adjustments')?.captured.formulasR1C1, undefined);
+
+    await deleteSnapshot(settings, 'Before adjustments');
+    assert.deepEqual(getSnapshots(settings).map(s => s.name), ['After adjustments']);
+  });
+
+  it('rejects a blank name and reports failed saves', async () => {
+    await assert.rejects(snapshot('  '), /name is required/);
+
+    settings.failSave = true;
+    await assert.rejects(snapshot('Before'), /Could not save snapshots: Document is read-only/);
+  });
+
+  it('refuses a snapshot too large for the document settings', async () => {
+    await snapshot('Small');
+    const values = Array.from({ length: 8000 }, () => ['x'.repeat(200)]);
+    const captured = {
+      address: 'A1:A8000',
+      sourceSheet: 'TB',
+      values,
+      formulas: values,
+      rowCount: 8000,
+      columnCount: 1,
+      areas: [{ address: 'A1:A8000', values, formulas: values, rowCount: 8000, columnCount: 1 }],
+    };
+
+    await assert.rejects(saveSnapshot(settings, 'Huge', captured), /Snapshots would take 6,561 KB .*limit 1,500 KB\) — snapshot a smaller range/);
+    assert.deepEqual(getSnapshots(settings).map(s => s.name), ['Small']);
+  });
+
+  it('diffs the range now against a snapshot, cell by cell', async () => {
+    const saved = await snapshot('Before adjustments');
+    await Excel.run(async (context) => {
+      const tb = context.workbook.worksheets.getItem('TB');
+      tb.getRange('B1').values = [[120]];
+      tb.getRange('B2').formulas = [['=B1*3']];
+      tb.getRange('A3').values = [['']];
+      tb.getRange('A4').values = [['New']];
+      await context.sync();
+    });
+
+    const diff = await Excel.run(context => diffSnapshot(context, saved));
+
+    assert.equal(diff.snapshot, 'Before adjustments');
+    assert.equal(diff.address, 'A1:B4');
+    assert.deepEqual(diff.changes.map(change => [change.ref, change.kind]), [
+      ['B1', 'valueChanged'],
+      ['B2', 'formulaChanged'],
+      ['A3', 'cleared'],
+      ['A4', 'added'],
+    ]);
+    assert.deepEqual(diff.changes[0].before, { value: 100, formula: null });
+    assert.deepEqual(diff.changes[0].after, { value: 120, formula: null });
+  });
+
+  it('turns a diff into a context payload for the AI', async () => {
+    const saved = await snapshot('Before');
+    await Excel.run(async (context) => {
+      context.workbook.worksheets.getItem('TB').getRange('B1').values = [[90]];
+      await context.sync();
+    });
+
+    const payload = diffToContextPayload(await Excel.run(context => diffSnapshot(context, saved)));
+
+    assert.equal(payload.sheet, 'TB');
+    assert.deepEqual(payload.cells, [{ ref: 'B1', value: 90, formula: null }]);
+    assert.equal(payload.diff?.changes.length, 1);
+    assert.match(serializeContext(payload, 'markdown'), /\*\*diff\*\*/);
+  });
+});
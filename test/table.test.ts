@@ -0,0 +1,63 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeSheetSetup, FakeWorkbook, installFakeExcel, uninstallFakeExcel } from './fake-excel';
+import { captureRange } from '../src/lib/range';
+import { detectTable } from '../src/lib/table';
+
+const cells = {
+  A1: 'Client', B1: 'Total', C1: 'Paid',
+  A2: 'Acme', B2: 120, C2: true,
+  A3: 'Birch', B3: { value: 240, formula: '=B2*2' }, C3: false,
+};
+
+function detect(sheet: FakeSheetSetup, address: string) {
+  installFakeExcel(new FakeWorkbook({ sheets: [sheet] }));
+  return Excel.run(async (context) => detectTable(context, await captureRange(context, address, sheet.name)));
+}
+
+describe('detectTable', () => {
+  afterEach(() => uninstallFakeExcel());
+
+  it('uses the Excel table under the selection, with its column names', async () => {
+    const table = await detect({ name: 'Debtors', cells, tables: [{ name: 'DebtorsTable', address: 'A1:C3' }] }, 'B2:C3');
+
+    assert.deepEqual(table, {
+      name: 'DebtorsTable',
+      source: 'table',
+      address: 'B2:C3',
+      columns: [{ name: 'Total', type: 'number' }, { name: 'Paid', type: 'boolean' }],
+      firstRow: 2,
+      records: [{ Total: 120, Paid: true }, { Total: 240, Paid: false }],
+      formulas: { B3: '=B2*2' },
+    });
+  });
+
+  it('covers the header row when it was selected too', async () => {
+    const table = await detect({ name: 'Debtors', cells, tables: [{ name: 'DebtorsTable', address: 'A1:C3' }] }, 'A1:C2');
+
+    assert.equal(table?.address, 'A1:C2');
+    assert.deepEqual(table?.records, [{ Client: 'Acme', Total: 120, Paid: true }]);
+  });
+
+  it('names the columns of a table without a header row', async () => {
+    const sheet = { name: 'Debtors', cells, tables: [{ name: 'Body', address: 'A2:C3', showHeaders: false }] };
+    const table = await detect(sheet, 'A2:B2');
+
+    assert.deepEqual(table?.columns.map(column => column.name), ['Column1', 'Column2']);
+  });
+
+  it('falls back to a header row of unique labels over data', async () => {
+    const table = await detect({ name: 'Debtors', cells }, 'A1:C3');
+
+    assert.equal(table?.source, 'heuristic');
+    assert.equal(table?.name, undefined);
+    assert.equal(table?.address, 'A1:C3');
+    assert.deepEqual(table?.records[1], { Client: 'Birch', Total: 240, Paid: false });
+  });
+
+  it('finds no table in text-only or headerless blocks', async () => {
+    assert.equal(await detect({ name: 'Notes', cells: { A1: 'To do', A2: 'Call Acme' } }, 'A1:A2'), null);
+    assert.equal(await detect({ name: 'Debtors', cells: { ...cells, B1: 'Client' } }, 'A1:C3'), null);
+    assert.equal(await detect({ name: 'Debtors', cells }, 'A2:C3'), null);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeWorkbook, installFakeExcel, uninstallFakeExcel } from './fake-excel';
+import { captureRange } from '../src/lib/range';
+import { traceDependencies } from '../src/lib/trace';
+import { DependencyGraph, TraceOptions } from '../src/lib/types';
+
+describe('traceDependencies', () => {
+  beforeEach(() => {
+    installFakeExcel(new FakeWorkbook({
+      sheets: [
+        { name: 'Data', cells: { A1: 100, B1: '=A1*(1+Rates!A1)', C1: '=B1*2', D1: '=SUM(A1:A3)', E1: '=Gone!A1' } },
+        { name: 'Rates', cells: { A1: 0.15 } },
+        { name: 'Summary', cells: { A1: '=Data!B1+Data!C1', A2: '=A1/2' } },
+      ],
+    }));
+  });
+
+  afterEach(() => uninstallFakeExcel());
+
+  function trace(address: string, options: TraceOptions): Promise<DependencyGraph> {
+    return Excel.run(async (context) => traceDependencies(context, await captureRange(context, address, 'Data'), options));
+  }
+
+  it('follows precedents and dependents across sheets', async () => {
+    const graph = await trace('B1', { precedents: true, dependents: true, depth: 2 });
+
+    assert.deepEqual(graph.nodes.map(node => [node.id, node.depth]), [
+      ['Data!B1', 0],
+      ['Data!A1', 1],
+      ['Rates!A1', 1],
+      ['Data!C1', -1],
+      ['Summary!A1', -1],
+      ['Summary!A2', -2],
+    ]);
+    assert.deepEqual(graph.edges, [
+      { from: 'Data!A1', to: 'Data!B1' },
+      { from: 'Rates!A1', to: 'Data!B1' },
+      { from: 'Data!B1', to: 'Data!C1' },
+      { from: 'Data!B1', to: 'Summary!A1' },
+      { from: 'Data!C1', to: 'Summary!A1' },
+      { from: 'Summary!A1', to: 'Summary!A2' },
+    ]);
+    assert.equal(graph.truncated, false);
+    assert.deepEqual(graph.warnings, []);
+  });
+
+  it('stops at the depth and node limits', async () => {
+    const shallow = await trace('B1', { precedents: false, dependents: true, depth: 1 });
+    assert.deepEqual(shallow.nodes.map(node => node.id), ['Data!B1', 'Data!C1', 'Summary!A1']);
+
+    const limited = await trace('B1', { precedents: true, dependents: true, maxNodes: 2 });
+    assert.equal(limited.nodes.length, 2);
+    assert.equal(limited.truncated, true);
+  });
+
+  it('warns about references it cannot read', async () => {
+    const graph = await trace('E1', { precedents: true });
+
+    assert.deepEqual(graph.nodes.map(node => node.id), ['Data!E1']);
+    assert.deepEqual(graph.warnings, ['Could not read Gone!A1']);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeWorkbook, installFakeExcel, uninstallFakeExcel } from './fake-excel';
+import { SelectionTracker, trackSelection, TrackingReason } from '../src/lib/tracking';
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 60));
+
+describe('trackSelection', () => {
+  let workbook: FakeWorkbook;
+  let tracker: SelectionTracker | undefined;
+  let calls: TrackingReason[];
+
+  beforeEach(() => {
+    workbook = new FakeWorkbook({
+      sheets: [
+        { name: 'Data', cells: { A1: 1, A2: 2 } },
+        { name: 'Notes' },
+      ],
+      selection: 'A1:A2',
+    });
+    installFakeExcel(workbook);
+    calls = [];
+  });
+
+  afterEach(async () => {
+    await tracker?.stop();
+    tracker = undefined;
+    uninstallFakeExcel();
+  });
+
+  const track = async (watchValues = false) => {
+    tracker = await trackSelection(reason => {
+      calls.push(reason);
+    }, { debounceMs: 10, watchValues });
+  };
+
+  it('collapses a burst of selection changes into one call', async () => {
+    await track();
+    workbook.select('A1');
+    workbook.select('A2');
+    workbook.select('A1:A2');
+    await settle();
+
+    assert.deepEqual(calls, ['selection']);
+  });
+
+  it('keeps following the selection after switching sheets', async () => {
+    await track();
+    workbook.select('B2', 'Notes');
+    await settle();
+    workbook.select('C3');
+    await settle();
+
+    assert.deepEqual(calls, ['selection', 'selection']);
+  });
+
+  it('calls back for edits to the selected cells only when watching values', async () => {
+    await track(true);
+    workbook.edit('Data', { B1: 5 });
+    await settle();
+    workbook.edit('Data', { A2: 20 });
+    await settle();
+    workbook.edit('Notes', { A2: 'memo' });
+    await settle();
+
+    assert.deepEqual(calls, ['values']);
+  });
+
+  it('follows a selection change followed by an edit in the same quiet period', async () => {
+    await track(true);
+    workbook.select('B1');
+    workbook.edit('Data', { A1: 5 });
+    await settle();
+    assert.deepEqual(calls, ['values']);
+
+    workbook.edit('Data', { A2: 20 });
+    await settle();
+    assert.deepEqual(calls, ['values']);
+
+    workbook.edit('Data', { B1: 7 });
+    await settle();
+    assert.deepEqual(calls, ['values', 'values']);
+  });
+
+  it('ignores edits without watchValues and stops on stop()', async () => {
+    await track();
+    workbook.edit('Data', { A2: 20 });
+    await settle();
+    await tracker!.stop();
+    tracker = undefined;
+    workbook.select('A1');
+    await settle();
+
+    assert.deepEqual(calls, []);
+    assert.equal(workbook.handlers.selectionChanged.size, 0);
+    assert.equal(workbook.handlers.activated.size, 0);
+  });
+});
@@ -4,13 +4,23 @@ const CopyWebpackPlugin = require('copy-webpack-plugin');
 
 module.exports = {
   entry: {
-    taskpane: './src/taskpane/taskpane.ts'
+    taskpane: './src/taskpane/taskpane.ts',
+    commands: './src/commands/commands.ts',
+    functions: './src/functions/functions.ts'
   },
   output: {
     path: path.resolve(__dirname, 'dist'),
     filename: '[name].js',
     clean: true
   },
+  // Every entry loads in taskpane.html (the shared runtime) — one runtime
+  // chunk lets them share the automation registry and undo journal
+  optimization: {
+    runtimeChunk: 'single',
+    splitChunks: {
+      chunks: 'all'
+    }
+  },
   resolve: {
     extensions: ['.ts', '.js']
   },
@@ -27,11 +37,18 @@ module.exports = {
     new HtmlWebpackPlugin({
       template: './src/taskpane/taskpane.html',
       filename: 'taskpane.html',
-      chunks: ['taskpane']
+      chunks: ['taskpane', 'commands', 'functions']
+    }),
+    new HtmlWebpackPlugin({
+      template: './src/commands/notification.html',
+      filename: 'notification.html',
+      chunks: []
     }),
     new CopyWebpackPlugin({
       patterns: [
-        { from: 'assets', to: 'assets', noErrorOnMissing: true }
+        { from: 'assets', to: 'assets', noErrorOnMissing: true },
+        { from: 'src/commands/shortcuts.json', to: 'shortcuts.json' },
+        { from: 'src/functions/functions.json', to: 'functions.json' }
       ]
     })
   ],